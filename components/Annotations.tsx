@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation, SectionFeedback } from '../types';
+import { FEEDBACK_REASONS, parseTags } from '../services/annotations';
+import { MessageKey } from '../locales/en';
+import { t } from '../services/i18n';
+
+/**
+ * FEEDBACK AND NOTES - the rating control of an overview section, the editor for a note on a
+ * selected passage, and the list of a section's notes.
+ */
+
+const THUMBS: Array<{ rating: SectionFeedback['rating']; icon: string; label: MessageKey }> = [
+  { rating: 'up', icon: '👍', label: 'feedback.good' },
+  { rating: 'down', icon: '👎', label: 'feedback.problem' },
+];
+
+/** Preset reasons are saved in English, so the feedback log reads the same whatever language rated it. */
+const REASON_LABELS: { [reason: string]: MessageKey } = {
+  'Accurate': 'feedback.reasonAccurate',
+  'Well supported': 'feedback.reasonWellSupported',
+  'Useful summary': 'feedback.reasonUsefulSummary',
+  'Factually wrong': 'feedback.reasonWrong',
+  'Not supported by the citations': 'feedback.reasonUnsupported',
+  'Outdated': 'feedback.reasonOutdated',
+  'Missing key evidence': 'feedback.reasonMissingEvidence',
+  'Off topic': 'feedback.reasonOffTopic',
+};
+
+export const reasonLabel = (reason: string) => (REASON_LABELS[reason] ? t(REASON_LABELS[reason]) : reason);
+
+/** Thumbs up/down; choosing one asks for an optional reason, choosing it again clears the rating. */
+export const SectionFeedbackControl: React.FC<{
+  feedback?: SectionFeedback;
+  onChange: (feedback?: SectionFeedback) => void;
+}> = ({ feedback, onChange }) => {
+  const [draft, setDraft] = useState<SectionFeedback['rating'] | null>(null);
+  const [reason, setReason] = useState('');
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!draft) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setDraft(null);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [draft]);
+
+  const choose = (rating: SectionFeedback['rating']) => {
+    if (feedback?.rating === rating && !draft) return onChange(undefined);
+    setDraft(rating);
+    setReason(feedback?.rating === rating ? feedback.reason ?? '' : '');
+  };
+
+  const save = (text: string) => {
+    onChange({ rating: draft!, reason: text.trim() || undefined, at: Date.now() });
+    setDraft(null);
+  };
+
+  return (
+    <div ref={rootRef} className="relative flex items-center gap-1">
+      {THUMBS.map(({ rating, icon, label }) => (
+        <button
+          key={rating}
+          onClick={() => choose(rating)}
+          aria-label={t(label)}
+          aria-pressed={feedback?.rating === rating}
+          title={feedback?.rating === rating ? t('feedback.clearHint', { label: t(label) }) : t(label)}
+          className={`w-6 h-6 rounded-md text-[11px] flex items-center justify-center transition-all ${
+            feedback?.rating === rating || draft === rating
+              ? rating === 'up' ? 'bg-[#008c8c]/10 ring-1 ring-[#008c8c]/30' : 'bg-amber-50 ring-1 ring-amber-300'
+              : 'grayscale opacity-50 hover:opacity-100 hover:grayscale-0'
+          }`}
+        >
+          {icon}
+        </button>
+      ))}
+      {feedback?.reason && !draft && (
+        <span className="ml-1 text-[10px] font-bold text-slate-400 truncate max-w-[200px]" title={reasonLabel(feedback.reason)}>
+          {reasonLabel(feedback.reason)}
+        </span>
+      )}
+
+      {draft && (
+        <div
+          className="absolute top-full left-0 mt-2 w-[280px] bg-white border border-slate-100 rounded-2xl shadow-xl p-3 z-[60]"
+          onKeyDown={e => e.key === 'Escape' && setDraft(null)}
+        >
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">
+            {draft === 'up' ? t('feedback.whatGood') : t('feedback.whatWrong')}
+          </p>
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {FEEDBACK_REASONS[draft].map(preset => (
+              <button
+                key={preset}
+                onClick={() => save(preset)}
+                className="px-2 py-1 rounded-lg border border-slate-200 text-[11px] font-bold text-slate-600 hover:border-[#008c8c]/40 hover:text-[#008c8c]"
+              >
+                {reasonLabel(preset)}
+              </button>
+            ))}
+          </div>
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              save(reason);
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              autoFocus
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder={t('feedback.otherReason')}
+              aria-label={t('feedback.reason')}
+              className="flex-1 min-w-0 h-8 px-2.5 rounded-lg border border-slate-200 text-[12px] outline-none focus:border-[#008c8c]/50"
+            />
+            <button type="submit" className="h-8 px-3 bg-[#008c8c] text-white rounded-lg text-[10px] font-black uppercase tracking-widest">
+              {t('common.save')}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Note and tags for a passage; used both for new selections and for editing an existing note. */
+export const NoteEditor: React.FC<{
+  quote: string;
+  annotation?: Annotation;
+  onSave: (note: string, tags: string[]) => void;
+  onDelete?: () => void;
+  onCancel: () => void;
+}> = ({ quote, annotation, onSave, onDelete, onCancel }) => {
+  const [note, setNote] = useState(annotation?.note ?? '');
+  const [tags, setTags] = useState(annotation?.tags.map(t => `#${t}`).join(' ') ?? '');
+  const empty = !note.trim() && parseTags(tags).length === 0;
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        if (!empty) onSave(note.trim(), parseTags(tags));
+      }}
+      onKeyDown={e => e.key === 'Escape' && onCancel()}
+      onMouseUp={e => e.stopPropagation()}
+      className="w-[300px] bg-white border border-slate-100 rounded-2xl shadow-xl p-3 flex flex-col gap-2"
+    >
+      <blockquote className="text-[12px] text-slate-500 italic border-l-2 border-amber-300 pl-2 line-clamp-3">{quote}</blockquote>
+      <textarea
+        autoFocus
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        placeholder={t('notes.note')}
+        aria-label={t('notes.note')}
+        rows={3}
+        className="w-full px-2.5 py-2 rounded-lg border border-slate-200 text-[12px] outline-none focus:border-[#008c8c]/50 resize-none"
+      />
+      <input
+        value={tags}
+        onChange={e => setTags(e.target.value)}
+        placeholder="#tags"
+        aria-label={t('notes.tags')}
+        className="w-full h-8 px-2.5 rounded-lg border border-slate-200 text-[12px] outline-none focus:border-[#008c8c]/50"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={empty}
+          className="h-8 px-3 bg-[#008c8c] text-white rounded-lg text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+        >
+          {annotation ? t('common.save') : t('notes.add')}
+        </button>
+        <button type="button" onClick={onCancel} className="h-8 px-2 text-slate-400 text-[10px] font-black uppercase tracking-widest hover:text-slate-700">
+          {t('common.cancel')}
+        </button>
+        {onDelete && (
+          <button type="button" onClick={onDelete} className="ml-auto h-8 px-2 text-rose-500 text-[10px] font-black uppercase tracking-widest hover:underline">
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+/** The notes of one section, under its text; each opens its highlight for editing. */
+export const SectionNotes: React.FC<{ annotations: Annotation[]; onSelect: (id: string) => void }> = ({ annotations, onSelect }) =>
+  annotations.length === 0 ? null : (
+    <ul className="mt-3 flex flex-col gap-1.5">
+      {annotations.map(a => (
+        <li key={a.id}>
+          <button onClick={() => onSelect(a.id)} className="w-full text-left flex items-baseline gap-2 text-[12px] group/note">
+            <span aria-hidden className="text-amber-400">✎</span>
+            <span className="text-slate-400 italic truncate max-w-[40%]">“{a.quote}”</span>
+            <span className="text-slate-600 font-medium group-hover/note:text-[#008c8c]">{a.note}</span>
+            {a.tags.map(tag => (
+              <span key={tag} className="px-1.5 rounded-md bg-slate-100 text-slate-500 text-[10px] font-bold">#{tag}</span>
+            ))}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
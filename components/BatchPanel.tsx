@@ -0,0 +1,299 @@
+import React, { useRef, useState } from 'react';
+import { TurnAnswer } from '../types';
+import { BatchInput, MAX_BATCH_ROWS, parseBatchInput } from '../services/batchInput';
+import {
+  BatchRow, BatchSortKey, buildBatchRows, DEFAULT_CONCURRENCY, MAX_CONCURRENCY, sortBatchRows, summarizeRow,
+} from '../services/batch';
+import { placeholders, QUERY_TEMPLATES } from '../services/suggestions';
+import { formatPValue, formatSlope } from '../utils/format';
+import { numberLocale, t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+/**
+ * BATCH PANEL - asks one templated question for every row of an uploaded or pasted list of variants/genes,
+ * and tabulates the answers. Any finished row can be opened as a regular turn in the current session.
+ */
+
+/** Templates usable in batch mode: those with a slot the input rows can fill. */
+const BATCH_TEMPLATES = QUERY_TEMPLATES.filter(template => placeholders(template.text).some(p => p.slot === 'rsid' || p.slot === 'gene'));
+const ROW_SLOTS = ['rsid', 'gene'];
+
+const STATUS_STYLES: Record<BatchRow['status'], string> = {
+  queued: 'bg-slate-100 text-slate-400',
+  running: 'bg-[#008c8c]/10 text-[#008c8c] animate-pulse',
+  done: 'bg-[#008c8c]/10 text-[#008c8c]',
+  failed: 'bg-rose-50 text-rose-600',
+  skipped: 'bg-amber-50 text-amber-700',
+};
+
+const STATUS_LABELS: Record<BatchRow['status'], MessageKey> = {
+  queued: 'batch.queued',
+  running: 'batch.running',
+  done: 'batch.done',
+  failed: 'batch.failed',
+  skipped: 'batch.skipped',
+};
+
+const COLUMNS: Array<[BatchSortKey, MessageKey]> = [
+  ['variant', 'batch.variant'],
+  ['gene', 'batch.gene'],
+  ['slope', 'batch.slope'],
+  ['pValue', 'batch.pValue'],
+  ['citations', 'batch.citations'],
+];
+
+const BatchPanel: React.FC<{
+  rows: BatchRow[];
+  running: boolean;
+  counts: { total: number; done: number; failed: number };
+  onStart: (rows: BatchRow[], concurrency: number) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onPromote: (query: string, answer: TurnAnswer) => void;
+  onClose: () => void;
+}> = ({ rows, running, counts, onStart, onCancel, onClear, onPromote, onClose }) => {
+  const [input, setInput] = useState<BatchInput | null>(null);
+  const [source, setSource] = useState('');
+  const [templateId, setTemplateId] = useState(BATCH_TEMPLATES[0].id);
+  const [shared, setShared] = useState<Record<string, string>>({ tissue: 'Pancreas' });
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [sort, setSort] = useState<{ key: BatchSortKey; descending: boolean } | null>(null);
+  const [showSkipped, setShowSkipped] = useState(false);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const template = BATCH_TEMPLATES.find(option => option.id === templateId) ?? BATCH_TEMPLATES[0];
+  const sharedSlots = [...new Set(placeholders(template.text).map(p => p.slot).filter(slot => !ROW_SLOTS.includes(slot)))];
+  const planned = input ? buildBatchRows(input.rows, template.text, shared) : [];
+  const runnable = planned.filter(r => r.status === 'queued').length;
+
+  const load = (text: string, name: string) => {
+    setSource(name);
+    setInput(text.trim() ? parseBatchInput(text) : null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    load(await file.text(), file.name);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const shown = sort ? sortBatchRows(rows, sort.key, sort.descending) : rows;
+  const settled = counts.done + counts.failed;
+  const resumable = !running && rows.some(r => r.status === 'queued' || r.status === 'failed');
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[2px]" onClick={onClose}></div>
+
+      <aside className="relative w-full max-w-[960px] h-full bg-white shadow-2xl border-l border-slate-100 flex flex-col">
+        <div className="px-6 pt-6 pb-4 flex items-center justify-between border-b border-slate-100">
+          <div>
+            <h3 className="text-slate-800 font-black text-[15px]">{t('batch.title')}</h3>
+            <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wide mt-0.5">
+              {t('batch.subtitle', { max: MAX_BATCH_ROWS })}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 font-black" title={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-6 custom-scrollbar">
+          {/* 1. Input */}
+          <section className="flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fileInput.current?.click()}
+                disabled={running}
+                className="h-9 px-4 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all disabled:opacity-50"
+              >
+                {t('batch.upload')}
+              </button>
+              <span className="text-slate-400 text-[11px] font-medium">{t('batch.orPaste')}</span>
+              {input && (
+                <span className="ml-auto text-[11px] font-bold text-slate-500">
+                  {source && `${source} • `}{input.format.toUpperCase()} • {t('batch.rows', { count: input.rows.length })}
+                  {input.skipped.length > 0 && (
+                    <button onClick={() => setShowSkipped(v => !v)} className="ml-2 text-amber-600 hover:underline">
+                      {t('batch.skippedCount', { count: input.skipped.length })}
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.tsv,.txt,.vcf,text/csv,text/tab-separated-values"
+              className="hidden"
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+            <textarea
+              onChange={e => load(e.target.value, '')}
+              disabled={running}
+              placeholder={'rsid,gene\nrs2402203,CFTR\nrs689,INS'}
+              rows={4}
+              className="w-full bg-slate-50/60 border border-slate-200 rounded-2xl px-4 py-3 font-mono text-[12px] text-slate-700 outline-none focus:border-[#008c8c]/50 resize-y"
+            />
+            {showSkipped && input && input.skipped.length > 0 && (
+              <ul className="text-[11px] text-amber-700 bg-amber-50/60 rounded-xl px-4 py-2 max-h-[120px] overflow-y-auto custom-scrollbar">
+                {input.skipped.map((s, i) => <li key={i}>{t('batch.skippedLine', { line: s.line, reason: s.reason })}</li>)}
+              </ul>
+            )}
+          </section>
+
+          {/* 2. Question */}
+          <section className="flex flex-col gap-3">
+            <label className="text-slate-400 text-[10px] font-black tracking-[0.2em] uppercase">{t('batch.question')}</label>
+            <select
+              value={templateId}
+              onChange={e => setTemplateId(e.target.value)}
+              disabled={running}
+              className="h-10 px-3 bg-white border border-slate-200 rounded-xl text-[13px] text-slate-700 outline-none focus:border-[#008c8c]/50"
+            >
+              {BATCH_TEMPLATES.map(option => <option key={option.id} value={option.id}>{option.text}</option>)}
+            </select>
+            {sharedSlots.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3">
+                {sharedSlots.map(slot => (
+                  <label key={slot} className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+                    {slot}
+                    <input
+                      value={shared[slot] ?? ''}
+                      onChange={e => setShared(prev => ({ ...prev, [slot]: e.target.value }))}
+                      disabled={running}
+                      placeholder={slot === 'tissue' ? t('batch.tissueHint') : ''}
+                      className="h-8 w-[240px] px-3 bg-white border border-slate-200 rounded-lg text-[12px] text-slate-700 outline-none focus:border-[#008c8c]/50"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+            {planned[0] && (
+              <p className="text-[12px] text-slate-500">
+                <span className="text-slate-400 font-bold">{t('batch.firstQuestion')} </span>{planned[0].query}
+              </p>
+            )}
+          </section>
+
+          {/* 3. Run */}
+          <section className="flex items-center gap-3">
+            {running ? (
+              <button
+                onClick={onCancel}
+                className="h-10 px-6 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[11px] uppercase tracking-widest hover:border-rose-300 hover:text-rose-500 transition-all"
+              >
+                {t('common.cancel')}
+              </button>
+            ) : (
+              <button
+                onClick={() => onStart(planned, concurrency)}
+                disabled={runnable === 0}
+                className="h-10 px-6 bg-[#008c8c] text-white rounded-xl font-black text-[11px] uppercase tracking-widest hover:bg-teal-700 transition-all disabled:opacity-40"
+              >
+                {t('batch.ask', { count: runnable })}
+              </button>
+            )}
+            {resumable && (
+              <button
+                onClick={() => onStart(rows.map(r => (r.status === 'failed' ? { ...r, status: 'queued', error: undefined } : r)), concurrency)}
+                className="h-10 px-5 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all"
+              >
+                {t('batch.resume')}
+              </button>
+            )}
+            <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+              {t('batch.concurrency')}
+              <select
+                value={concurrency}
+                onChange={e => setConcurrency(Number(e.target.value))}
+                disabled={running}
+                className="h-8 px-2 bg-white border border-slate-200 rounded-lg text-[12px] outline-none"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            {rows.length > 0 && !running && (
+              <button onClick={onClear} className="ml-auto text-slate-400 hover:text-rose-500 text-[10px] font-black uppercase tracking-widest">
+                {t('batch.clearResults')}
+              </button>
+            )}
+          </section>
+
+          {/* 4. Results */}
+          {rows.length > 0 && (
+            <section className="flex flex-col gap-3">
+              <div className="flex items-center gap-3">
+                <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-[#008c8c] transition-all"
+                    style={{ width: `${counts.total ? (settled / counts.total) * 100 : 0}%` }}
+                  ></div>
+                </div>
+                <span className="text-[11px] font-bold text-slate-500 shrink-0" aria-live="polite">
+                  {t('batch.progress', { done: counts.done, total: counts.total })}{counts.failed > 0 && ` • ${t('batch.failedCount', { failed: counts.failed })}`}
+                </span>
+              </div>
+
+              <table className="w-full text-[12px]">
+                <thead>
+                  <tr className="text-left text-slate-400 text-[9px] font-black uppercase tracking-widest border-b border-slate-100">
+                    {COLUMNS.map(([key, label]) => (
+                      <th key={key} className="py-2 pr-3" aria-sort={sort?.key === key ? (sort.descending ? 'descending' : 'ascending') : undefined}>
+                        <button
+                          onClick={() => setSort(prev => ({ key, descending: prev?.key === key ? !prev.descending : false }))}
+                          className="uppercase tracking-widest hover:text-[#008c8c]"
+                        >
+                          {t(label)}{sort?.key === key && (sort.descending ? ' ↓' : ' ↑')}
+                        </button>
+                      </th>
+                    ))}
+                    <th className="py-2 pr-3">{t('batch.status')}</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map(row => {
+                    const summary = summarizeRow(row);
+                    return (
+                      <tr key={row.id} title={row.query} className="border-b border-slate-50 text-slate-600">
+                        <td className="py-2 pr-3 font-bold text-slate-800">{summary.variant ?? '—'}</td>
+                        <td className="py-2 pr-3 font-bold text-slate-800">{summary.gene ?? '—'}</td>
+                        <td className="py-2 pr-3 tabular-nums">{summary.slope !== undefined ? formatSlope(summary.slope, numberLocale()) : '—'}</td>
+                        <td className="py-2 pr-3 tabular-nums">
+                          {summary.pValue !== undefined ? formatPValue(summary.pValue, numberLocale()) : '—'}
+                          {summary.tissue && summary.pValue !== undefined && <span className="ml-1.5 text-slate-400 text-[10px]">{summary.tissue}</span>}
+                        </td>
+                        <td className="py-2 pr-3 tabular-nums">{summary.citations ?? '—'}</td>
+                        <td className="py-2 pr-3">
+                          <span
+                            title={row.error?.message ?? row.skipReason}
+                            className={`px-1.5 py-0.5 rounded-md text-[9px] font-black uppercase tracking-wide ${STATUS_STYLES[row.status]}`}
+                          >
+                            {t(STATUS_LABELS[row.status])}
+                          </span>
+                        </td>
+                        <td className="py-2 text-right">
+                          {row.answer && (
+                            <button
+                              onClick={() => onPromote(row.query, row.answer!)}
+                              className="text-[#008c8c] text-[10px] font-black uppercase tracking-widest hover:underline whitespace-nowrap"
+                            >
+                              {t('batch.openAsTurn')}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default BatchPanel;
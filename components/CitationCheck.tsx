@@ -0,0 +1,77 @@
+import React from 'react';
+import { Citation, CitationField, CitationVerification } from '../types';
+import { splitJournal } from '../utils/citation';
+import { MessageKey } from '../locales/en';
+import { t } from '../services/i18n';
+
+/**
+ * CITATION CHECK - verification badge for a reference, and the claimed-vs-canonical comparison behind it.
+ */
+
+const STATUS_STYLES: Record<CitationVerification['status'], { label: MessageKey; className: string; hint: MessageKey }> = {
+  verified: { label: 'verification.verified', className: 'bg-[#008c8c]/10 text-[#008c8c]', hint: 'verification.verifiedHint' },
+  mismatched: { label: 'verification.mismatched', className: 'bg-amber-50 text-amber-700', hint: 'verification.mismatchedHint' },
+  'not-found': { label: 'verification.notFound', className: 'bg-rose-50 text-rose-600', hint: 'verification.notFoundHint' },
+  unavailable: { label: 'verification.unavailable', className: 'bg-slate-100 text-slate-400', hint: 'verification.unavailableHint' },
+};
+
+export const VerificationBadge: React.FC<{ verification?: CitationVerification }> = ({ verification }) => {
+  if (!verification) {
+    return <span className="px-1.5 py-0.5 rounded-md bg-slate-50 text-slate-300 text-[9px] font-black uppercase tracking-wide animate-pulse">{t('verification.checking')}</span>;
+  }
+  const { label, className, hint } = STATUS_STYLES[verification.status];
+  return (
+    <span title={`${t(hint)} (${verification.source})`} className={`px-1.5 py-0.5 rounded-md text-[9px] font-black uppercase tracking-wide ${className}`}>
+      {t(label)}
+    </span>
+  );
+};
+
+/** Field-by-field table of what the answer claimed next to the canonical record; disagreeing rows are highlighted. */
+export const CitationComparison: React.FC<{ citation: Citation }> = ({ citation }) => {
+  const { verification } = citation;
+  if (!verification) return null;
+
+  if (!verification.record) {
+    return (
+      <p className="mt-3 text-[11px] text-slate-500">
+        {verification.status === 'not-found'
+          ? t('verification.notInSource', { pmid: citation.pmid, source: verification.source })
+          : t('verification.unreachable', { source: verification.source })}
+      </p>
+    );
+  }
+
+  const { record, mismatches } = verification;
+  const claimed = splitJournal(citation.journal);
+  const rows: Array<[CitationField, string, string, string]> = [
+    ['title', t('verification.fieldTitle'), citation.title, record.title],
+    ['authors', t('verification.fieldFirstAuthor'), citation.authors.split(',')[0].trim(), record.authors[0] ?? '—'],
+    ['journal', t('verification.fieldJournal'), claimed.journal, record.journal],
+    ['year', t('verification.fieldYear'), claimed.year ?? '—', record.year ?? '—'],
+  ];
+
+  return (
+    <table className="mt-3 w-full text-[10px] border-separate border-spacing-y-1">
+      <thead>
+        <tr className="text-slate-400 font-black uppercase tracking-widest text-[8px]">
+          <th className="text-left font-black w-[22%]"></th>
+          <th className="text-left font-black">{t('verification.claimed')}</th>
+          <th className="text-left font-black">{verification.source}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([field, label, claimedValue, canonicalValue]) => {
+          const differs = mismatches.includes(field);
+          return (
+            <tr key={field} className={differs ? 'text-amber-700' : 'text-slate-500'}>
+              <td className="pr-2 align-top font-bold text-slate-400">{label}</td>
+              <td className={`pr-2 align-top ${differs ? 'font-bold' : ''}`}>{claimedValue}</td>
+              <td className={`align-top ${differs ? 'font-bold' : ''}`}>{canonicalValue}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
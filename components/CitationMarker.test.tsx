@@ -0,0 +1,63 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Citation } from '../types';
+import CitationMarker from './CitationMarker';
+import { axeViolations } from '../test/axe';
+
+const CITATION: Citation = {
+  id: 1,
+  title: 'Islet eQTL mapping',
+  authors: 'Smith J, et al.',
+  journal: 'Diabetes',
+  pmid: '12345678',
+};
+
+describe('CitationMarker', () => {
+  it('names the marker after its reference and selects it on click', async () => {
+    const onSelect = vi.fn();
+    const { container } = render(<p>Claim.<CitationMarker num={1} citation={CITATION} onSelect={onSelect} /></p>);
+    const marker = screen.getByRole('button', { name: /Islet eQTL mapping/ });
+
+    expect(marker.getAttribute('aria-disabled')).toBe('false');
+    fireEvent.click(marker);
+    expect(onSelect).toHaveBeenCalledWith(1);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('can be reached by keyboard', () => {
+    render(<p>Claim.<CitationMarker num={1} citation={CITATION} /></p>);
+    const marker = screen.getByRole('button', { name: /Islet eQTL mapping/ });
+
+    marker.focus();
+    expect(document.activeElement).toBe(marker);
+  });
+
+  it('includes a failed verification in the name', () => {
+    render(<CitationMarker num={1} citation={{ ...CITATION, verification: { status: 'not-found', source: 'local cache', mismatches: [], checkedAt: 0 } }} />);
+
+    expect(screen.getByRole('button').getAttribute('aria-label')).toBe(
+      'Reference 1: Islet eQTL mapping PMID not found; the reference may be fabricated.',
+    );
+  });
+
+  it('flags a number with no reference and does not select it', () => {
+    const onSelect = vi.fn();
+    render(<CitationMarker num={3} onSelect={onSelect} />);
+    const marker = screen.getByRole('button');
+
+    expect(marker.getAttribute('aria-label')).toBe("No reference [3] in this answer's citations.");
+    expect(marker.getAttribute('aria-disabled')).toBe('true');
+    fireEvent.click(marker);
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('does not flag a reference that may still be streaming in', () => {
+    render(<CitationMarker num={3} pending />);
+    const marker = screen.getByRole('button');
+
+    expect(marker.getAttribute('aria-label')).toBe('Reference 3, not loaded yet');
+    expect(marker.getAttribute('aria-disabled')).toBe('true');
+    expect(screen.queryByText(/No reference/)).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Citation } from '../types';
+import { t } from '../services/i18n';
+
+/**
+ * CITATION MARKER - the numbered reference after a claim. A button named after its reference, with the
+ * reference details in a tooltip on hover and focus; numbers with no reference are flagged instead.
+ */
+
+const CitationMarker: React.FC<{
+  num: number;
+  citation?: Citation;
+  /** While streaming, the references may simply not have arrived yet, so nothing is flagged. */
+  pending?: boolean;
+  onSelect?: (num: number) => void;
+}> = ({ num, citation, pending, onSelect }) => {
+  const missing = !citation && !pending;
+  const warning =
+    citation?.verification?.status === 'mismatched' ? t('citation.mismatched')
+    : citation?.verification?.status === 'not-found' ? t('citation.notFound')
+    : '';
+  const label =
+    citation ? `${t('citation.label', { number: num, title: citation.title })} ${warning}`.trim()
+    : missing ? t('citation.missing', { number: num })
+    : t('citation.pending', { number: num });
+  return (
+    <span className="relative inline-block group/marker align-middle ml-1 mb-0.5">
+      <button
+        type="button"
+        onClick={() => citation && onSelect?.(num)}
+        aria-label={label}
+        aria-disabled={!citation}
+        className={`inline-flex items-center justify-center w-[16px] h-[16px] border text-[9px] font-black rounded-full transition-all duration-200 outline-none focus-visible:ring-2 focus-visible:ring-[#008c8c]/40 ${
+          missing
+            ? 'border-rose-400 border-dashed text-rose-500 bg-rose-50 cursor-help'
+            : 'border-[#008c8c] text-[#008c8c] cursor-pointer hover:bg-[#008c8c] hover:text-white'
+        }`}
+      >
+        {num}
+      </button>
+      {(citation || missing) && (
+        <span aria-hidden className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover/marker:block group-focus-within/marker:block w-[260px] z-[60] pointer-events-none">
+          <span className="block bg-slate-900 text-white text-left rounded-xl shadow-2xl py-3 px-4 border border-white/10">
+            {citation ? (
+              <>
+                <span className="block text-[12px] font-bold leading-snug">{citation.title}</span>
+                <span className="block text-[11px] text-slate-300 mt-1.5">{citation.authors}</span>
+                <span className="block text-[10px] font-bold uppercase text-slate-400 mt-1">{citation.journal} • PMID {citation.pmid}</span>
+                {warning && (
+                  <span className={`block text-[10px] font-bold mt-1.5 ${citation.verification?.status === 'mismatched' ? 'text-amber-300' : 'text-rose-300'}`}>{warning}</span>
+                )}
+              </>
+            ) : (
+              <span className="block text-[12px] font-bold text-rose-300">{t('citation.missing', { number: num })}</span>
+            )}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default CitationMarker;
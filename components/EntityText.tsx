@@ -0,0 +1,115 @@
+import React from 'react';
+import { EntityKind, EntityMention } from '../types';
+import { entityHref, extractEntities } from '../services/entities';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+/**
+ * ENTITY TEXT - renders free text with recognised identifiers as linked chips.
+ * Chip colours follow the knowledge graph legend; malformed identifiers get a dashed amber chip
+ * whose tooltip explains the problem.
+ */
+
+const CHIP_STYLES: Record<EntityKind, { className: string; label: MessageKey }> = {
+  'gene-symbol': { className: 'bg-[#008c8c]/10 text-[#008c8c] border-[#008c8c]/20', label: 'entity.gene' },
+  'ensembl-gene': { className: 'bg-[#008c8c]/10 text-[#008c8c] border-[#008c8c]/20', label: 'entity.ensemblGene' },
+  variant: { className: 'bg-indigo-50 text-indigo-600 border-indigo-200', label: 'entity.variant' },
+  disease: { className: 'bg-rose-50 text-rose-600 border-rose-200', label: 'entity.disease' },
+  publication: { className: 'bg-slate-100 text-slate-600 border-slate-200', label: 'entity.publication' },
+};
+
+export const EntityChip: React.FC<{ mention: EntityMention }> = ({ mention }) => {
+  const href = entityHref(mention);
+  const { className, label } = mention.issue
+    ? { className: 'bg-amber-50 text-amber-700 border-amber-300 border-dashed', label: CHIP_STYLES[mention.kind].label }
+    : CHIP_STYLES[mention.kind];
+  const title = mention.issue
+    ? `${t(label)}: ${mention.issue}${mention.id !== mention.text ? ` ${t('entity.linkedAs', { id: mention.id })}` : ''}`
+    : `${t(label)}: ${mention.id}`;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={title}
+      onClick={e => !href && e.preventDefault()}
+      className={`inline-flex items-center gap-1 px-1.5 py-px mx-px rounded-md border font-bold text-[0.9em] leading-snug align-baseline transition-colors ${className} ${
+        href ? 'hover:brightness-95' : 'cursor-help'
+      }`}
+    >
+      {mention.text}
+      {mention.issue && <span aria-hidden className="text-[0.8em]">⚠</span>}
+    </a>
+  );
+};
+
+/** A marked passage of the text; `start`/`end` are character offsets. */
+export interface TextHighlight {
+  id: string;
+  start: number;
+  end: number;
+  title?: string;
+}
+
+const Highlight: React.FC<{ highlight: TextHighlight; onSelect?: (id: string) => void; children: React.ReactNode }> = ({
+  highlight,
+  onSelect,
+  children,
+}) => (
+  <mark
+    title={highlight.title}
+    data-highlight={highlight.id}
+    role={onSelect ? 'button' : undefined}
+    tabIndex={onSelect ? 0 : undefined}
+    onClick={() => onSelect?.(highlight.id)}
+    onKeyDown={e => {
+      if (onSelect && (e.key === 'Enter' || e.key === ' ')) {
+        e.preventDefault();
+        onSelect(highlight.id);
+      }
+    }}
+    className={`bg-amber-100/80 text-inherit border-b-2 border-amber-300 rounded-sm ${onSelect ? 'cursor-pointer hover:bg-amber-200/80' : ''}`}
+  >
+    {children}
+  </mark>
+);
+
+/**
+ * `text` with every identifier replaced by a chip; `symbols` adds turn-specific gene symbols to the lexicon.
+ * `highlights` mark passages; a chip that a highlight touches is marked whole.
+ */
+const EntityText: React.FC<{
+  text: string;
+  symbols?: string[];
+  highlights?: TextHighlight[];
+  onHighlightSelect?: (id: string) => void;
+}> = ({ text, symbols, highlights = [], onHighlightSelect }) => {
+  const mentions = extractEntities(text, symbols);
+  if (mentions.length === 0 && highlights.length === 0) return <>{text}</>;
+
+  const covering = (start: number, end: number) => highlights.find(h => h.start < end && h.end > start);
+  const mark = (key: string | number, start: number, end: number, node: React.ReactNode) => {
+    const highlight = covering(start, end);
+    return highlight
+      ? <Highlight key={key} highlight={highlight} onSelect={onHighlightSelect}>{node}</Highlight>
+      : <React.Fragment key={key}>{node}</React.Fragment>;
+  };
+
+  const parts: React.ReactNode[] = [];
+  // Plain text is split wherever a highlight starts or ends.
+  const pushPlain = (from: number, to: number) => {
+    const cuts = [...new Set([from, to, ...highlights.flatMap(h => [h.start, h.end]).filter(n => n > from && n < to)])].sort((a, b) => a - b);
+    cuts.slice(1).forEach((end, i) => parts.push(mark(`t${cuts[i]}`, cuts[i], end, text.slice(cuts[i], end))));
+  };
+  let cursor = 0;
+  mentions.forEach(mention => {
+    if (mention.start > cursor) pushPlain(cursor, mention.start);
+    parts.push(mark(`m${mention.start}`, mention.start, mention.end, <EntityChip mention={mention} />));
+    cursor = mention.end;
+  });
+  if (cursor < text.length) pushPlain(cursor, text.length);
+  return <>{parts}</>;
+};
+
+export default EntityText;
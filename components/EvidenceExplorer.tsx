@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { TurnData } from '../types';
+import {
+  claimCount, collectEvidence, EVIDENCE_SORTS, EVIDENCE_SOURCE_TYPES, EvidenceSort, EvidenceSourceType, sortEvidence, turnCount,
+} from '../services/sessionEvidence';
+import { MessageKey } from '../locales/en';
+import { t } from '../services/i18n';
+
+/**
+ * EVIDENCE EXPLORER - slide-over bibliography of the whole session: references merged by PMID, datasets and
+ * entity links, each with the questions that cite it. Selecting a question scrolls to it (switching branch
+ * if needed) and, for references, highlights the citation in that turn's evidence list.
+ */
+
+type SourceFilter = 'all' | EvidenceSourceType;
+
+const TYPE_BADGES: Record<EvidenceSourceType, string> = {
+  literature: 'L',
+  dataset: 'D',
+  pankbase: 'P',
+  external: 'X',
+};
+
+const EvidenceExplorer: React.FC<{
+  /** Every turn of the session, in the order asked (all branches). */
+  turns: TurnData[];
+  onJump: (turnId: string, citationId?: number) => void;
+  onClose: () => void;
+}> = ({ turns, onJump, onClose }) => {
+  const [filter, setFilter] = useState<SourceFilter>('all');
+  const [sort, setSort] = useState<EvidenceSort>('frequency');
+  const items = collectEvidence(turns);
+  const shown = sortEvidence(filter === 'all' ? items : items.filter(item => item.type === filter), sort);
+  const questionNumber = (turnId: string) => turns.findIndex(turn => turn.id === turnId) + 1;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[2px]" onClick={onClose}></div>
+
+      <aside className="relative w-full max-w-[480px] h-full bg-white shadow-2xl border-l border-slate-100 flex flex-col">
+        <div className="px-6 pt-6 pb-4 flex items-center justify-between border-b border-slate-100">
+          <div>
+            <h3 className="text-slate-800 font-black text-[15px]">{t('explorer.title')}</h3>
+            <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wide mt-0.5">
+              {t('explorer.summary', { references: items.filter(item => item.type === 'literature').length, questions: turns.length })}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 font-black" title={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        <div className="px-6 py-3 flex flex-wrap items-center gap-1.5 border-b border-slate-50">
+          {[{ type: 'all' as const, label: 'explorer.all' as MessageKey }, ...EVIDENCE_SOURCE_TYPES].map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => setFilter(type)}
+              aria-pressed={filter === type}
+              className={`h-7 px-3 rounded-lg text-[10px] font-black uppercase tracking-widest ${
+                filter === type ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-700'
+              }`}
+            >
+              {t(label)} {type === 'all' ? items.length : items.filter(item => item.type === type).length}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-1.5 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+            {t('explorer.sort')}
+            <select
+              value={sort}
+              onChange={e => setSort(e.target.value as EvidenceSort)}
+              className="h-7 px-2 bg-white border border-slate-200 rounded-lg text-slate-600 text-[10px] font-black uppercase outline-none focus:border-[#008c8c]"
+            >
+              {EVIDENCE_SORTS.map(option => (
+                <option key={option.sort} value={option.sort}>{t(option.label)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 flex flex-col gap-3">
+          {shown.length === 0 && (
+            <li className="text-slate-400 text-[12px] py-10 text-center">
+              {items.length === 0 ? t('explorer.empty') : t('explorer.noneOfType')}
+            </li>
+          )}
+          {shown.map(item => (
+            <li key={item.key} className="p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 transition-all">
+              <div className="flex gap-3">
+                <span
+                  className="w-7 h-7 rounded-lg bg-[#008c8c]/10 text-[#008c8c] text-[11px] font-black flex items-center justify-center shrink-0"
+                  title={t(EVIDENCE_SOURCE_TYPES.find(source => source.type === item.type)!.label)}
+                >
+                  {TYPE_BADGES[item.type]}
+                </span>
+                <div className="min-w-0 flex-1">
+                  {item.href ? (
+                    <a href={item.href} target="_blank" rel="noopener noreferrer" className="text-[#008c8c] font-bold text-[12px] leading-tight line-clamp-2 hover:underline underline-offset-4">
+                      {item.title}
+                    </a>
+                  ) : (
+                    <h5 className="text-slate-700 font-bold text-[12px] leading-tight line-clamp-2">{item.title}</h5>
+                  )}
+                  <p className="text-slate-500 text-[11px] mt-1 leading-relaxed line-clamp-2">{item.detail}</p>
+                  <p className="text-slate-400 text-[9px] font-bold uppercase mt-1 truncate">
+                    {[item.venue, item.year, item.pmid && `PMID ${item.pmid}`].filter(Boolean).join(' • ')}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    <span className="text-slate-400 text-[10px] font-bold mr-1">
+                      {t('explorer.questions', { count: turnCount(item) })}
+                      {item.type === 'literature' && ` • ${t('explorer.claims', { count: claimCount(item) })}`}
+                    </span>
+                    {item.uses.map(use => {
+                      const turn = turns.find(candidate => candidate.id === use.turnId);
+                      return (
+                        <button
+                          key={use.turnId}
+                          onClick={() => onJump(use.turnId, use.citationId)}
+                          title={turn?.query}
+                          className="h-6 px-2 bg-slate-50 border border-slate-100 text-slate-500 rounded-md text-[10px] font-black hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all"
+                        >
+                          Q{questionNumber(use.turnId)}
+                          {use.citationId !== undefined && <span className="text-slate-300 font-bold"> [{use.citationId}]</span>}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default EvidenceExplorer;
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TurnData } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportTurns } from '../services/sessionExport';
+import { downloadText } from '../utils/download';
+import { t } from '../services/i18n';
+
+/**
+ * EXPORT MENU - downloads the given turns as Markdown, JSON, BibTeX or RIS.
+ */
+
+const ExportMenu: React.FC<{
+  turns: TurnData[];
+  title: string;
+  /** Question number of the first turn in its thread. */
+  firstNumber?: number;
+  label?: string;
+  align?: 'left' | 'right';
+  /** Open the menu above the button, for buttons near the bottom of the viewport. */
+  dropUp?: boolean;
+}> = ({ turns, title, firstNumber, label = t('export.label'), align = 'right', dropUp }) => {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    const { filename, content, mime } = exportTurns(turns, title, format, firstNumber);
+    downloadText(filename, content, mime);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="h-9 px-4 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all flex items-center gap-2"
+      >
+        {label}
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {open && (
+        <div className={`absolute ${dropUp ? 'bottom-full mb-2' : 'top-full mt-2'} ${align === 'right' ? 'right-0' : 'left-0'} w-[160px] bg-white border border-slate-100 rounded-2xl shadow-xl p-1.5 z-[60]`}>
+          {EXPORT_FORMATS.map(({ format, label: formatLabel, extension }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center justify-between px-3 py-2 rounded-xl text-[12px] font-bold text-slate-600 hover:bg-slate-50 hover:text-[#008c8c]"
+            >
+              {formatLabel}
+              <span className="text-[9px] font-black text-slate-300 uppercase">.{extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { clearFeedbackLog, FeedbackLogEntry, feedbackLogToJsonl, loadFeedbackLog } from '../services/feedbackLog';
+import { LEGACY_SECTION_TITLES } from '../services/overviewSections';
+import { downloadText } from '../utils/download';
+import { localeInfo, t } from '../services/i18n';
+import { reasonLabel } from './Annotations';
+
+/**
+ * FEEDBACK LOG PANEL - slide-over review of every section rating given in this browser,
+ * newest first, with a JSONL download for auditing answer quality over time.
+ */
+
+type RatingFilter = 'all' | FeedbackLogEntry['rating'];
+
+const formatAt = (iso: string) =>
+  new Date(iso).toLocaleString(localeInfo().tag, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const FeedbackLogPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [log, setLog] = useState(loadFeedbackLog);
+  const [filter, setFilter] = useState<RatingFilter>('all');
+  const shown = log.filter(e => filter === 'all' || e.rating === filter).reverse();
+  const down = log.filter(e => e.rating === 'down').length;
+
+  const handleClear = () => {
+    if (!window.confirm(t('feedbackLog.confirmClear', { count: log.length }))) return;
+    clearFeedbackLog();
+    setLog([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[2px]" onClick={onClose}></div>
+
+      <aside className="relative w-full max-w-[420px] h-full bg-white shadow-2xl border-l border-slate-100 flex flex-col">
+        <div className="px-6 pt-6 pb-4 flex items-center justify-between border-b border-slate-100">
+          <div>
+            <h3 className="text-slate-800 font-black text-[15px]">{t('feedbackLog.title')}</h3>
+            <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wide mt-0.5">
+              {t('feedbackLog.summary', { ratings: log.length, flagged: down })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadText(`pankbase-feedback-${new Date().toISOString().slice(0, 10)}.jsonl`, feedbackLogToJsonl(log), 'application/x-ndjson')}
+              disabled={log.length === 0}
+              className="h-8 px-4 bg-[#008c8c] text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-teal-700 transition-all disabled:opacity-40"
+            >
+              JSONL
+            </button>
+            <button onClick={onClose} className="w-8 h-8 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 font-black" title={t('common.close')}>
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 flex items-center gap-1.5 border-b border-slate-50">
+          {(['all', 'down', 'up'] as RatingFilter[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              aria-pressed={filter === option}
+              className={`h-7 px-3 rounded-lg text-[10px] font-black uppercase tracking-widest ${
+                filter === option ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-700'
+              }`}
+            >
+              {option === 'all' ? t('feedbackLog.all') : option === 'down' ? `👎 ${t('feedbackLog.flagged')}` : `👍 ${t('feedbackLog.good')}`}
+            </button>
+          ))}
+          {log.length > 0 && (
+            <button onClick={handleClear} className="ml-auto text-rose-500 text-[10px] font-black uppercase tracking-widest hover:underline">
+              {t('common.clear')}
+            </button>
+          )}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 flex flex-col gap-4">
+          {shown.length === 0 && (
+            <li className="text-slate-400 text-[12px] py-10 text-center">
+              {log.length === 0 ? t('feedbackLog.empty') : t('feedbackLog.noMatch')}
+            </li>
+          )}
+          {shown.map((entry, i) => (
+            <li key={`${entry.at}-${i}`} className="border-b border-slate-50 pb-4">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                <span aria-label={entry.rating === 'up' ? t('feedbackLog.good') : t('feedbackLog.flagged')}>{entry.rating === 'up' ? '👍' : '👎'}</span>
+                <span className="text-[#008c8c]">{entry.sectionTitle ?? LEGACY_SECTION_TITLES[entry.section] ?? entry.section}</span>
+                <span className="ml-auto text-slate-300">{formatAt(entry.at)}</span>
+              </div>
+              <p className="mt-1.5 text-[13px] font-bold text-slate-800 leading-snug">{entry.query}</p>
+              {entry.reason && <p className="mt-1 text-[12px] font-bold text-amber-700">{reasonLabel(entry.reason)}</p>}
+              <p className="mt-1 text-[12px] text-slate-500 leading-relaxed line-clamp-3" title={entry.text}>{entry.text}</p>
+              {entry.pmids.length > 0 && (
+                <p className="mt-1 text-[10px] font-bold text-slate-400">PMID {entry.pmids.join(', ')}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default FeedbackLogPanel;
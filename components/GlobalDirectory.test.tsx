@@ -0,0 +1,89 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { TurnData } from '../types';
+import { EMPTY_ANSWER } from '../constants';
+import GlobalDirectory from './GlobalDirectory';
+import { axeViolations } from '../test/axe';
+
+const turn = (id: string, query: string, parentId?: string): TurnData => ({ id, parentId, query, ...EMPTY_ANSWER });
+
+const TURNS = [turn('t1', 'What does INS do?'), turn('t2', 'Which variants affect INS?', 't1'), turn('t3', 'Is rs689 a QTL?', 't2')];
+
+const renderDirectory = (activeId: string, onNavigate = vi.fn()) => {
+  const view = render(
+    <GlobalDirectory
+      turns={TURNS}
+      thread={TURNS}
+      activeId={activeId}
+      pinnedIds={['t2']}
+      onNavigate={onNavigate}
+      onTogglePin={vi.fn()}
+      onDelete={vi.fn()}
+    />,
+  );
+  return { ...view, onNavigate };
+};
+
+const rows = () => Array.from(document.querySelectorAll<HTMLButtonElement>('[data-directory-row]'));
+
+describe('GlobalDirectory', () => {
+  it('labels its controls and marks the turn in view', async () => {
+    const { container } = renderDirectory('t2');
+
+    expect(screen.getByRole('navigation', { name: 'Questions' })).toBeTruthy();
+    // The pinned turn is listed twice: under Pinned and in its place in the tree.
+    expect(screen.getAllByRole('button', { name: 'Unpin' }).map(button => button.getAttribute('aria-pressed'))).toEqual(['true', 'true']);
+    expect(screen.getAllByRole('button', { name: 'Pin to top' })).toHaveLength(2);
+    expect(screen.getAllByRole('button', { name: 'Delete this question' })).toHaveLength(4);
+    expect(rows().filter(row => row.getAttribute('aria-current') === 'true').map(row => row.title)).toEqual([
+      'Which variants affect INS?',
+      'Which variants affect INS?',
+    ]);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('steps to the next and previous question with j and k', () => {
+    const { onNavigate } = renderDirectory('t2');
+
+    fireEvent.keyDown(document.body, { key: 'j' });
+    expect(onNavigate).toHaveBeenLastCalledWith('t3');
+    fireEvent.keyDown(document.body, { key: 'k' });
+    expect(onNavigate).toHaveBeenLastCalledWith('t1');
+  });
+
+  it('stays put at either end of the thread', () => {
+    const last = renderDirectory('t3');
+    fireEvent.keyDown(document.body, { key: 'j' });
+    expect(last.onNavigate).not.toHaveBeenCalled();
+    last.unmount();
+
+    const first = renderDirectory('t1');
+    fireEvent.keyDown(document.body, { key: 'k' });
+    expect(first.onNavigate).not.toHaveBeenCalled();
+  });
+
+  it('leaves j and k to text fields and modified keys', () => {
+    const { onNavigate } = renderDirectory('t2');
+
+    fireEvent.keyDown(screen.getByRole('textbox', { name: 'Filter questions and answers' }), { key: 'j' });
+    fireEvent.keyDown(document.body, { key: 'k', ctrlKey: true });
+    expect(onNavigate).not.toHaveBeenCalled();
+  });
+
+  it('moves focus through the list with the arrow keys, Home and End', () => {
+    renderDirectory('t1');
+    const filter = screen.getByRole('textbox', { name: 'Filter questions and answers' });
+
+    fireEvent.keyDown(filter, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(rows()[0]);
+    fireEvent.keyDown(rows()[0], { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(rows()[1]);
+    fireEvent.keyDown(rows()[1], { key: 'End' });
+    expect(document.activeElement).toBe(rows()[rows().length - 1]);
+    fireEvent.keyDown(document.activeElement!, { key: 'Home' });
+    expect(document.activeElement).toBe(rows()[0]);
+    fireEvent.keyDown(rows()[0], { key: 'ArrowUp' });
+    expect(document.activeElement).toBe(rows()[0]);
+  });
+});
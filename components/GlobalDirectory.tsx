@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TurnData } from '../types';
+import { matchesFilter, TreeRow, treeRows } from '../services/conversation';
+import { t } from '../services/i18n';
+import { isTyping } from '../utils/keyboard';
+
+/**
+ * GLOBAL DIRECTORY - timeline of every turn in the session (all branches).
+ * A fixed column at xl widths and a slide-in drawer below that. Filters over questions and answers,
+ * pins turns to the top, deletes turns, and highlights the turn being read.
+ * Keyboard: j / k move to the next / previous question, arrow keys move within the list (/ belongs to the question box).
+ */
+
+interface DirectoryProps {
+  turns: TurnData[];
+  thread: TurnData[];
+  /** Turn currently in view (scroll-spy). */
+  activeId: string | null;
+  pinnedIds: string[];
+  onNavigate: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const DirectoryRow: React.FC<{
+  row: TreeRow;
+  onThread: boolean;
+  active: boolean;
+  pinned: boolean;
+  indent: boolean;
+  onNavigate: () => void;
+  onTogglePin: () => void;
+  onDelete: () => void;
+}> = ({ row: { turn, depth, branchLevel, startsBranch }, onThread, active, pinned, indent, onNavigate, onTogglePin, onDelete }) => (
+  <li className={`group relative flex items-start gap-2 rounded-xl transition-all ${active ? 'bg-[#008c8c]/10' : 'hover:bg-slate-100/70'} ${onThread ? '' : 'opacity-50 hover:opacity-100'}`}>
+    <span
+      className={`absolute left-0 top-2 bottom-2 w-[3px] rounded-full transition-colors ${active ? 'bg-[#008c8c]' : 'bg-transparent'}`}
+      aria-hidden
+    ></span>
+    <button
+      data-directory-row
+      onClick={onNavigate}
+      aria-current={active ? 'true' : undefined}
+      title={turn.query}
+      className="flex-1 min-w-0 text-left py-2 pl-3 pr-1 rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-[#008c8c]/40"
+      style={{ paddingLeft: 12 + (indent ? branchLevel * 12 : 0) }}
+    >
+      <span className={`block text-[10px] font-black uppercase tracking-widest ${active ? 'text-[#008c8c]' : 'text-slate-400'}`}>
+        {startsBranch && indent && <span className="text-slate-300 mr-1">↳</span>}
+        Q{depth + 1}
+        {!onThread && <span className="ml-1.5 text-teal-600/70">{t('directory.otherBranch')}</span>}
+        {turn.error && <span className="ml-1.5 text-rose-500">{t('directory.failed')}</span>}
+        {turn.status === 'streaming' && <span className="ml-1.5 text-slate-300 animate-pulse">{t('directory.answering')}</span>}
+        {turn.status === 'queued' && <span className="ml-1.5 text-slate-300">{t('directory.queued')}</span>}
+      </span>
+      <span className={`block text-[12px] leading-snug line-clamp-2 ${active ? 'text-slate-800 font-bold' : 'text-slate-600 font-medium'}`}>
+        {turn.query}
+      </span>
+    </button>
+    <div className={`flex flex-col items-center pt-1.5 pr-1 gap-0.5 transition-opacity ${pinned ? '' : 'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100'}`}>
+      <button
+        onClick={onTogglePin}
+        title={pinned ? t('directory.unpin') : t('directory.pin')}
+        aria-label={pinned ? t('directory.unpin') : t('directory.pin')}
+        aria-pressed={pinned}
+        className={`w-6 h-6 rounded-lg text-[11px] hover:bg-white ${pinned ? 'text-[#008c8c]' : 'text-slate-400 hover:text-[#008c8c]'}`}
+      >
+        {pinned ? '★' : '☆'}
+      </button>
+      {turn.status !== 'streaming' && turn.status !== 'queued' && (
+        <button
+          onClick={() => window.confirm(t('directory.confirmDelete', { query: turn.query })) && onDelete()}
+          title={t('directory.delete')}
+          aria-label={t('directory.delete')}
+          className="w-6 h-6 rounded-lg text-slate-300 hover:text-rose-500 hover:bg-white font-black text-[13px] opacity-0 group-hover:opacity-100 group-focus-within:opacity-100"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  </li>
+);
+
+const DirectoryList: React.FC<DirectoryProps & {
+  filter: string;
+  onFilterChange: (filter: string) => void;
+  filterRef: React.RefObject<HTMLInputElement | null>;
+}> = ({ turns, thread, activeId, pinnedIds, onNavigate, onTogglePin, onDelete, filter, onFilterChange, filterRef }) => {
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const onThread = new Set(thread.map(t => t.id));
+  const pinned = new Set(pinnedIds);
+  const rows = treeRows(turns);
+  const filtering = filter.trim().length > 0;
+  const shown = filtering ? rows.filter(row => matchesFilter(row.turn, filter)) : rows;
+  const pinnedRows = rows.filter(row => pinned.has(row.turn.id));
+
+  // Up/Down/Home/End move focus between rows; Enter and Space open the focused one.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!['ArrowDown', 'ArrowUp', 'Home', 'End'].includes(e.key) || isTyping(e.target)) return;
+    const buttons: HTMLButtonElement[] = Array.from(listRef.current?.querySelectorAll<HTMLButtonElement>('[data-directory-row]') ?? []);
+    if (buttons.length === 0) return;
+    e.preventDefault();
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    const next =
+      e.key === 'Home' ? 0
+      : e.key === 'End' ? buttons.length - 1
+      : e.key === 'ArrowDown' ? Math.min(index + 1, buttons.length - 1)
+      : Math.max(index - 1, 0);
+    buttons[next].focus();
+  };
+
+  const renderRow = (row: TreeRow, indent: boolean) => (
+    <DirectoryRow
+      key={row.turn.id}
+      row={row}
+      onThread={onThread.has(row.turn.id)}
+      active={row.turn.id === activeId}
+      pinned={pinned.has(row.turn.id)}
+      indent={indent}
+      onNavigate={() => onNavigate(row.turn.id)}
+      onTogglePin={() => onTogglePin(row.turn.id)}
+      onDelete={() => onDelete(row.turn.id)}
+    />
+  );
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="relative shrink-0">
+        <input
+          ref={filterRef}
+          value={filter}
+          onChange={e => onFilterChange(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Escape') onFilterChange('');
+            if (e.key === 'ArrowDown') listRef.current?.querySelector<HTMLButtonElement>('[data-directory-row]')?.focus();
+          }}
+          placeholder={t('directory.filter')}
+          aria-label={t('directory.filterLabel')}
+          className="w-full h-9 pl-3 pr-8 bg-white border border-slate-200 rounded-xl text-[12px] text-slate-700 placeholder-slate-400 outline-none focus:border-[#008c8c]/50"
+        />
+        {filtering && (
+          <button
+            onClick={() => onFilterChange('')}
+            title={t('directory.clearFilter')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400 hover:text-slate-700 font-black text-[13px]"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} onKeyDown={handleKeyDown} className="mt-3 flex-1 min-h-0 overflow-y-auto custom-scrollbar pr-1">
+        {!filtering && pinnedRows.length > 0 && (
+          <>
+            <h4 className="px-3 mb-1 text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">{t('directory.pinned')}</h4>
+            <ul className="flex flex-col gap-0.5 mb-4">{pinnedRows.map(row => renderRow(row, false))}</ul>
+            <h4 className="px-3 mb-1 text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">{t('directory.all')}</h4>
+          </>
+        )}
+        {filtering && (
+          <p className="px-3 mb-2 text-[10px] font-bold text-slate-400">
+            {t('directory.matches', { shown: shown.length, total: rows.length })}
+          </p>
+        )}
+        <ul className="flex flex-col gap-0.5">{shown.map(row => renderRow(row, !filtering))}</ul>
+      </div>
+    </div>
+  );
+};
+
+const GlobalDirectory: React.FC<DirectoryProps> = props => {
+  const { thread, activeId, onNavigate } = props;
+  const [filter, setFilter] = useState('');
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const sidebarFilter = useRef<HTMLInputElement | null>(null);
+  const drawerFilter = useRef<HTMLInputElement | null>(null);
+  const drawerButton = useRef<HTMLButtonElement | null>(null);
+  const wasOpen = useRef(false);
+
+  const navigate = (id: string) => {
+    setDrawerOpen(false);
+    onNavigate(id);
+  };
+
+  // Focus moves into the drawer when it opens and back to its button when it closes.
+  useEffect(() => {
+    if (drawerOpen) drawerFilter.current?.focus();
+    else if (wasOpen.current && document.activeElement === document.body) drawerButton.current?.focus();
+    wasOpen.current = drawerOpen;
+  }, [drawerOpen]);
+
+  // j / k step through the visible thread from the turn in view.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTyping(e.target)) return;
+      if (e.key === 'Escape' && drawerOpen) {
+        setDrawerOpen(false);
+        return;
+      }
+      if (e.key !== 'j' && e.key !== 'k') return;
+      const index = thread.findIndex(t => t.id === activeId);
+      const next = thread[e.key === 'j' ? index + 1 : Math.max(index - 1, 0)];
+      if (next && next.id !== activeId) {
+        e.preventDefault();
+        onNavigate(next.id);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const listProps = { ...props, onNavigate: navigate, filter, onFilterChange: setFilter };
+
+  return (
+    <>
+      <nav aria-label={t('directory.questions')} className="hidden xl:flex flex-col w-[220px] fixed top-[132px] bottom-[150px] left-10">
+        <DirectoryList {...listProps} filterRef={sidebarFilter} />
+      </nav>
+
+      <button
+        ref={drawerButton}
+        onClick={() => setDrawerOpen(true)}
+        aria-expanded={drawerOpen}
+        className="xl:hidden fixed top-[84px] left-4 z-40 h-9 px-4 bg-white border border-slate-200 rounded-xl shadow-sm text-slate-600 font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all flex items-center gap-2"
+      >
+        <span aria-hidden>☰</span>
+        {t('directory.questions')}
+        <span className="text-slate-400">{props.turns.length}</span>
+      </button>
+
+      {drawerOpen && (
+        <div className="xl:hidden fixed inset-0 z-[70] flex">
+          <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[2px]" onClick={() => setDrawerOpen(false)}></div>
+          <aside role="dialog" aria-modal="true" aria-label={t('directory.questions')} className="relative w-full max-w-[320px] h-full bg-white shadow-2xl border-r border-slate-100 flex flex-col px-4 pt-6 pb-6">
+            <div className="px-2 pb-4 flex items-center justify-between">
+              <h3 className="text-slate-800 font-black text-[15px]">{t('directory.questions')}</h3>
+              <button onClick={() => setDrawerOpen(false)} className="w-8 h-8 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 font-black" title={t('common.close')}>
+                ×
+              </button>
+            </div>
+            <DirectoryList {...listProps} filterRef={drawerFilter} />
+          </aside>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default GlobalDirectory;
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GraphEdgeKind, GraphNode, GraphNodeKind, KnowledgeGraph as KnowledgeGraphData } from '../types';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+/**
+ * KNOWLEDGE GRAPH - node-link view of the entities in one turn.
+ * Layout is a small deterministic force simulation; the SVG supports wheel zoom and drag-to-pan.
+ */
+
+const WIDTH = 480;
+const HEIGHT = 330;
+const NODE_RADIUS = 14;
+
+const NODE_STYLES: Record<GraphNodeKind, { fill: string; label: MessageKey }> = {
+  gene: { fill: '#008c8c', label: 'graph.gene' },
+  variant: { fill: '#6366f1', label: 'graph.variant' },
+  tissue: { fill: '#f59e0b', label: 'graph.tissue' },
+  disease: { fill: '#e11d48', label: 'graph.disease' },
+  publication: { fill: '#94a3b8', label: 'graph.publication' },
+};
+
+const EDGE_STYLES: Record<GraphEdgeKind, { stroke: string; dash?: string; label: MessageKey }> = {
+  'eQTL': { stroke: '#6366f1', label: 'graph.eqtl' },
+  'effector-gene': { stroke: '#e11d48', label: 'graph.effectorGene' },
+  'expressed-in': { stroke: '#f59e0b', dash: '2 3', label: 'graph.expressedIn' },
+  'associated-with': { stroke: '#64748b', dash: '6 3', label: 'graph.associatedWith' },
+  'cited-by': { stroke: '#cbd5e1', dash: '1 3', label: 'graph.citedBy' },
+};
+
+const FOLLOW_UP_TEMPLATES: Record<GraphNodeKind, MessageKey> = {
+  gene: 'graph.askGene',
+  variant: 'graph.askVariant',
+  tissue: 'graph.askTissue',
+  disease: 'graph.askDisease',
+  publication: 'graph.askPublication',
+};
+
+type Point = { x: number; y: number };
+
+/** Fruchterman-Reingold style layout, seeded on a circle so the same graph always lands the same way. */
+const layoutGraph = ({ nodes, edges }: KnowledgeGraphData): Record<string, Point> => {
+  const positions: Record<string, Point> = {};
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(nodes.length, 1);
+    positions[node.id] = { x: WIDTH / 2 + Math.cos(angle) * 110, y: HEIGHT / 2 + Math.sin(angle) * 90 };
+  });
+
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(nodes.length, 1)) * 0.9;
+  let temperature = 40;
+
+  for (let iter = 0; iter < 250; iter++) {
+    const disp: Record<string, Point> = {};
+    nodes.forEach(n => { disp[n.id] = { x: 0, y: 0 }; });
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions[nodes[i].id];
+        const b = positions[nodes[j].id];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const dist = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / dist;
+        disp[nodes[i].id].x += (dx / dist) * force;
+        disp[nodes[i].id].y += (dy / dist) * force;
+        disp[nodes[j].id].x -= (dx / dist) * force;
+        disp[nodes[j].id].y -= (dy / dist) * force;
+      }
+    }
+
+    edges.forEach(({ source, target }) => {
+      const a = positions[source];
+      const b = positions[target];
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const dist = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (dist * dist) / k;
+      disp[source].x -= (dx / dist) * force;
+      disp[source].y -= (dy / dist) * force;
+      disp[target].x += (dx / dist) * force;
+      disp[target].y += (dy / dist) * force;
+    });
+
+    nodes.forEach(({ id }) => {
+      const d = disp[id];
+      const len = Math.max(Math.hypot(d.x, d.y), 0.01);
+      const p = positions[id];
+      p.x += (d.x / len) * Math.min(len, temperature);
+      p.y += (d.y / len) * Math.min(len, temperature);
+      // Gentle pull towards the centre keeps disconnected nodes on screen.
+      p.x += (WIDTH / 2 - p.x) * 0.01;
+      p.y += (HEIGHT / 2 - p.y) * 0.01;
+      p.x = Math.min(WIDTH - 30, Math.max(30, p.x));
+      p.y = Math.min(HEIGHT - 30, Math.max(30, p.y));
+    });
+
+    temperature = Math.max(temperature * 0.97, 1);
+  }
+
+  return positions;
+};
+
+const KnowledgeGraph: React.FC<{
+  graph: KnowledgeGraphData;
+  onAsk?: (question: string) => void;
+}> = ({ graph, onAsk }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+  const [hovered, setHovered] = useState<GraphNode | null>(null);
+  const [selected, setSelected] = useState<GraphNode | null>(null);
+  const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  const positions = useMemo(() => layoutGraph(graph), [graph]);
+  const usedEdgeKinds = useMemo(() => Array.from(new Set(graph.edges.map(e => e.kind))), [graph]);
+  const usedNodeKinds = useMemo(() => Array.from(new Set(graph.nodes.map(n => n.kind))), [graph]);
+
+  const zoomBy = (factor: number, origin: Point = { x: WIDTH / 2, y: HEIGHT / 2 }) => {
+    setView(v => {
+      const k = Math.min(4, Math.max(0.4, v.k * factor));
+      const ratio = k / v.k;
+      return { k, x: origin.x - (origin.x - v.x) * ratio, y: origin.y - (origin.y - v.y) * ratio };
+    });
+  };
+
+  /** Converts a client-space point into viewBox units. */
+  const toViewBox = (clientX: number, clientY: number): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((clientX - rect.left) / rect.width) * WIDTH, y: ((clientY - rect.top) / rect.height) * HEIGHT };
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15, toViewBox(e.clientX, e.clientY));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const rect = svgRef.current!.getBoundingClientRect();
+    const dx = ((e.clientX - drag.current.x) / rect.width) * WIDTH;
+    const dy = ((e.clientY - drag.current.y) / rect.height) * HEIGHT;
+    if (!drag.current.moved) {
+      if (Math.abs(dx) + Math.abs(dy) <= 2) return;
+      // Capture only once it is a real drag, so a plain click still reaches the node under the pointer.
+      drag.current.moved = true;
+      svgRef.current!.setPointerCapture(e.pointerId);
+    }
+    drag.current.x = e.clientX;
+    drag.current.y = e.clientY;
+    setView(v => ({ ...v, x: v.x + dx, y: v.y + dy }));
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    const wasClick = drag.current && !drag.current.moved;
+    drag.current = null;
+    if (wasClick && e.target === svgRef.current) setSelected(null);
+  };
+
+  const selectNode = (node: GraphNode) => {
+    setSelected(prev => (prev?.id === node.id ? null : node));
+  };
+
+  /** Position of a node as a percentage of the container, for HTML overlays. */
+  const overlayPosition = (node: GraphNode) => {
+    const p = positions[node.id];
+    return {
+      left: `${((view.x + p.x * view.k) / WIDTH) * 100}%`,
+      top: `${((view.y + p.y * view.k) / HEIGHT) * 100}%`,
+    };
+  };
+
+  return (
+    <div className="absolute inset-0">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-full cursor-grab active:cursor-grabbing touch-none select-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+          {graph.edges.map((edge, i) => {
+            const a = positions[edge.source];
+            const b = positions[edge.target];
+            const style = EDGE_STYLES[edge.kind];
+            return (
+              <line
+                key={i}
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                stroke={style.stroke}
+                strokeWidth={1.5}
+                strokeDasharray={style.dash}
+                opacity={hovered && hovered.id !== edge.source && hovered.id !== edge.target ? 0.25 : 0.9}
+              />
+            );
+          })}
+          {graph.nodes.map(node => {
+            const p = positions[node.id];
+            const isActive = selected?.id === node.id || hovered?.id === node.id;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${p.x} ${p.y})`}
+                className="cursor-pointer"
+                onPointerEnter={() => setHovered(node)}
+                onPointerLeave={() => setHovered(null)}
+                onClick={() => selectNode(node)}
+              >
+                <circle
+                  r={node.kind === 'publication' ? NODE_RADIUS * 0.7 : NODE_RADIUS}
+                  fill={NODE_STYLES[node.kind].fill}
+                  stroke="white"
+                  strokeWidth={isActive ? 4 : 2}
+                />
+                <text
+                  y={NODE_RADIUS + 12}
+                  textAnchor="middle"
+                  className="fill-slate-600 text-[9px] font-bold pointer-events-none"
+                >
+                  {node.label}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      {hovered && !selected && positions[hovered.id] && (
+        <div
+          className="absolute -translate-x-1/2 -translate-y-[calc(100%+22px)] pointer-events-none z-[60]"
+          style={overlayPosition(hovered)}
+        >
+          <div className="bg-slate-900 text-white rounded-xl shadow-2xl py-2 px-3 border border-white/10 whitespace-nowrap">
+            <div className="text-[11px] font-bold">{hovered.label}</div>
+            <div className="text-[9px] font-bold uppercase tracking-wide text-slate-400 mt-0.5">
+              {t(NODE_STYLES[hovered.kind].label)} • {hovered.id}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="absolute left-3 right-3 bottom-3 bg-white/95 border border-slate-200 rounded-2xl shadow-xl p-3 flex items-center gap-3 z-[55]">
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ background: NODE_STYLES[selected.kind].fill }}></span>
+          <div className="min-w-0 flex-1">
+            <div className="text-[11px] font-bold text-slate-700 truncate">{selected.label}</div>
+            <div className="text-[9px] font-bold uppercase text-slate-400 truncate">{t(NODE_STYLES[selected.kind].label)} • {selected.id}</div>
+          </div>
+          {onAsk && (
+            <button
+              onClick={() => { onAsk(t(FOLLOW_UP_TEMPLATES[selected.kind], { label: selected.label })); setSelected(null); }}
+              className="h-8 px-3 bg-[#008c8c] text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-teal-700 transition-all shrink-0"
+            >
+              {t('graph.askAbout')}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="absolute top-3 left-3 bg-white/90 border border-slate-100 rounded-xl px-3 py-2 space-y-1 pointer-events-none">
+        {usedNodeKinds.map(kind => (
+          <div key={kind} className="flex items-center gap-2 text-[9px] font-bold text-slate-500 uppercase">
+            <span className="w-2 h-2 rounded-full" style={{ background: NODE_STYLES[kind].fill }}></span>
+            {t(NODE_STYLES[kind].label)}
+          </div>
+        ))}
+        {usedEdgeKinds.map(kind => (
+          <div key={kind} className="flex items-center gap-2 text-[9px] font-bold text-slate-500 uppercase">
+            <svg width="14" height="4"><line x1="0" y1="2" x2="14" y2="2" stroke={EDGE_STYLES[kind].stroke} strokeWidth="1.5" strokeDasharray={EDGE_STYLES[kind].dash} /></svg>
+            {t(EDGE_STYLES[kind].label)}
+          </div>
+        ))}
+      </div>
+
+      <div className="absolute top-3 right-3 flex flex-col bg-white/90 border border-slate-100 rounded-xl overflow-hidden">
+        <button onClick={() => zoomBy(1.25)} className="w-7 h-7 text-slate-500 hover:text-[#008c8c] font-black text-[13px]" title={t('graph.zoomIn')}>+</button>
+        <button onClick={() => zoomBy(1 / 1.25)} className="w-7 h-7 text-slate-500 hover:text-[#008c8c] font-black text-[13px] border-t border-slate-100" title={t('graph.zoomOut')}>−</button>
+        <button onClick={() => setView({ x: 0, y: 0, k: 1 })} className="w-7 h-7 text-slate-500 hover:text-[#008c8c] font-black text-[10px] border-t border-slate-100" title={t('graph.resetView')}>⟲</button>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeGraph;
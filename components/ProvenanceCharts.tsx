@@ -0,0 +1,198 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { QtlRecord } from '../types';
+import { downloadPng, downloadSvg } from '../utils/download';
+import { formatPValue, formatSlope } from '../utils/format';
+import { numberLocale, t } from '../services/i18n';
+
+/**
+ * PROVENANCE CHARTS - effect sizes across tissues/datasets (forest plot) and a -log10(p) locus plot.
+ * Charts are styled with SVG attributes only, so the exported SVG/PNG looks the same as on screen.
+ */
+
+const WIDTH = 480;
+const HEIGHT = 330;
+const FONT = 'Inter, sans-serif';
+const TEAL = '#008c8c';
+const GENOME_WIDE = 5e-8;
+
+const pairKey = (r: QtlRecord) => `${r.variant}|${r.gene}`;
+
+const neglog10 = (p: number) => (p > 0 ? -Math.log10(p) : 300);
+
+/** Evenly spaced, rounded ticks covering [min, max]. */
+const ticks = (min: number, max: number, count = 5): number[] => {
+  const span = max - min || 1;
+  const raw = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  const out: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + 1e-9; v += step) out.push(Number(v.toFixed(10)));
+  return out;
+};
+
+const ForestPlot = React.forwardRef<SVGSVGElement, { records: QtlRecord[] }>(({ records }, ref) => {
+  const margin = { top: 44, right: 78, bottom: 34, left: 150 };
+  const plotW = WIDTH - margin.left - margin.right;
+  const rowH = Math.min(34, (HEIGHT - margin.top - margin.bottom) / Math.max(records.length, 1));
+
+  const lows = records.map(r => r.slope - 1.96 * (r.slopeSe ?? 0));
+  const highs = records.map(r => r.slope + 1.96 * (r.slopeSe ?? 0));
+  const pad = 0.1 * ((Math.max(0, ...highs) - Math.min(0, ...lows)) || 1);
+  const min = Math.min(0, ...lows) - pad;
+  const max = Math.max(0, ...highs) + pad;
+  const x = (v: number) => margin.left + ((v - min) / (max - min)) * plotW;
+  const axisY = margin.top + rowH * records.length + 6;
+  const { variant, gene } = records[0];
+
+  return (
+    <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" fontFamily={FONT}>
+      <text x={16} y={24} fontSize={12} fontWeight={800} fill="#334155">{variant} → {gene}</text>
+      <text x={16} y={36} fontSize={9} fontWeight={600} fill="#94a3b8">{t('charts.forestTitle')}</text>
+
+      <line x1={x(0)} x2={x(0)} y1={margin.top - 4} y2={axisY} stroke="#cbd5e1" strokeDasharray="3 3" />
+      <line x1={margin.left} x2={margin.left + plotW} y1={axisY} y2={axisY} stroke="#cbd5e1" />
+      {ticks(min, max).map(tick => (
+        <g key={tick}>
+          <line x1={x(tick)} x2={x(tick)} y1={axisY} y2={axisY + 4} stroke="#cbd5e1" />
+          <text x={x(tick)} y={axisY + 14} fontSize={8} fill="#94a3b8" textAnchor="middle">{tick}</text>
+        </g>
+      ))}
+
+      {records.map((r, i) => {
+        const cy = margin.top + rowH * i + rowH / 2;
+        const significant = r.pValue < GENOME_WIDE;
+        return (
+          <g key={`${r.tissue}-${r.dataset}-${i}`}>
+            <text x={margin.left - 10} y={cy - 1} fontSize={9} fontWeight={700} fill="#475569" textAnchor="end">{r.tissue}</text>
+            <text x={margin.left - 10} y={cy + 9} fontSize={7.5} fontWeight={600} fill="#94a3b8" textAnchor="end">{r.dataset} • {t('charts.allele', { allele: r.effectAllele })}</text>
+            {r.slopeSe !== undefined && (
+              <line
+                x1={x(r.slope - 1.96 * r.slopeSe)} x2={x(r.slope + 1.96 * r.slopeSe)}
+                y1={cy} y2={cy} stroke={significant ? TEAL : '#94a3b8'} strokeWidth={1.5}
+              />
+            )}
+            <rect x={x(r.slope) - 4} y={cy - 4} width={8} height={8} fill={significant ? TEAL : '#94a3b8'} />
+            <text x={WIDTH - margin.right + 10} y={cy - 1} fontSize={8.5} fontWeight={700} fill="#475569">{formatSlope(r.slope, numberLocale())}</text>
+            <text x={WIDTH - margin.right + 10} y={cy + 9} fontSize={7.5} fontWeight={600} fill="#94a3b8">p {formatPValue(r.pValue, numberLocale())}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+});
+
+const LocusPlot = React.forwardRef<SVGSVGElement, { records: QtlRecord[]; lead: QtlRecord }>(({ records, lead }, ref) => {
+  const margin = { top: 44, right: 24, bottom: 40, left: 44 };
+  const plotW = WIDTH - margin.left - margin.right;
+  const plotH = HEIGHT - margin.top - margin.bottom;
+
+  // Without positions the variants are simply spread out in input order.
+  const hasPositions = records.every(r => r.position !== undefined);
+  const xs = records.map((r, i) => (hasPositions ? r.position! : i));
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const xPad = (xMax - xMin) * 0.08 || 1;
+  const x = (v: number) => margin.left + ((v - (xMin - xPad)) / (xMax - xMin + 2 * xPad)) * plotW;
+
+  const yMax = Math.max(neglog10(GENOME_WIDE), ...records.map(r => neglog10(r.pValue))) * 1.1;
+  const y = (v: number) => margin.top + plotH - (v / yMax) * plotH;
+
+  return (
+    <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" fontFamily={FONT}>
+      <text x={16} y={24} fontSize={12} fontWeight={800} fill="#334155">{t('charts.locusTitle', { gene: lead.gene })} • {lead.tissue}</text>
+      <text x={16} y={36} fontSize={9} fontWeight={600} fill="#94a3b8">{t('charts.locusSubtitle', { dataset: lead.dataset })}</text>
+
+      <line x1={margin.left} x2={margin.left} y1={margin.top} y2={margin.top + plotH} stroke="#cbd5e1" />
+      <line x1={margin.left} x2={margin.left + plotW} y1={margin.top + plotH} y2={margin.top + plotH} stroke="#cbd5e1" />
+      {ticks(0, yMax, 4).map(tick => (
+        <g key={tick}>
+          <line x1={margin.left - 4} x2={margin.left} y1={y(tick)} y2={y(tick)} stroke="#cbd5e1" />
+          <text x={margin.left - 7} y={y(tick) + 3} fontSize={8} fill="#94a3b8" textAnchor="end">{tick}</text>
+        </g>
+      ))}
+      <line
+        x1={margin.left} x2={margin.left + plotW} y1={y(neglog10(GENOME_WIDE))} y2={y(neglog10(GENOME_WIDE))}
+        stroke="#e11d48" strokeDasharray="4 3" opacity={0.6}
+      />
+      <text x={margin.left + plotW} y={y(neglog10(GENOME_WIDE)) - 4} fontSize={7.5} fill="#e11d48" textAnchor="end">p = 5e-8</text>
+      <text x={margin.left + plotW / 2} y={HEIGHT - 10} fontSize={8.5} fontWeight={600} fill="#94a3b8" textAnchor="middle">
+        {hasPositions ? t('charts.position') : t('charts.variant')}
+      </text>
+      {hasPositions && ticks(xMin - xPad, xMax + xPad, 4).map(tick => (
+        <text key={tick} x={x(tick)} y={margin.top + plotH + 13} fontSize={8} fill="#94a3b8" textAnchor="middle">{(tick / 1e6).toFixed(2)}</text>
+      ))}
+
+      {records.map((r, i) => {
+        const cx = x(xs[i]);
+        const cy = y(neglog10(r.pValue));
+        const isLead = r.variant === lead.variant;
+        const fill = r.slope < 0 ? '#6366f1' : '#f59e0b';
+        return (
+          <g key={`${r.variant}-${i}`}>
+            {isLead ? (
+              <path d={`M ${cx} ${cy - 7} L ${cx + 7} ${cy} L ${cx} ${cy + 7} L ${cx - 7} ${cy} Z`} fill={TEAL} stroke="white" strokeWidth={1.5} />
+            ) : (
+              <circle cx={cx} cy={cy} r={4.5} fill={fill} opacity={0.85} stroke="white" strokeWidth={1} />
+            )}
+            {(isLead || !hasPositions) && (
+              <text x={cx} y={cy - 10} fontSize={8} fontWeight={700} fill={isLead ? TEAL : '#64748b'} textAnchor="middle">{r.variant}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+});
+
+const ProvenanceCharts: React.FC<{ records: QtlRecord[] }> = ({ records }) => {
+  const [chart, setChart] = useState<'forest' | 'locus'>('forest');
+  const [pair, setPair] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const lead = useMemo(() => records.reduce((best, r) => (r.pValue < best.pValue ? r : best)), [records]);
+  const pairs = useMemo(() => Array.from(new Set(records.map(pairKey))), [records]);
+  const activePair = pair && pairs.includes(pair) ? pair : pairKey(lead);
+
+  const forestRecords = records.filter(r => pairKey(r) === activePair);
+  const locusRecords = records.filter(r => r.gene === lead.gene && r.tissue === lead.tissue && r.dataset === lead.dataset);
+
+  const exportChart = (format: 'svg' | 'png') => {
+    if (!svgRef.current) return;
+    const filename = `${chart === 'forest' ? activePair.replace('|', '-') : `${lead.gene}-locus`}.${format}`;
+    if (format === 'svg') downloadSvg(filename, svgRef.current);
+    else downloadPng(filename, svgRef.current).catch(err => console.error(err));
+  };
+
+  const chip = (active: boolean) =>
+    `h-6 px-2.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${
+      active ? 'bg-[#008c8c] text-white' : 'bg-white/90 text-slate-400 hover:text-[#008c8c] border border-slate-100'
+    }`;
+
+  return (
+    <div className="absolute inset-0 bg-white">
+      {chart === 'forest'
+        ? <ForestPlot ref={svgRef} records={forestRecords} />
+        : <LocusPlot ref={svgRef} records={locusRecords} lead={lead} />}
+
+      <div className="absolute top-3 right-3 flex items-center gap-1.5">
+        <button onClick={() => setChart('forest')} className={chip(chart === 'forest')}>{t('charts.effect')}</button>
+        <button onClick={() => setChart('locus')} className={chip(chart === 'locus')}>{t('charts.locus')}</button>
+        <span className="w-px h-4 bg-slate-200 mx-1"></span>
+        <button onClick={() => exportChart('svg')} className={chip(false)} title={t('charts.download', { format: 'SVG' })}>SVG</button>
+        <button onClick={() => exportChart('png')} className={chip(false)} title={t('charts.download', { format: 'PNG' })}>PNG</button>
+      </div>
+
+      {chart === 'forest' && pairs.length > 1 && (
+        <select
+          value={activePair}
+          onChange={e => setPair(e.target.value)}
+          className="absolute bottom-2 right-3 h-6 px-2 bg-white border border-slate-100 rounded-lg text-[9px] font-bold text-slate-500 outline-none"
+        >
+          {pairs.map(p => <option key={p} value={p}>{p.replace('|', ' → ')}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ProvenanceCharts;
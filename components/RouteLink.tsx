@@ -0,0 +1,24 @@
+import React from 'react';
+import { navigate, Route, routePath } from '../services/router';
+
+/** An anchor for an in-app route: a real href (open in new tab, copy link) that navigates without reloading. */
+const RouteLink: React.FC<{
+  to: Route;
+  className?: string;
+  children: React.ReactNode;
+}> = ({ to, className, children }) => (
+  <a
+    href={routePath(to)}
+    className={className}
+    onClick={e => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigate(to);
+      window.scrollTo({ top: 0 });
+    }}
+  >
+    {children}
+  </a>
+);
+
+export default RouteLink;
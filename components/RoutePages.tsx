@@ -0,0 +1,121 @@
+import React from 'react';
+import { PageId, Route } from '../services/router';
+import { PANKBASE_URL } from '../services/entities';
+import RouteLink from './RouteLink';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+/**
+ * ROUTE PAGES - the destinations of the header links. Each introduces the resource and points to it
+ * on the PanKbase portal; the Knowledge Engine itself stays one click away.
+ */
+
+interface PageContent {
+  eyebrow: MessageKey;
+  title: MessageKey;
+  body: MessageKey[];
+  external?: { label: MessageKey; href: string };
+}
+
+const PAGES: Record<PageId, PageContent> = {
+  pankgraph: {
+    eyebrow: 'page.pankgraph.eyebrow',
+    title: 'page.pankgraph.title',
+    body: ['page.pankgraph.body1', 'page.pankgraph.body2'],
+    external: { label: 'page.pankgraph.link', href: `${PANKBASE_URL}/pankgraph` },
+  },
+  'cell-browser': {
+    eyebrow: 'page.cellBrowser.eyebrow',
+    title: 'page.cellBrowser.title',
+    body: ['page.cellBrowser.body1', 'page.cellBrowser.body2'],
+    external: { label: 'page.cellBrowser.link', href: `${PANKBASE_URL}/cell-browser` },
+  },
+  data: {
+    eyebrow: 'page.data.eyebrow',
+    title: 'page.data.title',
+    body: ['page.data.body1'],
+    external: { label: 'page.data.link', href: `${PANKBASE_URL}/data` },
+  },
+  resources: {
+    eyebrow: 'page.resources.eyebrow',
+    title: 'page.resources.title',
+    body: ['page.resources.body1'],
+    external: { label: 'page.resources.link', href: `${PANKBASE_URL}/resources` },
+  },
+  about: {
+    eyebrow: 'page.about.eyebrow',
+    title: 'page.about.title',
+    body: ['page.about.body1', 'page.about.body2'],
+    external: { label: 'page.about.link', href: `${PANKBASE_URL}/about` },
+  },
+  help: {
+    eyebrow: 'page.help.eyebrow',
+    title: 'page.help.title',
+    body: ['page.help.body1', 'page.help.body2', 'page.help.body3'],
+  },
+  analysis: {
+    eyebrow: 'page.analysis.eyebrow',
+    title: 'page.analysis.title',
+    body: ['page.analysis.body1'],
+    external: { label: 'page.analysis.link', href: `${PANKBASE_URL}/analysis` },
+  },
+  funding: {
+    eyebrow: 'page.funding.eyebrow',
+    title: 'page.funding.title',
+    body: ['page.funding.body1'],
+    external: { label: 'page.funding.link', href: `${PANKBASE_URL}/funding` },
+  },
+  login: {
+    eyebrow: 'page.login.eyebrow',
+    title: 'page.login.title',
+    body: ['page.login.body1'],
+    external: { label: 'page.login.link', href: `${PANKBASE_URL}/login` },
+  },
+};
+
+const HOME: Route = { name: 'home' };
+
+const PageFrame: React.FC<{ eyebrow: string; title: string; children: React.ReactNode }> = ({ eyebrow, title, children }) => (
+  <div className="max-w-[760px] mx-auto px-10 pt-[160px]">
+    <span className="text-[#008c8c] text-[10px] font-black tracking-[0.2em] uppercase">{eyebrow}</span>
+    <h1 className="mt-3 text-[40px] font-black text-slate-800 leading-tight tracking-tight">{title}</h1>
+    <div className="mt-8 flex flex-col gap-4 text-slate-600 text-[15px] leading-relaxed font-medium">{children}</div>
+  </div>
+);
+
+const BackLink: React.FC = () => (
+  <RouteLink to={HOME} className="text-[#008c8c] font-bold text-[13px] hover:underline">
+    ← {t('page.back')}
+  </RouteLink>
+);
+
+export const NotFoundPage: React.FC<{ message: string }> = ({ message }) => (
+  <PageFrame eyebrow={t('page.notFound.eyebrow')} title={t('page.notFound.title')}>
+    <p>{message}</p>
+    <div className="mt-6"><BackLink /></div>
+  </PageFrame>
+);
+
+const RoutePage: React.FC<{ page: PageId }> = ({ page }) => {
+  const { eyebrow, title, body, external } = PAGES[page];
+  return (
+    <PageFrame eyebrow={t(eyebrow)} title={t(title)}>
+      {body.map(paragraph => <p key={paragraph}>{t(paragraph)}</p>)}
+      <div className="mt-6 flex items-center gap-6">
+        {external && (
+          <a
+            href={external.href}
+            target="_blank"
+            rel="noreferrer"
+            className="h-10 px-5 bg-[#008c8c] text-white rounded-xl font-black text-[11px] uppercase tracking-widest flex items-center shadow-lg shadow-teal-500/20"
+          >
+            {t(external.label)}
+          </a>
+        )}
+        <BackLink />
+      </div>
+    </PageFrame>
+  );
+};
+
+export default RoutePage;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import SearchFloatingBar from './SearchFloatingBar';
+
+const renderBar = () => {
+  render(
+    <>
+      <textarea aria-label="Note" />
+      <SearchFloatingBar value="" onChange={vi.fn()} onSubmit={vi.fn()} />
+    </>,
+  );
+  return screen.getByRole('combobox');
+};
+
+describe('SearchFloatingBar', () => {
+  it('advertises / as its shortcut', () => {
+    expect(renderBar().getAttribute('aria-keyshortcuts')).toBe('/');
+  });
+
+  it('takes focus when / is pressed anywhere on the page', () => {
+    const box = renderBar();
+
+    const event = fireEvent.keyDown(document.body, { key: '/' });
+    expect(document.activeElement).toBe(box);
+    expect(event).toBe(false);
+  });
+
+  it('leaves / to other text fields and modified keys', () => {
+    const box = renderBar();
+    const note = screen.getByRole('textbox', { name: 'Note' });
+
+    note.focus();
+    fireEvent.keyDown(note, { key: '/' });
+    expect(document.activeElement).toBe(note);
+    note.blur();
+    fireEvent.keyDown(document.body, { key: '/', metaKey: true });
+    expect(document.activeElement).not.toBe(box);
+  });
+});
@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  nextPlaceholder, placeholderAt, placeholders, QUERY_TEMPLATES, QueryTemplate, replaceRange, Suggestion, suggestEntities, wordAt,
+} from '../services/suggestions';
+import { forgetQuery, loadQueryHistory } from '../services/queryHistory';
+import { MessageKey } from '../locales/en';
+import { t } from '../services/i18n';
+import { isTyping } from '../utils/keyboard';
+
+/**
+ * SEARCH FLOATING BAR - the question box pinned to the bottom of the page, with typeahead.
+ * Empty box: question templates and recent questions. While typing: genes, rsIDs, tissues and diseases
+ * from the bundled index, plus matching recent questions. Inside a template `{slot}`: entries of that kind.
+ * Keys: ↑/↓ choose, Enter or Tab accept, Tab with nothing chosen jumps to the next slot, Esc closes;
+ * / anywhere on the page focuses the box.
+ */
+
+type Option =
+  | { type: 'entity'; suggestion: Suggestion }
+  | { type: 'template'; template: QueryTemplate }
+  | { type: 'history'; query: string };
+
+const KIND_LABELS: Record<Suggestion['kind'], MessageKey> = {
+  gene: 'search.kindGene',
+  variant: 'search.kindVariant',
+  tissue: 'search.kindTissue',
+  disease: 'search.kindDisease',
+};
+
+const RECENT_SHOWN = 5;
+const RECENT_WHILE_TYPING = 3;
+const LISTBOX_ID = 'search-suggestions';
+
+/** Template text with its slots drawn as chips. */
+const TemplateText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(\{\w+\})/).map((part, i) =>
+      /^\{\w+\}$/.test(part)
+        ? <span key={i} className="px-1.5 py-0.5 mx-0.5 rounded-md bg-[#008c8c]/10 text-[#008c8c] text-[11px] font-bold">{part.slice(1, -1)}</span>
+        : <span key={i}>{part}</span>,
+    )}
+  </>
+);
+
+const SearchFloatingBar: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (query: string) => void;
+  /** Questions waiting for earlier answers; new ones join the queue. */
+  queued?: number;
+}> = ({ value, onChange, onSubmit, queued = 0 }) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const pendingSelection = useRef<[number, number] | null>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [highlight, setHighlight] = useState(-1);
+  const [history, setHistory] = useState<string[]>(loadQueryHistory);
+  const [hint, setHint] = useState<string | null>(null);
+
+  // Selections requested while changing `value` are applied once the new text is in the input.
+  useEffect(() => {
+    const selection = pendingSelection.current;
+    const input = inputRef.current;
+    if (!selection || !input) return;
+    pendingSelection.current = null;
+    input.focus();
+    input.setSelectionRange(selection[0], selection[1]);
+    setCaret(selection[0]);
+  }, [value]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '/' || e.metaKey || e.ctrlKey || e.altKey || isTyping(e.target)) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const slot = placeholderAt(value, caret);
+  const word = slot ? null : wordAt(value, caret);
+  const typed = value.trim().toLowerCase();
+
+  const options: Option[] = slot
+    ? suggestEntities('', slot.kind).map(suggestion => ({ type: 'entity' as const, suggestion }))
+    : !typed
+      ? [
+        ...QUERY_TEMPLATES.map(template => ({ type: 'template' as const, template })),
+        ...history.slice(0, RECENT_SHOWN).map(query => ({ type: 'history' as const, query })),
+      ]
+      : [
+        ...(word ? suggestEntities(word.word) : []).map(suggestion => ({ type: 'entity' as const, suggestion })),
+        ...history
+          .filter(q => q.toLowerCase().includes(typed) && q.toLowerCase() !== typed)
+          .slice(0, RECENT_WHILE_TYPING)
+          .map(query => ({ type: 'history' as const, query })),
+      ];
+  const open = focused && !dismissed && options.length > 0;
+
+  const update = (text: string, selection: [number, number]) => {
+    pendingSelection.current = selection;
+    setHighlight(-1);
+    setHint(null);
+    onChange(text);
+  };
+
+  /** Puts the caret on the next unfilled slot (selected, so typing replaces it); false if none is left. */
+  const selectNextSlot = (text: string, from: number) => {
+    const next = nextPlaceholder(text, from);
+    if (!next) return false;
+    update(text, [next.start, next.end]);
+    setDismissed(false);
+    return true;
+  };
+
+  const accept = (option: Option) => {
+    if (option.type === 'template') {
+      if (!selectNextSlot(option.template.text, 0)) update(option.template.text, [option.template.text.length, option.template.text.length]);
+      return;
+    }
+    if (option.type === 'history') {
+      update(option.query, [option.query.length, option.query.length]);
+      setDismissed(true);
+      return;
+    }
+    const range = slot ?? word ?? { start: caret, end: caret };
+    const result = replaceRange(value, range, option.suggestion.insert);
+    if (!selectNextSlot(result.text, result.caret)) {
+      update(result.text, [result.caret, result.caret]);
+      setDismissed(true);
+    }
+  };
+
+  const submit = () => {
+    const unfilled = placeholders(value)[0];
+    if (unfilled) {
+      // Sending "{gene}" to the model would only produce a confused answer.
+      update(value, [unfilled.start, unfilled.end]);
+      setHint(t('search.fillInFirst', { slot: unfilled.slot }));
+      return;
+    }
+    setDismissed(true);
+    onSubmit(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (options.length === 0) return;
+      e.preventDefault();
+      setDismissed(false);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight(h => (open ? (h + step + options.length) % options.length : step > 0 ? 0 : options.length - 1));
+      return;
+    }
+    // Inside a slot the first suggestion is a sensible default; elsewhere Enter must still submit as typed.
+    const chosen = open ? options[highlight >= 0 ? highlight : slot ? 0 : -1] : undefined;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (chosen) accept(chosen);
+      else submit();
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      if (chosen) {
+        e.preventDefault();
+        accept(chosen);
+      } else if (placeholders(value).length > 0) {
+        e.preventDefault();
+        selectNextSlot(value, caret);
+      }
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+      setHighlight(-1);
+    }
+  };
+
+  const optionId = (i: number) => `${LISTBOX_ID}-${i}`;
+  const firstOf = (type: Option['type']) => options.findIndex(o => o.type === type);
+
+  return (
+    <div className="relative">
+      {open && (
+        <div className="absolute bottom-full left-0 right-0 mb-3 bg-white/95 backdrop-blur-3xl rounded-[24px] border border-slate-200 shadow-[0_40px_100px_-20px_rgba(0,0,0,0.2)] p-2 max-h-[360px] overflow-y-auto custom-scrollbar">
+          {slot && (
+            <p className="px-4 pt-2 pb-1 text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">
+              {t('search.fillIn', { slot: slot.slot })}
+            </p>
+          )}
+          <ul id={LISTBOX_ID} role="listbox" aria-label={t('search.suggestions')}>
+            {options.map((option, i) => {
+              const active = i === highlight;
+              const heading =
+                i === firstOf('template') ? t('search.templates')
+                : i === firstOf('history') ? t('search.recent')
+                : null;
+              return (
+                <React.Fragment key={i}>
+                  {heading && !slot && (
+                    <li role="presentation" className="px-4 pt-3 pb-1 text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">{heading}</li>
+                  )}
+                  <li
+                    id={optionId(i)}
+                    role="option"
+                    aria-selected={active}
+                    // Keep focus (and the caret) in the input.
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => accept(option)}
+                    onMouseEnter={() => setHighlight(i)}
+                    className={`group px-4 py-2.5 rounded-2xl cursor-pointer flex items-center gap-3 text-[13px] ${active ? 'bg-[#008c8c]/10' : ''}`}
+                  >
+                    {option.type === 'entity' && (
+                      <>
+                        <span className="w-16 shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-400">{t(KIND_LABELS[option.suggestion.kind])}</span>
+                        <span className="font-bold text-slate-800">{option.suggestion.label}</span>
+                        <span className="text-slate-400 text-[11px] truncate">{option.suggestion.detail}</span>
+                      </>
+                    )}
+                    {option.type === 'template' && (
+                      <span className="text-slate-600"><TemplateText text={option.template.text} /></span>
+                    )}
+                    {option.type === 'history' && (
+                      <>
+                        <span className="text-slate-300" aria-hidden>↺</span>
+                        <span className="flex-1 text-slate-600 truncate">{option.query}</span>
+                        <button
+                          onMouseDown={e => e.preventDefault()}
+                          onClick={e => {
+                            e.stopPropagation();
+                            setHistory(forgetQuery(option.query));
+                          }}
+                          title={t('search.forget')}
+                          className="w-6 h-6 rounded-lg text-slate-300 hover:text-rose-500 font-black opacity-0 group-hover:opacity-100"
+                        >
+                          ×
+                        </button>
+                      </>
+                    )}
+                  </li>
+                </React.Fragment>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white/95 backdrop-blur-3xl rounded-[32px] border border-slate-200 shadow-[0_40px_100px_-20px_rgba(0,0,0,0.2)] p-3 flex items-center gap-5 pl-8 pr-3 h-20 ring-1 ring-slate-900/5 focus-within:ring-[#008c8c]/30">
+        <input
+          ref={inputRef}
+          value={value}
+          role="combobox"
+          aria-label={t('search.label')}
+          aria-keyshortcuts="/"
+          aria-autocomplete="list"
+          aria-expanded={open}
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={open && highlight >= 0 ? optionId(highlight) : undefined}
+          onChange={e => {
+            setDismissed(false);
+            setHighlight(-1);
+            setHint(null);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            onChange(e.target.value);
+          }}
+          onSelect={e => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => {
+            setFocused(true);
+            setHistory(loadQueryHistory());
+          }}
+          onBlur={() => {
+            setFocused(false);
+            setHighlight(-1);
+          }}
+          placeholder={t('search.placeholder')}
+          className="flex-1 bg-transparent border-none outline-none text-[17px] font-normal text-slate-700 placeholder-slate-400"
+        />
+        {hint && <span className="text-[11px] font-bold text-amber-600 shrink-0">{hint}</span>}
+        <button
+          onClick={submit}
+          className="h-14 px-10 bg-[#008c8c] text-white rounded-2xl font-black text-[14px] uppercase tracking-widest hover:bg-teal-700 transition-all shadow-xl shadow-teal-500/20 flex items-center gap-3"
+        >
+          {t('search.submit')}
+          {queued > 0 && (
+            <span title={t('search.waiting', { count: queued })} className="px-1.5 py-0.5 bg-white/20 rounded-md text-[10px]">
+              +{queued}
+            </span>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SearchFloatingBar;
@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { SessionSummary, TurnData } from '../types';
+import ExportMenu from './ExportMenu';
+import { localeInfo, t } from '../services/i18n';
+
+/**
+ * SESSION PANEL - slide-over list of saved investigations (create / rename / delete / resume),
+ * plus export of the current session and import of a shared JSON export.
+ */
+
+const formatUpdated = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(localeInfo().tag, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionPanel: React.FC<{
+  sessions: SessionSummary[];
+  currentId: string;
+  currentTitle: string;
+  currentTurns: TurnData[];
+  backend?: 'indexeddb' | 'localstorage';
+  onClose: () => void;
+  /** Receives the raw text of a JSON export; should throw with a readable message if it is unusable. */
+  onImport: (text: string) => Promise<void>;
+  onCreate: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ sessions, currentId, currentTitle, currentTurns, backend, onClose, onImport, onCreate, onOpen, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      await onImport(await file.text());
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraft(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draft);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[2px]" onClick={onClose}></div>
+
+      <aside className="relative w-full max-w-[380px] h-full bg-white shadow-2xl border-l border-slate-100 flex flex-col">
+        <div className="px-6 pt-6 pb-4 flex items-center justify-between border-b border-slate-100">
+          <div>
+            <h3 className="text-slate-800 font-black text-[15px]">{t('sessions.title')}</h3>
+            {backend && (
+              <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wide mt-0.5">
+                {t('sessions.savedLocally', { backend: backend === 'indexeddb' ? 'IndexedDB' : 'localStorage' })}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onCreate}
+              className="h-8 px-4 bg-[#008c8c] text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-teal-700 transition-all"
+            >
+              {t('sessions.new')}
+            </button>
+            <button onClick={onClose} className="w-8 h-8 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 font-black" title={t('common.close')}>
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-2 custom-scrollbar">
+          {sessions.length === 0 && (
+            <p className="text-slate-400 text-[12px] font-medium text-center mt-10">{t('sessions.empty')}</p>
+          )}
+          {sessions.map(session => {
+            const isCurrent = session.id === currentId;
+            return (
+              <div
+                key={session.id}
+                className={`group p-4 rounded-2xl border transition-all ${
+                  isCurrent ? 'border-[#008c8c]/40 bg-[#008c8c]/5' : 'border-slate-100 hover:border-[#008c8c]/30 hover:shadow-md'
+                }`}
+              >
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-[12px] font-bold text-slate-700 outline-none focus:border-[#008c8c]/50"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(session.id)} className="w-full text-left">
+                    <h5 className={`text-[12px] font-bold leading-snug line-clamp-2 ${isCurrent ? 'text-[#008c8c]' : 'text-slate-700'}`}>
+                      {session.title}
+                    </h5>
+                  </button>
+                )}
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-slate-400 text-[9px] font-bold uppercase">
+                    {t('sessions.questions', { count: session.turnCount })} • {formatUpdated(session.updatedAt)}
+                  </span>
+                  <div className="flex items-center gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => startRename(session)} className="text-slate-400 hover:text-[#008c8c] text-[9px] font-black uppercase tracking-widest">
+                      {t('sessions.rename')}
+                    </button>
+                    <button
+                      onClick={() => window.confirm(t('sessions.confirmDelete', { title: session.title })) && onDelete(session.id)}
+                      className="text-slate-400 hover:text-rose-500 text-[9px] font-black uppercase tracking-widest"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-slate-400 text-[10px] font-black tracking-[0.2em] uppercase">{t('sessions.current')}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => fileInput.current?.click()}
+                className="h-9 px-4 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all"
+              >
+                {t('sessions.import')}
+              </button>
+              <ExportMenu turns={currentTurns} title={currentTitle} dropUp />
+            </div>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => handleFile(e.target.files?.[0])}
+          />
+          {importError && (
+            <p className="text-rose-500 text-[11px] font-bold">{t('sessions.importFailed', { error: importError })}</p>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SessionPanel;
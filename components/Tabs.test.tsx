@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import Tabs from './Tabs';
+import { axeViolations } from '../test/axe';
+
+const TABS = ['Map', 'Graph', 'Charts'];
+
+const Harness: React.FC = () => {
+  const [active, setActive] = useState('Map');
+  return (
+    <Tabs label="Visual material" tabs={TABS} active={active} onChange={setActive}>
+      <p>{active} panel</p>
+    </Tabs>
+  );
+};
+
+describe('Tabs', () => {
+  it('exposes a tab list with one selected tab controlling a labelled panel', async () => {
+    const { container } = render(<Harness />);
+    const tabs = screen.getAllByRole('tab');
+
+    expect(screen.getByRole('tablist', { name: 'Visual material' })).toBeTruthy();
+    expect(tabs.map(tab => tab.getAttribute('aria-selected'))).toEqual(['true', 'false', 'false']);
+    expect(tabs.map(tab => tab.tabIndex)).toEqual([0, -1, -1]);
+    const panel = screen.getByRole('tabpanel', { name: 'Map' });
+    expect(tabs[0].getAttribute('aria-controls')).toBe(panel.id);
+    expect(panel.tabIndex).toBe(0);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it('moves selection and focus with the arrow keys, wrapping at either end', () => {
+    render(<Harness />);
+    const tab = (name: string) => screen.getByRole('tab', { name });
+
+    tab('Map').focus();
+    fireEvent.keyDown(tab('Map'), { key: 'ArrowRight' });
+    expect(tab('Graph').getAttribute('aria-selected')).toBe('true');
+    expect(document.activeElement).toBe(tab('Graph'));
+
+    fireEvent.keyDown(tab('Graph'), { key: 'ArrowLeft' });
+    fireEvent.keyDown(tab('Map'), { key: 'ArrowLeft' });
+    expect(document.activeElement).toBe(tab('Charts'));
+    expect(screen.getByRole('tabpanel').textContent).toBe('Charts panel');
+
+    fireEvent.keyDown(tab('Charts'), { key: 'ArrowRight' });
+    expect(document.activeElement).toBe(tab('Map'));
+  });
+
+  it('jumps to the first and last tab with Home and End', () => {
+    render(<Harness />);
+    const tab = (name: string) => screen.getByRole('tab', { name });
+
+    fireEvent.keyDown(tab('Map'), { key: 'End' });
+    expect(document.activeElement).toBe(tab('Charts'));
+    fireEvent.keyDown(tab('Charts'), { key: 'Home' });
+    expect(document.activeElement).toBe(tab('Map'));
+    expect(tab('Map').tabIndex).toBe(0);
+    expect(tab('Charts').tabIndex).toBe(-1);
+  });
+});
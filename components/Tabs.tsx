@@ -0,0 +1,73 @@
+import React, { useId } from 'react';
+
+/**
+ * TABS - a WAI-ARIA tab list with its panel. Only the selected tab is in the Tab order;
+ * ←/→ move to the previous / next tab (wrapping), Home / End to the first / last, and moving selects.
+ */
+
+const Tabs: React.FC<{
+  /** Accessible name of the tab list. */
+  label: string;
+  tabs: string[];
+  /** Text shown for a tab id. */
+  tabLabel?: (tab: string) => string;
+  active: string;
+  onChange: (tab: string) => void;
+  /** Classes of the tab row, and of each tab besides its selected / idle colours. */
+  className?: string;
+  tabClassName?: string;
+  /** Classes of the panel; the panel is focusable so its scrolled content can be reached by keyboard. */
+  panelClassName?: string;
+  children: React.ReactNode;
+}> = ({ label, tabs, tabLabel = tab => tab, active, onChange, className = '', tabClassName = '', panelClassName = '', children }) => {
+  const prefix = useId();
+  const tabId = (index: number) => `${prefix}-tab-${index}`;
+  const panelId = `${prefix}-panel`;
+  const activeIndex = Math.max(tabs.indexOf(active), 0);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const index = tabs.indexOf(active);
+    const next =
+      e.key === 'ArrowRight' ? (index + 1) % tabs.length
+      : e.key === 'ArrowLeft' ? (index - 1 + tabs.length) % tabs.length
+      : e.key === 'Home' ? 0
+      : e.key === 'End' ? tabs.length - 1
+      : -1;
+    if (next < 0) return;
+    e.preventDefault();
+    onChange(tabs[next]);
+    document.getElementById(tabId(next))?.focus();
+  };
+
+  return (
+    <>
+      <div role="tablist" aria-label={label} onKeyDown={handleKeyDown} className={className}>
+        {tabs.map((tab, i) => {
+          const selected = i === activeIndex;
+          return (
+            <button
+              key={tab}
+              id={tabId(i)}
+              role="tab"
+              aria-selected={selected}
+              aria-controls={panelId}
+              tabIndex={selected ? 0 : -1}
+              onClick={() => onChange(tab)}
+              className={`flex items-center justify-center pb-3 text-[10px] font-medium transition-all relative text-center outline-none focus-visible:ring-2 focus-visible:ring-[#008c8c]/40 rounded-sm ${tabClassName} ${
+                selected ? 'text-[#008c8c]' : 'text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              {tabLabel(tab)}
+              {selected && <span className="absolute bottom-[-1px] left-0 right-0 h-[1px] bg-[#008c8c] z-10"></span>}
+            </button>
+          );
+        })}
+      </div>
+      <div id={panelId} role="tabpanel" aria-labelledby={tabId(activeIndex)} tabIndex={0} className={`outline-none focus-visible:ring-2 focus-visible:ring-[#008c8c]/30 ${panelClassName}`}>
+        {children}
+      </div>
+    </>
+  );
+};
+
+export default Tabs;
@@ -0,0 +1,184 @@
+import React from 'react';
+import { TurnData } from '../types';
+import { diffWords, DiffSegment, matchCitations, matchQtlRecords, matchSections, overviewText, similarity } from '../services/turnComparison';
+import { pubmedUrl } from '../services/entities';
+import { formatPValue, formatSlope } from '../utils/format';
+import { numberLocale, t } from '../services/i18n';
+
+/**
+ * TURN COMPARISON - two answers side by side: AI Overview sections aligned with wording differences
+ * highlighted, references marked shared / only in one answer, and QTL numbers on the same rows.
+ */
+
+/** One side of a diff: its own changes highlighted, the other side's omitted. */
+const DiffText: React.FC<{ segments: DiffSegment[]; side: 'a' | 'b' }> = ({ segments, side }) => {
+  const own = side === 'a' ? 'removed' : 'added';
+  return (
+    <p className="text-slate-600 leading-relaxed text-[14px] font-medium">
+      {segments.map((segment, i) =>
+        segment.op === 'same' ? <span key={i}>{segment.text}</span>
+        : segment.op === own ? (
+          <mark key={i} className={`rounded px-0.5 ${side === 'a' ? 'bg-amber-100 text-amber-900' : 'bg-[#008c8c]/15 text-teal-900'}`}>{segment.text}</mark>
+        ) : null,
+      )}
+      {segments.length === 0 && <span className="text-slate-300">{t('compare.noText')}</span>}
+    </p>
+  );
+};
+
+const SideLabel: React.FC<{ side: 'A' | 'B'; turn: TurnData }> = ({ side, turn }) => (
+  <div className="flex items-start gap-3">
+    <span className={`shrink-0 w-7 h-7 rounded-lg flex items-center justify-center text-[11px] font-black ${side === 'A' ? 'bg-amber-100 text-amber-800' : 'bg-[#008c8c]/15 text-[#008c8c]'}`}>
+      {side}
+    </span>
+    <h3 className="text-[16px] font-black text-slate-800 leading-snug">{turn.query}</h3>
+  </div>
+);
+
+const Presence: React.FC<{ a: boolean; b: boolean }> = ({ a, b }) => (
+  <span
+    className={`px-1.5 py-0.5 rounded-md text-[9px] font-black uppercase tracking-wide whitespace-nowrap ${
+      a && b ? 'bg-slate-100 text-slate-500' : a ? 'bg-amber-50 text-amber-700' : 'bg-[#008c8c]/10 text-[#008c8c]'
+    }`}
+  >
+    {a && b ? t('compare.both') : t('compare.only', { side: a ? 'A' : 'B' })}
+  </span>
+);
+
+const MissingSection: React.FC<{ side: 'A' | 'B' }> = ({ side }) => (
+  <p className="text-[13px] text-slate-300 italic">{t('compare.missingSection', { side })}</p>
+);
+
+const TurnComparison: React.FC<{
+  a: TurnData;
+  b: TurnData;
+  onSwap: () => void;
+  onClose: () => void;
+}> = ({ a, b, onSwap, onClose }) => {
+  const citations = matchCitations(a, b);
+  const shared = citations.filter(c => c.a && c.b).length;
+  const qtl = matchQtlRecords(a, b);
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center overflow-y-auto py-10 px-6" role="dialog" aria-modal="true" aria-label={t('compare.title')}>
+      <div className="fixed inset-0 bg-slate-900/20 backdrop-blur-[2px]" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-[1280px] bg-white rounded-[32px] shadow-2xl border border-slate-100">
+        <div className="px-8 pt-6 pb-4 flex items-center justify-between border-b border-slate-100">
+          <div>
+            <h2 className="text-slate-800 font-black text-[15px]">{t('compare.title')}</h2>
+            <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wide mt-0.5">
+              {t('compare.summary', { shared, total: citations.length, qtl: qtl.filter(r => r.a && r.b).length })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onSwap}
+              className="h-8 px-4 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all"
+            >
+              {t('compare.swap')}
+            </button>
+            <button onClick={onClose} className="w-8 h-8 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-50 font-black" title={t('common.close')}>
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="px-8 py-6 flex flex-col gap-8">
+          <div className="grid grid-cols-2 gap-10">
+            <SideLabel side="A" turn={a} />
+            <SideLabel side="B" turn={b} />
+          </div>
+
+          {/* AI Overview, section by section */}
+          {matchSections(a, b).map(({ key, title, a: left, b: right }) => {
+            const segments = diffWords(overviewText(left), overviewText(right));
+            return (
+              <section key={key}>
+                <div className="flex items-center gap-3 mb-3">
+                  <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase">{title}</h4>
+                  {left && right ? (
+                    <span className="text-slate-400 text-[10px] font-bold">{t('compare.sameWording', { percent: Math.round(similarity(segments) * 100) })}</span>
+                  ) : (
+                    <Presence a={!!left} b={!!right} />
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-10">
+                  {left ? <DiffText segments={segments} side="a" /> : <MissingSection side="A" />}
+                  {right ? <DiffText segments={segments} side="b" /> : <MissingSection side="B" />}
+                </div>
+              </section>
+            );
+          })}
+
+          {/* References by PMID */}
+          <section>
+            <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase mb-3">{t('evidence.references')}</h4>
+            {citations.length === 0 ? (
+              <p className="text-slate-400 text-[12px]">{t('compare.noReferences')}</p>
+            ) : (
+              <table className="w-full text-[12px]">
+                <tbody>
+                  {citations.map(({ pmid, a: inA, b: inB }) => (
+                    <tr key={pmid} className="border-b border-slate-50">
+                      <td className="py-2 pr-3 w-[80px]"><Presence a={!!inA} b={!!inB} /></td>
+                      <td className="py-2 pr-3 text-slate-700 font-medium">{(inA ?? inB)!.title}</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <a href={pubmedUrl(pmid)} target="_blank" rel="noreferrer" className="text-[#008c8c] font-bold hover:underline">
+                          PMID {pmid}
+                        </a>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {/* QTL numbers on shared rows */}
+          <section>
+            <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase mb-3">{t('compare.qtlRecords')}</h4>
+            {qtl.length === 0 ? (
+              <p className="text-slate-400 text-[12px]">{t('compare.noQtl')}</p>
+            ) : (
+              <table className="w-full text-[12px] tabular-nums">
+                <thead>
+                  <tr className="text-left text-slate-400 text-[9px] font-black uppercase tracking-widest border-b border-slate-100">
+                    <th className="py-2 pr-3">{t('batch.variant')}</th>
+                    <th className="py-2 pr-3">{t('batch.gene')}</th>
+                    <th className="py-2 pr-3">{t('compare.tissue')}</th>
+                    <th className="py-2 pr-3">{t('compare.dataset')}</th>
+                    <th className="py-2 pr-3 text-amber-700">{t('compare.slopeOf', { side: 'A' })}</th>
+                    <th className="py-2 pr-3 text-amber-700">{t('compare.pOf', { side: 'A' })}</th>
+                    <th className="py-2 pr-3 text-[#008c8c]">{t('compare.slopeOf', { side: 'B' })}</th>
+                    <th className="py-2 pr-3 text-[#008c8c]">{t('compare.pOf', { side: 'B' })}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {qtl.map(row => {
+                    // Both answers report the record but with different numbers: worth a second look.
+                    const disagree = row.a && row.b && (row.a.slope !== row.b.slope || row.a.pValue !== row.b.pValue);
+                    return (
+                      <tr key={row.key} className={`border-b border-slate-50 ${disagree ? 'bg-amber-50/60' : ''}`}>
+                        <td className="py-2 pr-3 font-bold text-slate-800">{row.variant}</td>
+                        <td className="py-2 pr-3 font-bold text-slate-800">{row.gene}</td>
+                        <td className="py-2 pr-3 text-slate-600">{row.tissue}</td>
+                        <td className="py-2 pr-3 text-slate-400">{row.dataset}</td>
+                        <td className="py-2 pr-3">{row.a ? formatSlope(row.a.slope, numberLocale()) : '—'}</td>
+                        <td className="py-2 pr-3">{row.a ? formatPValue(row.a.pValue, numberLocale()) : '—'}</td>
+                        <td className="py-2 pr-3">{row.b ? formatSlope(row.b.slope, numberLocale()) : '—'}</td>
+                        <td className="py-2 pr-3">{row.b ? formatPValue(row.b.pValue, numberLocale()) : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TurnComparison;
@@ -0,0 +1,255 @@
+import { Type } from "@google/genai";
+import { GraphEdgeKind, GraphNodeKind, OverviewSectionKind, TurnAnswer, TurnData } from './types';
+
+// --- Constants & Schemas ---
+
+export const OVERVIEW_SECTION_KINDS: OverviewSectionKind[] = ['text', 'facts', 'table'];
+
+/** Body of a `text` section: a list of claims, each carrying the ids of the citations backing it. */
+const CLAIMS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      citationIds: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    },
+    required: ["text", "citationIds"],
+    propertyOrdering: ["text", "citationIds"],
+  },
+};
+
+/** Body of a `facts` section: short label/value pairs. */
+const FACTS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING },
+      value: { type: Type.STRING },
+    },
+    required: ["label", "value"],
+    propertyOrdering: ["label", "value"],
+  },
+};
+
+/** Body of a `table` section. */
+const TABLE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    columns: { type: Type.ARRAY, items: { type: Type.STRING } },
+    rows: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.STRING } } },
+  },
+  required: ["columns", "rows"],
+  propertyOrdering: ["columns", "rows"],
+};
+
+const OVERVIEW_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: OVERVIEW_SECTION_KINDS },
+      title: { type: Type.STRING },
+      body: { anyOf: [CLAIMS_SCHEMA, FACTS_SCHEMA, TABLE_SCHEMA] },
+      citationIds: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    },
+    required: ["kind", "title", "body", "citationIds"],
+    // The kind arrives first, so a streaming section is rendered by the right renderer from its first chunk.
+    propertyOrdering: ["kind", "title", "body", "citationIds"],
+  },
+};
+
+export const GRAPH_NODE_KINDS: GraphNodeKind[] = ['gene', 'variant', 'tissue', 'disease', 'publication'];
+
+export const GRAPH_EDGE_KINDS: GraphEdgeKind[] = ['eQTL', 'effector-gene', 'cited-by', 'expressed-in', 'associated-with'];
+
+const KNOWLEDGE_GRAPH_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    nodes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: GRAPH_NODE_KINDS },
+          label: { type: Type.STRING },
+        },
+        required: ["id", "kind", "label"],
+      },
+    },
+    edges: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING },
+          target: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: GRAPH_EDGE_KINDS },
+        },
+        required: ["source", "target", "kind"],
+      },
+    },
+  },
+  required: ["nodes", "edges"],
+  propertyOrdering: ["nodes", "edges"],
+};
+
+const QTL_RECORDS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      variant: { type: Type.STRING },
+      gene: { type: Type.STRING },
+      tissue: { type: Type.STRING },
+      effectAllele: { type: Type.STRING },
+      slope: { type: Type.NUMBER },
+      pValue: { type: Type.NUMBER },
+      dataset: { type: Type.STRING },
+      slopeSe: { type: Type.NUMBER },
+      position: { type: Type.INTEGER },
+    },
+    required: ["variant", "gene", "tissue", "effectAllele", "slope", "pValue", "dataset"],
+    // Numbers come before `dataset`, so a streamed record only validates once its numbers are complete.
+    propertyOrdering: ["variant", "gene", "tissue", "effectAllele", "slope", "slopeSe", "pValue", "position", "dataset"],
+  },
+};
+
+export const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    aiOverview: OVERVIEW_SCHEMA,
+    citations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER },
+          title: { type: Type.STRING },
+          authors: { type: Type.STRING },
+          journal: { type: Type.STRING },
+          pmid: { type: Type.STRING },
+        },
+        required: ["id", "title", "authors", "journal", "pmid"],
+      },
+    },
+    knowledgeGraph: KNOWLEDGE_GRAPH_SCHEMA,
+    qtlRecords: QTL_RECORDS_SCHEMA,
+    followUpQuestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+  },
+  required: ["aiOverview", "citations", "knowledgeGraph", "qtlRecords", "followUpQuestions"],
+  // Sections stream in display order, so the UI can fill them top to bottom.
+  propertyOrdering: ["aiOverview", "citations", "knowledgeGraph", "qtlRecords", "followUpQuestions"],
+};
+
+/** Starting point for turns that are still streaming, or that failed before any content arrived. */
+export const EMPTY_ANSWER: TurnAnswer = {
+  aiOverview: [],
+  citations: [],
+  knowledgeGraph: { nodes: [], edges: [] },
+  qtlRecords: [],
+  followUpQuestions: [],
+};
+
+// --- Mock Data ---
+
+export const INITIAL_TURN: TurnData = {
+  id: 'turn-1',
+  query: 'How does the SNP rs2402203 influence the expression of CFTR in Pancreas tissue, as reported by GTEx?',
+  aiOverview: [
+    {
+      id: 'at-a-glance',
+      kind: 'facts',
+      title: 'At a glance',
+      body: [
+        { label: 'Gene', value: 'CFTR (ENSG0000001626)' },
+        { label: 'Variant', value: 'rs2402203' },
+        { label: 'Tissue', value: 'Pancreas' },
+        { label: 'Effect allele', value: 'C' },
+        { label: 'Slope', value: '-2.36' },
+        { label: 'Dataset', value: 'GTEx V8' },
+      ],
+      citationIds: [3],
+    },
+    {
+      id: 'gene-function',
+      kind: 'text',
+      title: 'Gene Function',
+      citationIds: [],
+      body: [
+        { text: "The gene CFTR (ENSG0000001626) encodes the cystic fibrosis transmembrane conductance regulator protein, which plays a crucial role in ion transport and is implicated in immune regulation.", citationIds: [5] },
+        { text: "It is associated with type 1 diabetes (MONDO_0005147), indicating its potential role in autoimmune processes.", citationIds: [1] },
+      ],
+    },
+    {
+      id: 'qtl-link',
+      kind: 'text',
+      title: 'QTL Link',
+      citationIds: [],
+      body: [
+        { text: "The SNP rs2402203 is associated with the gene CFTR (ENSG0000001626) in the pancreas.", citationIds: [1, 4] },
+        { text: "The effect allele is C, with a slope of -2.36, indicating a negative association with gene expression.", citationIds: [3] },
+        { text: "The nominal p-value is extremely low (4.84 x 10^-17), indicating high statistical significance.", citationIds: [3] },
+      ],
+    },
+    {
+      id: 't1d-pathogenesis',
+      kind: 'text',
+      title: 'T1D Pathogenesis',
+      citationIds: [],
+      body: [
+        { text: "The gene CFTR (ENSG0000001626) is associated with Type 1 diabetes (MONDO_0005147) as an effector gene, indicating its potential role in the disease's pathogenesis.", citationIds: [2, 4] },
+        { text: "Evidence includes the identification of genetic variants like SNP rs2402203.", citationIds: [1, 5] },
+      ],
+    },
+  ],
+  citations: [
+    { id: 1, title: "Fine-mapping, trans-ancestral and genomic analyses identify causal variants...", authors: "Robertson CC, ..., Rich SS", journal: "NATURE GENETICS. 2021", pmid: "34127860" },
+    { id: 2, title: "Interpreting type 1 diabetes risk with genetics and single-cell epigenomics.", authors: "Chiou J, ..., Gaulton KJ", journal: "NATURE. 2021", pmid: "34012112" },
+    { id: 3, title: "Genome-wide association study of pancreatic gene expression.", authors: "Smith A, ..., Doe J", journal: "DIABETES. 2022", pmid: "35012345" },
+    { id: 4, title: "Integrative analysis of eQTLs in human pancreas tissues.", authors: "Lee K, ..., Wang X", journal: "CELL REPORTS. 2023", pmid: "36098765" },
+    { id: 5, title: "Proteogenomic characterization of cystic fibrosis proteins.", authors: "Miller R, ..., Chen L", journal: "GENOME BIOLOGY. 2023", pmid: "37045678" }
+  ],
+  knowledgeGraph: {
+    nodes: [
+      { id: "ENSG0000001626", kind: "gene", label: "CFTR" },
+      { id: "rs2402203", kind: "variant", label: "rs2402203" },
+      { id: "UBERON_0001264", kind: "tissue", label: "Pancreas" },
+      { id: "MONDO_0005147", kind: "disease", label: "Type 1 diabetes" },
+      { id: "PMID:34127860", kind: "publication", label: "Robertson 2021" },
+      { id: "PMID:34012112", kind: "publication", label: "Chiou 2021" },
+      { id: "PMID:35012345", kind: "publication", label: "Smith 2022" },
+      { id: "PMID:36098765", kind: "publication", label: "Lee 2023" },
+    ],
+    edges: [
+      { source: "rs2402203", target: "ENSG0000001626", kind: "eQTL" },
+      { source: "ENSG0000001626", target: "UBERON_0001264", kind: "expressed-in" },
+      { source: "ENSG0000001626", target: "MONDO_0005147", kind: "effector-gene" },
+      { source: "rs2402203", target: "MONDO_0005147", kind: "associated-with" },
+      { source: "rs2402203", target: "PMID:34127860", kind: "cited-by" },
+      { source: "MONDO_0005147", target: "PMID:34012112", kind: "cited-by" },
+      { source: "rs2402203", target: "PMID:35012345", kind: "cited-by" },
+      { source: "ENSG0000001626", target: "PMID:36098765", kind: "cited-by" },
+    ],
+  },
+  qtlRecords: [
+    { variant: "rs2402203", gene: "CFTR", tissue: "Pancreas", effectAllele: "C", slope: -2.36, slopeSe: 0.27, pValue: 4.84e-17, position: 117559590, dataset: "GTEx V8" },
+    { variant: "rs2402203", gene: "CFTR", tissue: "Pancreatic islets", effectAllele: "C", slope: -1.12, slopeSe: 0.31, pValue: 3.1e-4, position: 117559590, dataset: "InsPIRE" },
+    { variant: "rs2402203", gene: "CFTR", tissue: "Colon - Transverse", effectAllele: "C", slope: -0.84, slopeSe: 0.22, pValue: 1.6e-4, position: 117559590, dataset: "GTEx V8" },
+    { variant: "rs2402203", gene: "CFTR", tissue: "Lung", effectAllele: "C", slope: -0.21, slopeSe: 0.19, pValue: 0.27, position: 117559590, dataset: "GTEx V8" },
+    { variant: "rs7512462", gene: "CFTR", tissue: "Pancreas", effectAllele: "T", slope: -1.41, slopeSe: 0.29, pValue: 1.9e-6, position: 117541284, dataset: "GTEx V8" },
+    { variant: "rs10487372", gene: "CFTR", tissue: "Pancreas", effectAllele: "A", slope: 0.62, slopeSe: 0.24, pValue: 9.8e-3, position: 117503117, dataset: "GTEx V8" },
+    { variant: "rs213950", gene: "CFTR", tissue: "Pancreas", effectAllele: "G", slope: -0.38, slopeSe: 0.25, pValue: 0.13, position: 117590011, dataset: "GTEx V8" },
+    { variant: "rs4727853", gene: "CFTR", tissue: "Pancreas", effectAllele: "C", slope: -1.87, slopeSe: 0.28, pValue: 2.2e-11, position: 117571202, dataset: "GTEx V8" },
+  ],
+  followUpQuestions: [
+    "What are the target cells for CFTR in the pancreas?",
+    "Are there other SNPs in the same locus linked to T1D?",
+    "How does CFTR interact with CSK in autoimmune processes?"
+  ]
+};
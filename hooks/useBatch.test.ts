@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { TurnAnswer } from '../types';
+import { EMPTY_ANSWER } from '../constants';
+import { buildBatchRows } from '../services/batch';
+import { useBatch } from './useBatch';
+
+/** An answer function whose calls settle only when the test says so, ignoring the abort signal like a slow provider. */
+const controlledAnswers = () => {
+  const pending = new Map<string, (answer: TurnAnswer) => void>();
+  const answer = (query: string) => new Promise<TurnAnswer>(resolve => pending.set(query, resolve));
+  const settle = async (query: string) => {
+    await act(async () => pending.get(query)!({ ...EMPTY_ANSWER, followUpQuestions: [query] }));
+  };
+  return { answer, settle };
+};
+
+const rowsFor = (genes: string[]) =>
+  buildBatchRows(genes.map((gene, i) => ({ line: i + 1, gene })), 'What does {gene} do?', {});
+
+describe('useBatch', () => {
+  it('puts running rows back in the queue when cancelled', async () => {
+    const { answer } = controlledAnswers();
+    const { result } = renderHook(() => useBatch(answer));
+
+    act(() => void result.current.start(rowsFor(['INS', 'CEL']), 1));
+    act(() => result.current.cancel());
+
+    expect(result.current.running).toBe(false);
+    expect(result.current.rows.map(r => r.status)).toEqual(['queued', 'queued']);
+  });
+
+  it('keeps answers from a cancelled run out of the next run', async () => {
+    const { answer, settle } = controlledAnswers();
+    const { result } = renderHook(() => useBatch(answer));
+
+    act(() => void result.current.start(rowsFor(['INS']), 1));
+    act(() => result.current.cancel());
+    act(() => void result.current.start(rowsFor(['CEL']), 1));
+    await settle('What does INS do?');
+
+    expect(result.current.running).toBe(true);
+    expect(result.current.rows.map(r => [r.query, r.status])).toEqual([['What does CEL do?', 'running']]);
+
+    await settle('What does CEL do?');
+    expect(result.current.running).toBe(false);
+    expect(result.current.rows[0].answer?.followUpQuestions).toEqual(['What does CEL do?']);
+  });
+});
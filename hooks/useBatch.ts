@@ -0,0 +1,65 @@
+import { useRef, useState } from 'react';
+import { TurnAnswer } from '../types';
+import { toTurnError } from '../services/answerProvider';
+import { BatchRow, runWithConcurrency } from '../services/batch';
+
+/**
+ * Runs a batch and keeps its rows, so results survive closing the batch panel.
+ * `answer` is the answer pipeline; each row gets its own attempt, and one failing row does not stop the rest.
+ */
+export const useBatch = (answer: (query: string, signal: AbortSignal) => Promise<TurnAnswer>) => {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  const updateRow = (id: string, patch: Partial<BatchRow>) =>
+    setRows(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const start = async (batch: BatchRow[], concurrency: number) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setRows(batch);
+    setRunning(true);
+
+    // A cancelled or replaced run may still have answers in flight; they must not touch the rows shown now.
+    const update = (id: string, patch: Partial<BatchRow>) => {
+      if (controller.current === current) updateRow(id, patch);
+    };
+
+    await runWithConcurrency(batch.filter(r => r.status === 'queued'), concurrency, async row => {
+      update(row.id, { status: 'running' });
+      try {
+        update(row.id, { status: 'done', answer: await answer(row.query, current.signal) });
+      } catch (err) {
+        update(row.id, { status: 'failed', error: toTurnError(err) });
+      }
+    }, current.signal);
+
+    if (controller.current === current) {
+      controller.current = null;
+      setRunning(false);
+    }
+  };
+
+  const cancel = () => {
+    controller.current?.abort();
+    controller.current = null;
+    setRunning(false);
+    // Rows still running go back to the queue rather than showing as failures.
+    setRows(prev => prev.map(r => (r.status === 'running' ? { ...r, status: 'queued' } : r)));
+  };
+
+  const clear = () => {
+    cancel();
+    setRows([]);
+  };
+
+  const counts = {
+    total: rows.filter(r => r.status !== 'skipped').length,
+    done: rows.filter(r => r.status === 'done').length,
+    failed: rows.filter(r => r.status === 'failed').length,
+  };
+
+  return { rows, running, counts, start, cancel, clear };
+};
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { answersInLocale, currentLocale, Locale, LOCALE_EVENT } from '../services/i18n';
+
+/** The interface language and answer-language option, updated whenever either is changed. */
+export const useLocale = (): { locale: Locale; answersInLocale: boolean } => {
+  const read = () => ({ locale: currentLocale(), answersInLocale: answersInLocale() });
+  const [state, setState] = useState(read);
+
+  useEffect(() => {
+    const update = () => setState(read());
+    window.addEventListener(LOCALE_EVENT, update);
+    return () => window.removeEventListener(LOCALE_EVENT, update);
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { currentRoute, NAVIGATE_EVENT, Route } from '../services/router';
+
+/** The current route, updated on back/forward and on `navigate`. */
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(currentRoute);
+
+  useEffect(() => {
+    // Turn deep links scroll explicitly; the browser restoring old offsets would fight them.
+    window.history.scrollRestoration = 'manual';
+    const update = () => setRoute(currentRoute());
+    window.addEventListener('popstate', update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+};
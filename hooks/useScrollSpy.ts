@@ -0,0 +1,39 @@
+import { MutableRefObject, useEffect, useState } from 'react';
+
+/** Distance from the top of the viewport (below the fixed header) at which a turn counts as the one being read. */
+const READING_LINE = 160;
+
+/**
+ * Id of the element currently crossing the reading line, out of `ids` (in page order).
+ * `refs` is the same map the page fills with its turn elements.
+ */
+export const useScrollSpy = (refs: MutableRefObject<{ [id: string]: HTMLElement | null }>, ids: string[]) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const key = ids.join(',');
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        // The last turn whose top has passed the reading line; before any has, the first one.
+        let current: string | null = ids[0] ?? null;
+        for (const id of ids) {
+          const el = refs.current[id];
+          if (el && el.getBoundingClientRect().top <= READING_LINE) current = id;
+        }
+        setActiveId(current);
+      });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [key]);
+
+  return activeId;
+};
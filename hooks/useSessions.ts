@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { INITIAL_TURN } from '../constants';
+import { Session, SessionSummary, TurnData, TurnViewState } from '../types';
+import { createSessionStore, SessionStore, sessionTitle } from '../services/sessionStore';
+
+/**
+ * Owns the current session (turns + per-turn view state + active branch + scroll position) and keeps it saved.
+ * Changes are written back after a short debounce; switching sessions flushes the pending write first.
+ */
+
+const SAVE_DELAY = 400;
+
+type SessionMeta = Pick<Session, 'id' | 'title' | 'createdAt'>;
+
+const newMeta = (): SessionMeta => ({ id: `session-${Date.now()}`, createdAt: Date.now() });
+
+/** `initialId` (e.g. from a deep link) is opened at startup instead of the most recent session when it exists. */
+export const useSessions = (initialId?: string) => {
+  const storeRef = useRef<SessionStore | null>(null);
+  const scrollY = useRef(0);
+  const pendingScroll = useRef<number | null>(null);
+  const [ready, setReady] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [meta, setMeta] = useState<SessionMeta>(newMeta);
+  const [turns, setTurns] = useState<TurnData[]>([]);
+  const [view, setView] = useState<Session['view']>({});
+  const [activeLeafId, setActiveLeafId] = useState<string | undefined>(undefined);
+
+  const snapshot = (): Session =>
+    ({ ...meta, turns, view, activeLeafId, scrollY: scrollY.current, updatedAt: Date.now() });
+
+  const persist = async (session: Session = snapshot()) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      await store.save(session);
+    } catch (err) {
+      console.error('Saving the session failed:', err);
+      return;
+    }
+    const summary: SessionSummary = {
+      id: session.id,
+      title: sessionTitle(session),
+      updatedAt: session.updatedAt,
+      turnCount: session.turns.length,
+    };
+    setSessions(prev => [summary, ...prev.filter(s => s.id !== session.id)]);
+  };
+
+  const apply = (session: Session) => {
+    setMeta({ id: session.id, title: session.title, createdAt: session.createdAt });
+    setTurns(session.turns);
+    setView(session.view);
+    setActiveLeafId(session.activeLeafId);
+    scrollY.current = session.scrollY;
+    pendingScroll.current = session.scrollY;
+  };
+
+  const blankSession = (seed: TurnData[] = []): Session =>
+    ({ ...newMeta(), turns: seed, view: {}, scrollY: 0, updatedAt: Date.now() });
+
+  // Resume the linked or most recently used session, or start the first one with the demo turn.
+  useEffect(() => {
+    (async () => {
+      const store = await createSessionStore();
+      storeRef.current = store;
+      const list = await store.list();
+      const linked = initialId ? await store.load(initialId) : null;
+      const latest = linked ?? (list[0] ? await store.load(list[0].id) : null);
+      apply(latest ?? blankSession([INITIAL_TURN]));
+      setSessions(list);
+      setReady(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => persist(), SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [ready, meta, turns, view, activeLeafId]);
+
+  // Scroll position is tracked in a ref and saved with the next write, not on every scroll event.
+  useEffect(() => {
+    if (!ready) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const onScroll = () => {
+      scrollY.current = window.scrollY;
+      clearTimeout(timer);
+      timer = setTimeout(() => persist(), SAVE_DELAY * 2);
+    };
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('scroll', onScroll);
+    };
+  });
+
+  // Restore the scroll position once the restored turns have rendered.
+  useEffect(() => {
+    if (pendingScroll.current === null) return;
+    const top = pendingScroll.current;
+    pendingScroll.current = null;
+    requestAnimationFrame(() => window.scrollTo({ top }));
+  }, [turns]);
+
+  const createSession = async () => {
+    await persist();
+    const session = blankSession();
+    apply(session);
+    await persist(session);
+  };
+
+  /** Saves a session built elsewhere (e.g. an imported file) and switches to it. */
+  const addSession = async (session: Session) => {
+    await persist();
+    apply(session);
+    await persist(session);
+  };
+
+  /** Resolves false when no session with this id is saved. */
+  const openSession = async (id: string) => {
+    if (id === meta.id) return true;
+    if (!storeRef.current) return false;
+    await persist();
+    const session = await storeRef.current.load(id);
+    if (session) apply(session);
+    return !!session;
+  };
+
+  const renameSession = async (id: string, title: string) => {
+    const trimmed = title.trim() || undefined;
+    if (id === meta.id) {
+      setMeta(prev => ({ ...prev, title: trimmed }));
+      return;
+    }
+    const session = await storeRef.current?.load(id);
+    if (session) await persist({ ...session, title: trimmed, updatedAt: Date.now() });
+  };
+
+  const deleteSession = async (id: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    await store.remove(id);
+    const remaining = sessions.filter(s => s.id !== id);
+    setSessions(remaining);
+    if (id !== meta.id) return;
+    const next = remaining[0] ? await store.load(remaining[0].id) : null;
+    apply(next ?? blankSession());
+  };
+
+  const setTurnView = (turnId: string, patch: TurnViewState) => {
+    setView(prev => ({ ...prev, [turnId]: { ...prev[turnId], ...patch } }));
+  };
+
+  return {
+    ready,
+    backend: storeRef.current?.backend,
+    sessions,
+    currentId: meta.id,
+    currentTitle: sessionTitle({ title: meta.title, turns }),
+    turns,
+    setTurns,
+    view,
+    setTurnView,
+    activeLeafId,
+    setActiveLeafId,
+    createSession,
+    openSession,
+    addSession,
+    renameSession,
+    deleteSession,
+  };
+};
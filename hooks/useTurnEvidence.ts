@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { EntityMention } from '../types';
+import { fetchEvidence, TurnEvidence } from '../services/evidence';
+import { PankgraphClient } from '../services/pankgraphClient';
+
+/**
+ * Loads the PanKgraph records behind a turn's entities. Waits while `enabled` is false (the answer is
+ * still streaming and its entities are changing), and refetches only when the set of entity ids changes.
+ */
+
+export type EvidenceState =
+  | { status: 'loading' }
+  | { status: 'ready'; evidence: TurnEvidence }
+  | { status: 'error'; message: string };
+
+export const useTurnEvidence = (client: PankgraphClient, mentions: EntityMention[], enabled: boolean) => {
+  const [state, setState] = useState<EvidenceState>({ status: 'loading' });
+  const [attempt, setAttempt] = useState(0);
+  const key = [...new Set(mentions.map(m => `${m.kind}:${m.id}`))].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    setState({ status: 'loading' });
+    fetchEvidence(client, mentions, controller.signal)
+      .then(evidence => setState({ status: 'ready', evidence }))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setState({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+      });
+    return () => controller.abort();
+  }, [client, key, enabled, attempt]);
+
+  return { state, retry: () => setAttempt(n => n + 1) };
+};
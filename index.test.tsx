@@ -0,0 +1,55 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { createMockProvider } from './services/mockProvider';
+import { INITIAL_TURN } from './constants';
+import App from './index';
+import { axeViolations } from './test/axe';
+
+// The mock provider without its simulated latency, so answers arrive within the test's time limit.
+vi.mock('./services/providerConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./services/providerConfig')>()),
+  createAnswerProvider: () => createMockProvider({ latency: 0, chunkSize: 4096, chunkDelay: 0 }),
+}));
+
+const ask = (query: string) => {
+  const box = screen.getByRole('combobox', { name: 'Ask a question' });
+  fireEvent.change(box, { target: { value: query } });
+  fireEvent.keyDown(box, { key: 'Enter' });
+};
+
+describe('App', () => {
+  it('announces finished and failed answers in a polite live region, with no axe violations on their turn cards', async () => {
+    const { container } = render(<App />);
+    const region = await screen.findByRole('status');
+    expect(region.getAttribute('aria-live')).toBe('polite');
+    expect(region.textContent).toBe('');
+
+    ask('What does INS do in beta cells?');
+    await waitFor(() => expect(region.textContent).toBe('Answer ready: What does INS do in beta cells?'));
+    // The answered card brings its tab lists and citation markers into the page axe checks.
+    expect(screen.getAllByRole('tablist').length).toBeGreaterThan(0);
+    expect(screen.getAllByRole('button', { name: /^Reference \d+: / }).length).toBeGreaterThan(0);
+    expect(await axeViolations(container)).toEqual([]);
+
+    ask('Which variants affect INS? #fail');
+    await waitFor(() => expect(region.textContent).toBe('No answer for: Which variants affect INS? #fail'));
+    expect(await axeViolations(container)).toEqual([]);
+  }, 20_000);
+
+  it('asks a follow-up from an earlier card as a branch from that card', async () => {
+    render(<App />);
+    const region = await screen.findByRole('status');
+    ask('What does INS do in beta cells?');
+    await waitFor(() => expect(region.textContent).toBe('Answer ready: What does INS do in beta cells?'));
+
+    const first = screen.getByRole('article', { name: INITIAL_TURN.query });
+    const followUp = INITIAL_TURN.followUpQuestions[0];
+    fireEvent.click(within(first).getByRole('button', { name: followUp }));
+    await waitFor(() => expect(region.textContent).toBe(`Answer ready: ${followUp}`));
+
+    // The thread now runs from the first card to the follow-up; the other question is on its own branch.
+    expect(screen.getAllByRole('article').map(article => within(article).getByRole('heading', { level: 2 }).textContent))
+      .toEqual([INITIAL_TURN.query, followUp]);
+  });
+});
@@ -1,104 +1,64 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
+import {
+  Annotation, Citation, EntityKind, EntityMention, FactsSection, OverviewSection, OverviewSectionKind, SectionFeedback, TableSection,
+  TextSection, TurnAnswer, TurnData,
+} from './types';
+import { EMPTY_ANSWER } from './constants';
+import { toTurnError } from './services/answerProvider';
+import { answerQuestion, AnswerServices } from './services/answerPipeline';
+import { createAnswerProvider, createPankgraphClient, createPubmedSource } from './services/providerConfig';
+import KnowledgeGraph from './components/KnowledgeGraph';
+import ProvenanceCharts from './components/ProvenanceCharts';
+import SessionPanel from './components/SessionPanel';
+import ExportMenu from './components/ExportMenu';
+import EntityText, { TextHighlight } from './components/EntityText';
+import GlobalDirectory from './components/GlobalDirectory';
+import SearchFloatingBar from './components/SearchFloatingBar';
+import BatchPanel from './components/BatchPanel';
+import FeedbackLogPanel from './components/FeedbackLogPanel';
+import EvidenceExplorer from './components/EvidenceExplorer';
+import TurnComparison from './components/TurnComparison';
+import { NoteEditor, SectionFeedbackControl, SectionNotes } from './components/Annotations';
+import RouteLink from './components/RouteLink';
+import Tabs from './components/Tabs';
+import CitationMarker from './components/CitationMarker';
+import RoutePage, { NotFoundPage } from './components/RoutePages';
+import { importSession } from './services/sessionExport';
+import { useSessions } from './hooks/useSessions';
+import { buildHistory, latestLeafUnder, removeTurn, threadTo } from './services/conversation';
+import { EntityLinks, turnEntities, turnEntityLinks, turnGeneSymbols } from './services/entities';
+import { groundLinks } from './services/evidence';
+import { useTurnEvidence } from './hooks/useTurnEvidence';
+import { useRoute } from './hooks/useRoute';
+import { useScrollSpy } from './hooks/useScrollSpy';
+import { useBatch } from './hooks/useBatch';
+import { createRequestManager, RequestCancelledError } from './services/requestManager';
+import { createAnswerCache } from './services/answerCache';
+import { recordQuery } from './services/queryHistory';
+import { claimAnnotations, createAnnotation, sectionAnnotations, setSectionFeedback } from './services/annotations';
+import { isEmptySection } from './services/overviewSections';
+import { feedbackLogEntry, recordFeedback } from './services/feedbackLog';
+import { assetUrl, currentRoute, navigate, Route, routePath } from './services/router';
+import { isVerified, verifyCitations, withoutUnverifiable } from './services/citationVerification';
+import { CitationComparison, VerificationBadge } from './components/CitationCheck';
+import { formatPValue, formatSlope } from './utils/format';
+import { isTyping } from './utils/keyboard';
+import { answerLanguage, localeInfo, LOCALES, Locale, numberLocale, setAnswersInLocale, setLocale, t } from './services/i18n';
+import { useLocale } from './hooks/useLocale';
+import { MessageKey } from './locales/en';
 
 /**
  * PANKBASE DESIGN SYSTEM - Vertical Timeline Sidebar
  * [ Global Sidebar: Minimalist Timeline ] | [ Main Scroll: 2-Column Insight ]
  */
 
-// --- Types ---
-
-interface TurnData {
-  id: string;
-  query: string;
-  aiOverview: {
-    gene: string;
-    qtl: string;
-    relation: string;
-  };
-  citations: Array<{
-    id: number;
-    title: string;
-    authors: string;
-    journal: string;
-    pmid: string;
-  }>;
-  followUpQuestions: string[];
-}
-
-// --- Constants & Schemas ---
-
-const RESPONSE_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    aiOverview: {
-      type: Type.OBJECT,
-      properties: {
-        gene: { type: Type.STRING },
-        qtl: { type: Type.STRING },
-        relation: { type: Type.STRING },
-      },
-      required: ["gene", "qtl", "relation"],
-    },
-    citations: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.INTEGER },
-          title: { type: Type.STRING },
-          authors: { type: Type.STRING },
-          journal: { type: Type.STRING },
-          pmid: { type: Type.STRING },
-        },
-        required: ["id", "title", "authors", "journal", "pmid"],
-      },
-    },
-    followUpQuestions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING }
-    },
-  },
-  required: ["aiOverview", "citations", "followUpQuestions"],
-};
-
-// --- Mock Data ---
-
-const INITIAL_TURN: TurnData = {
-  id: 'turn-1',
-  query: 'How does the SNP rs2402203 influence the expression of CFTR in Pancreas tissue, as reported by GTEx?',
-  aiOverview: {
-    gene: "The gene CFTR (ENSG0000001626) encodes the cystic fibrosis transmembrane conductance regulator protein, which plays a crucial role in ion transport and is implicated in immune regulation. It is associated with type 1 diabetes (MONDO_0005147), indicating its potential role in autoimmune processes.",
-    qtl: "The SNP rs2402203 is associated with the gene CFTR (ENSG0000001626) in the pancreas. The effect allele is C, with a slope of -2.36, indicating a negative association with gene expression. The nominal p-value is extremely low (4.84 x 10^-17), indicating high statistical significance.",
-    relation: "The gene CFTR (ENSG0000001626) is associated with Type 1 diabetes (MONDO_0005147) as an effector gene, indicating its potential role in the disease's pathogenesis. Evidence includes the identification of genetic variants like SNP rs2402203."
-  },
-  citations: [
-    { id: 1, title: "Fine-mapping, trans-ancestral and genomic analyses identify causal variants...", authors: "Robertson CC, ..., Rich SS", journal: "NATURE GENETICS. 2021", pmid: "34127860" },
-    { id: 2, title: "Interpreting type 1 diabetes risk with genetics and single-cell epigenomics.", authors: "Chiou J, ..., Gaulton KJ", journal: "NATURE. 2021", pmid: "34012112" },
-    { id: 3, title: "Genome-wide association study of pancreatic gene expression.", authors: "Smith A, ..., Doe J", journal: "DIABETES. 2022", pmid: "35012345" },
-    { id: 4, title: "Integrative analysis of eQTLs in human pancreas tissues.", authors: "Lee K, ..., Wang X", journal: "CELL REPORTS. 2023", pmid: "36098765" },
-    { id: 5, title: "Proteogenomic characterization of cystic fibrosis proteins.", authors: "Miller R, ..., Chen L", journal: "GENOME BIOLOGY. 2023", pmid: "37045678" }
-  ],
-  followUpQuestions: [
-    "What are the target cells for CFTR in the pancreas?",
-    "Are there other SNPs in the same locus linked to T1D?",
-    "How does CFTR interact with CSK in autoimmune processes?"
-  ]
-};
-
 // --- Sub-Components ---
 
-const CitationMarker: React.FC<{ num: number }> = ({ num }) => (
-  <span className="inline-flex items-center justify-center w-[16px] h-[16px] border border-[#008c8c] text-[#008c8c] text-[9px] font-black rounded-full align-middle ml-1 mb-0.5 cursor-pointer transition-all duration-200 hover:bg-[#008c8c] hover:text-white">
-    {num}
-  </span>
-);
-
 const SectionHeader: React.FC<{ label: string; count?: number }> = ({ label, count }) => (
   <div className="flex items-center justify-between gap-3 mb-5">
     <div className="flex items-center gap-2">
-      <span className="text-slate-400 text-[10px] font-black tracking-[0.2em] uppercase whitespace-nowrap">{label}</span>
+      <h3 className="text-slate-400 text-[10px] font-black tracking-[0.2em] uppercase whitespace-nowrap">{label}</h3>
       {count !== undefined && (
         <span className="px-1.5 py-0.5 bg-slate-100 text-slate-400 text-[10px] font-black rounded-md">{count}</span>
       )}
@@ -107,192 +67,522 @@ const SectionHeader: React.FC<{ label: string; count?: number }> = ({ label, cou
   </div>
 );
 
-// --- Global Directory (Sidebar) - Minimal Timeline ---
+const SkeletonLines: React.FC<{ lines?: number }> = ({ lines = 3 }) => (
+  <div className="space-y-2.5 animate-pulse py-1">
+    {Array.from({ length: lines }, (_, i) => (
+      <div key={i} className={`h-3 bg-slate-100 rounded-full ${i === lines - 1 ? 'w-2/3' : 'w-full'}`}></div>
+    ))}
+  </div>
+);
 
-const GlobalDirectory: React.FC<{ turns: TurnData[], onNavigate: (id: string) => void }> = ({ turns, onNavigate }) => {
-  return (
-    <nav className="hidden xl:flex flex-col w-[120px] fixed top-[132px] left-10 overflow-y-visible">
-      <div className="relative w-full">
-        <div className="absolute right-[19px] top-1 bottom-1 w-px bg-slate-200"></div>
-
-        <div className="flex flex-col gap-10">
-          {turns.map((turn, idx) => (
-            <div 
-              key={turn.id} 
-              onClick={() => onNavigate(turn.id)}
-              className="group relative flex items-center justify-end cursor-pointer"
-            >
-              <div className="absolute left-full ml-6 opacity-0 group-hover:opacity-100 pointer-events-none transition-all duration-300 translate-x-[-10px] group-hover:translate-x-0 z-[60]">
-                <div className="bg-slate-900 text-white text-[12px] font-medium py-3 px-4 rounded-xl shadow-2xl min-w-[200px] max-w-[300px] border border-white/10 backdrop-blur-md">
-                  {turn.query}
-                  <div className="absolute left-[-6px] top-1/2 -translate-y-1/2 w-0 h-0 border-t-[6px] border-t-transparent border-b-[6px] border-b-transparent border-r-[6px] border-r-slate-900"></div>
-                </div>
-              </div>
 
-              <span className="text-[16px] font-medium text-slate-500 group-hover:text-slate-800 transition-colors mr-4 text-right">
-                Q{idx + 1}
-              </span>
+// --- Content Components ---
 
-              <div className="w-[40px] flex justify-center items-center shrink-0 relative z-10">
-                <div className="w-[10px] h-[10px] bg-slate-400 rounded-full border-[2px] border-white group-hover:bg-[#008c8c] group-hover:scale-150 transition-all duration-300"></div>
-              </div>
-            </div>
+/** What every section renderer shares: the turn's references and entity context, and the note highlights. */
+interface SectionContext {
+  citations: Citation[];
+  symbols?: string[];
+  streaming?: boolean;
+  onCitationSelect?: (id: number) => void;
+  /** Note highlights on one claim of the section being rendered. */
+  highlightsFor: (claim: number) => TextHighlight[];
+  onHighlightSelect: (id: string) => void;
+}
+
+type SectionRenderer<S extends OverviewSection> = React.FC<{ section: S; context: SectionContext }>;
+
+const CitationMarkers: React.FC<{ ids: number[]; context: SectionContext }> = ({ ids, context }) => (
+  <>
+    {ids.map(id => (
+      <CitationMarker
+        key={id}
+        num={id}
+        citation={context.citations.find(c => c.id === id)}
+        pending={context.streaming}
+        onSelect={context.onCitationSelect}
+      />
+    ))}
+  </>
+);
+
+const TextSectionBody: SectionRenderer<TextSection> = ({ section, context }) => (
+  <p className="text-slate-600 leading-relaxed text-[15.5px] font-medium transition-colors group-hover:text-slate-900">
+    {section.body.map((claim, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && ' '}
+        <span data-section={section.id} data-claim={i}>
+          <EntityText text={claim.text} symbols={context.symbols} highlights={context.highlightsFor(i)} onHighlightSelect={context.onHighlightSelect} />
+        </span>
+        <CitationMarkers ids={claim.citationIds} context={context} />
+      </React.Fragment>
+    ))}
+  </p>
+);
+
+const FactsSectionBody: SectionRenderer<FactsSection> = ({ section, context }) => (
+  <dl className="grid grid-cols-[minmax(120px,auto)_1fr] gap-x-6 gap-y-2">
+    {section.body.map((fact, i) => (
+      <React.Fragment key={i}>
+        <dt className="text-slate-400 text-[11px] font-black uppercase tracking-wide pt-0.5">{fact.label}</dt>
+        <dd className="text-slate-700 text-[14px] font-semibold">
+          <EntityText text={fact.value} symbols={context.symbols} />
+        </dd>
+      </React.Fragment>
+    ))}
+  </dl>
+);
+
+const TableSectionBody: SectionRenderer<TableSection> = ({ section, context }) => (
+  <div className="overflow-x-auto custom-scrollbar">
+    <table className="w-full text-left text-[13px]">
+      <thead>
+        <tr className="border-b border-slate-100">
+          {section.body.columns.map((column, i) => (
+            <th key={i} className="py-2 pr-4 text-slate-400 text-[10px] font-black uppercase tracking-widest whitespace-nowrap">{column}</th>
           ))}
-        </div>
-      </div>
-    </nav>
-  );
+        </tr>
+      </thead>
+      <tbody>
+        {section.body.rows.map((row, i) => (
+          <tr key={i} className="border-b border-slate-50">
+            {section.body.columns.map((_, j) => (
+              <td key={j} className="py-2 pr-4 text-slate-700 font-medium">
+                <EntityText text={row[j] ?? ''} symbols={context.symbols} />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/** How each section kind is drawn; see services/overviewSections.ts for the rest of what a kind defines. */
+const SECTION_RENDERERS: { [K in OverviewSectionKind]: SectionRenderer<Extract<OverviewSection, { kind: K }>> } = {
+  text: TextSectionBody,
+  facts: FactsSectionBody,
+  table: TableSectionBody,
 };
 
-// --- Content Components ---
+/** A passage being annotated (new selection) or an existing note being edited, positioned under it. */
+interface NoteTarget {
+  /** Section id. */
+  section: string;
+  claim: number;
+  start: number;
+  end: number;
+  quote: string;
+  annotationId?: string;
+  top: number;
+  left: number;
+}
 
-const AIOverviewContent: React.FC<{ data: TurnData['aiOverview'] }> = ({ data }) => (
-  <div className="space-y-8">
-    <SectionHeader label="AI Overview" />
-    <div className="space-y-6">
-      <div className="group">
-        <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase mb-2">Gene Function:</h4>
-        <p className="text-slate-600 leading-relaxed text-[15.5px] font-medium transition-colors group-hover:text-slate-900">
-          {data.gene} <CitationMarker num={1} />
-        </p>
-      </div>
-      <div className="group">
-        <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase mb-2">QTL Link:</h4>
-        <p className="text-slate-600 leading-relaxed text-[15.5px] font-medium transition-colors group-hover:text-slate-900">
-          {data.qtl} <CitationMarker num={1} /> <CitationMarker num={3} />
-        </p>
-      </div>
-      <div className="group">
-        <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase mb-2">T1D Pathogenesis:</h4>
-        <p className="text-slate-600 leading-relaxed text-[15.5px] font-medium transition-colors group-hover:text-slate-900">
-          {data.relation} <CitationMarker num={2} /> <CitationMarker num={4} /> <CitationMarker num={5} />
-        </p>
+const NOTE_EDITOR_WIDTH = 300;
+
+const AIOverviewContent: React.FC<{
+  data: TurnData['aiOverview'];
+  citations: Citation[];
+  /** Gene symbols named by the turn's structured data, recognised in the text alongside the built-in list. */
+  symbols?: string[];
+  streaming?: boolean;
+  onCitationSelect?: (id: number) => void;
+  feedback?: TurnData['feedback'];
+  annotations?: Annotation[];
+  /** Enables rating; omitted while the answer is incomplete. */
+  onFeedbackChange?: (sectionId: string, feedback?: SectionFeedback) => void;
+  /** Enables selecting passages to annotate. */
+  onAnnotationsChange?: (annotations: Annotation[]) => void;
+}> = ({ data, citations, symbols, streaming, onCitationSelect, feedback, annotations = [], onFeedbackChange, onAnnotationsChange }) => {
+  const [target, setTarget] = useState<NoteTarget | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const editorRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!target) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!editorRef.current?.contains(e.target as Node)) setTarget(null);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [target]);
+
+  const placeUnder = (rect: DOMRect) => {
+    const box = containerRef.current!.getBoundingClientRect();
+    return {
+      top: rect.bottom - box.top + 8,
+      left: Math.max(0, Math.min(rect.left - box.left, box.width - NOTE_EDITOR_WIDTH)),
+    };
+  };
+
+  /** Turns a text selection inside one claim into a note target; selections running past the claim are cut at its end. */
+  const captureSelection = () => {
+    const selection = window.getSelection();
+    if (!onAnnotationsChange || streaming || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    const claimOf = (node: Node) => (node instanceof Element ? node : node.parentElement)?.closest<HTMLElement>('[data-claim]');
+    const claimEl = claimOf(range.startContainer);
+    if (!claimEl || !containerRef.current?.contains(claimEl)) return;
+
+    const text = claimEl.textContent ?? '';
+    const offsetOf = (node: Node, offset: number) => {
+      const prefix = document.createRange();
+      prefix.selectNodeContents(claimEl);
+      prefix.setEnd(node, offset);
+      return prefix.toString().length;
+    };
+    let start = offsetOf(range.startContainer, range.startOffset);
+    let end = claimOf(range.endContainer) === claimEl ? offsetOf(range.endContainer, range.endOffset) : text.length;
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end <= start) return;
+
+    setTarget({
+      section: claimEl.dataset.section ?? '',
+      claim: Number(claimEl.dataset.claim),
+      start,
+      end,
+      quote: text.slice(start, end),
+      ...placeUnder(range.getBoundingClientRect()),
+    });
+  };
+
+  const openNote = (id: string) => {
+    const annotation = annotations.find(a => a.id === id);
+    const mark = containerRef.current?.querySelector(`[data-highlight="${id}"]`);
+    if (!annotation || !mark) return;
+    const { section, claim, start, end, quote } = annotation;
+    setTarget({ section, claim, start, end, quote, annotationId: id, ...placeUnder(mark.getBoundingClientRect()) });
+  };
+
+  const saveNote = (note: string, tags: string[]) => {
+    if (!target || !onAnnotationsChange) return;
+    const { section, claim, start, end, quote, annotationId } = target;
+    onAnnotationsChange(
+      annotationId
+        ? annotations.map(a => (a.id === annotationId ? { ...a, note, tags } : a))
+        : [...annotations, createAnnotation({ section, claim, start, end, quote, note, tags })],
+    );
+    window.getSelection()?.removeAllRanges();
+    setTarget(null);
+  };
+
+  const highlightsFor = (section: string, claim: number): TextHighlight[] => {
+    const marks: TextHighlight[] = claimAnnotations({ aiOverview: data, annotations }, section, claim).map(a => ({
+      id: a.id,
+      start: a.start,
+      end: a.end,
+      title: [a.note, ...a.tags.map(t => `#${t}`)].filter(Boolean).join(' '),
+    }));
+    // The passage of a note still being written is highlighted while its editor is open.
+    return target && !target.annotationId && target.section === section && target.claim === claim
+      ? [{ id: 'pending', start: target.start, end: target.end }, ...marks]
+      : marks;
+  };
+
+  return (
+    <div className="space-y-8">
+      <SectionHeader label={t('overview.title')} />
+      <div ref={containerRef} className="relative space-y-6" onMouseUp={captureSelection} onKeyUp={e => e.shiftKey && captureSelection()}>
+        {streaming && data.length === 0 && [0, 1, 2].map(i => <SkeletonLines key={i} />)}
+        {data.map(section => {
+          const empty = isEmptySection(section);
+          if (empty && !streaming) return null;
+          const Body = SECTION_RENDERERS[section.kind] as SectionRenderer<OverviewSection>;
+          const context: SectionContext = {
+            citations,
+            symbols,
+            streaming,
+            onCitationSelect,
+            highlightsFor: claim => highlightsFor(section.id, claim),
+            onHighlightSelect: openNote,
+          };
+          return (
+            <div key={section.id} className="group">
+              <div className="flex items-center gap-3 mb-2">
+                <h4 className="text-[#008c8c] text-[10px] font-black tracking-widest uppercase">{section.title}</h4>
+                {onFeedbackChange && !empty && (
+                  <SectionFeedbackControl feedback={feedback?.[section.id]} onChange={next => onFeedbackChange(section.id, next)} />
+                )}
+              </div>
+              {empty ? <SkeletonLines /> : <Body section={section} context={context} />}
+              {section.citationIds.length > 0 && (
+                <p className="mt-2 flex items-center text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                  {t('overview.sources')}
+                  <CitationMarkers ids={section.citationIds} context={context} />
+                </p>
+              )}
+              <SectionNotes annotations={sectionAnnotations({ aiOverview: data, annotations }, section.id)} onSelect={openNote} />
+            </div>
+          );
+        })}
+
+        {target && (
+          <div ref={editorRef} className="absolute z-[60]" style={{ top: target.top, left: target.left }}>
+            <NoteEditor
+              key={`${target.annotationId ?? 'new'}-${target.start}`}
+              quote={target.quote}
+              annotation={annotations.find(a => a.id === target.annotationId)}
+              onSave={saveNote}
+              onDelete={target.annotationId ? () => {
+                onAnnotationsChange?.(annotations.filter(a => a.id !== target.annotationId));
+                setTarget(null);
+              } : undefined}
+              onCancel={() => setTarget(null)}
+            />
+          </div>
+        )}
       </div>
     </div>
-  </div>
-);
+  );
+};
 
-const VisualContent: React.FC = () => {
-  const [activeTab, setActiveTab] = useState("Knowledge Graph");
+/** Tab ids are kept in the saved view state, so they stay English; only their labels are translated. */
+const TAB_LABELS: { [tab: string]: MessageKey } = {
+  "Knowledge Graph": 'visual.knowledgeGraph',
+  "Provenance": 'evidence.provenance',
+  "References": 'evidence.references',
+  "PanKbase Links": 'evidence.pankbaseLinks',
+  "External Links": 'evidence.externalLinks',
+};
+
+const VisualContent: React.FC<{
+  graph: TurnData['knowledgeGraph'];
+  qtlRecords: TurnData['qtlRecords'];
+  streaming?: boolean;
+  activeTab?: string;
+  onTabChange: (tab: string) => void;
+  onAsk?: (question: string) => void;
+}> = ({ graph, qtlRecords, streaming, activeTab = "Knowledge Graph", onTabChange, onAsk }) => {
   const tabs = ["Knowledge Graph", "Provenance"];
 
   return (
     <div className="space-y-4">
-      <SectionHeader label="VISUAL MATERIAL" />
-      <div className="flex justify-start gap-8 border-b border-slate-200 mb-4 px-1">
-        {tabs.map(tab => (
-          <button
-            key={tab}
-            onClick={() => setActiveTab(tab)}
-            className={`flex items-center justify-center pb-3 text-[10px] font-medium transition-all relative text-center whitespace-nowrap ${
-              activeTab === tab 
-                ? 'text-[#008c8c]' 
-                : 'text-slate-400 hover:text-slate-600'
-            }`}
-          >
-            {tab}
-            {activeTab === tab && (
-              <div className="absolute bottom-[-1px] left-0 right-0 h-[1px] bg-[#008c8c] z-10"></div>
-            )}
-          </button>
-        ))}
-      </div>
-      <div className="w-full aspect-[16/11] bg-[#f2f7f9] rounded-[24px] border border-slate-100/50 flex items-center justify-center relative overflow-hidden group">
+      <SectionHeader label={t('visual.title')} />
+      <Tabs
+        label={t('visual.title')}
+        tabs={tabs}
+        tabLabel={tab => t(TAB_LABELS[tab])}
+        active={activeTab}
+        onChange={onTabChange}
+        className="flex justify-start gap-8 border-b border-slate-200 mb-4 px-1"
+        tabClassName="whitespace-nowrap"
+        panelClassName="w-full aspect-[16/11] bg-[#f2f7f9] rounded-[24px] border border-slate-100/50 flex items-center justify-center relative overflow-hidden group"
+      >
         {activeTab === "Knowledge Graph" ? (
-          <div className="relative w-12 h-12 flex items-center justify-center">
-            <div className="w-8 h-8 rounded-full border border-[#d1dee2] flex items-center justify-center">
-              <div className="w-px h-10 bg-[#d1dee2] absolute rotate-45"></div>
+          graph.nodes.length > 0 ? (
+            <KnowledgeGraph graph={graph} onAsk={onAsk} />
+          ) : (
+            <div className={`flex flex-col items-center gap-3 ${streaming ? 'animate-pulse' : ''}`}>
+              <div className="relative w-12 h-12 flex items-center justify-center">
+                <div className="w-8 h-8 rounded-full border border-[#d1dee2] flex items-center justify-center">
+                  <div className="w-px h-10 bg-[#d1dee2] absolute rotate-45"></div>
+                </div>
+              </div>
+              {!streaming && (
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('visual.noEntities')}</span>
+              )}
             </div>
-          </div>
+          )
+        ) : qtlRecords.length > 0 ? (
+          <ProvenanceCharts records={qtlRecords} />
         ) : (
-          <div className="flex flex-col items-center gap-3 opacity-50">
+          <div className={`flex flex-col items-center gap-3 opacity-50 ${streaming ? 'animate-pulse' : ''}`}>
             <div className="w-10 h-10 rounded-xl bg-slate-200 flex items-center justify-center text-slate-400">
               <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
               </svg>
             </div>
-            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Chart View</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {streaming ? t('visual.chartView') : t('visual.noQtl')}
+            </span>
           </div>
         )}
-      </div>
+      </Tabs>
     </div>
   );
 };
 
-const EvidenceList: React.FC<{ citations: TurnData['citations'] }> = ({ citations }) => {
-  const [activeTab, setActiveTab] = useState("References");
+const LINK_KIND_LABELS: Record<EntityKind, MessageKey> = {
+  'gene-symbol': 'linkKind.gene',
+  'ensembl-gene': 'linkKind.gene',
+  variant: 'linkKind.variant',
+  disease: 'linkKind.disease',
+  publication: 'linkKind.publication',
+};
+
+/** A request from a citation marker to reveal one reference; `nonce` lets the same id be re-requested. */
+interface CitationFocus {
+  id: number;
+  nonce: number;
+}
+
+const TabNote: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="py-10 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">{children}</p>
+);
+
+const TabSkeleton: React.FC = () => (
+  <>
+    {[0, 1, 2].map(i => (
+      <div key={i} className="p-4 bg-white border border-slate-100 rounded-2xl">
+        <SkeletonLines lines={2} />
+      </div>
+    ))}
+  </>
+);
+
+const TabError: React.FC<{ message: string; onRetry: () => void }> = ({ message, onRetry }) => (
+  <div className="p-4 bg-rose-50/60 border border-rose-100 rounded-2xl">
+    <h4 className="text-rose-600 text-[10px] font-black tracking-widest uppercase">{t('evidence.pankgraphUnavailable')}</h4>
+    <p className="text-slate-600 text-[11px] font-medium mt-1 break-words">{message}</p>
+    <button
+      onClick={onRetry}
+      className="mt-3 h-7 px-3 bg-white border border-rose-200 text-rose-600 rounded-lg font-black text-[9px] uppercase tracking-widest hover:bg-rose-100 transition-all"
+    >
+      {t('common.retry')}
+    </button>
+  </div>
+);
+
+const EvidenceList: React.FC<{
+  citations: TurnData['citations'];
+  /** Identifiers recognised in this turn; their PanKgraph records back the Provenance and PanKbase tabs. */
+  entities: EntityMention[];
+  /** PanKbase and external links for those identifiers. */
+  links: EntityLinks;
+  streaming?: boolean;
+  focus?: CitationFocus;
+  activeTab?: string;
+  onTabChange: (tab: string) => void;
+  /** Number of unverifiable references left out of `citations`; shown next to the toggle that hides them. */
+  hiddenCount: number;
+  hideUnverifiable: boolean;
+  onHideUnverifiableChange: (hide: boolean) => void;
+}> = ({ citations, entities, links, streaming, focus, activeTab = "References", onTabChange, hiddenCount, hideUnverifiable, onHideUnverifiableChange }) => {
+  const { state: evidence, retry } = useTurnEvidence(pankgraph, entities, !streaming);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  const [comparingId, setComparingId] = useState<number | null>(null);
+  const citationRefs = useRef<{ [id: number]: HTMLDivElement | null }>({});
   const tabs = ["References", "Provenance", "PanKbase Links", "External Links"];
 
-  const mockEmpirical = [
-    { id: 'E1', title: 'GTEx V8 Expression Analysis', detail: 'Significant eQTL detected in Pancreas tissue', metric: 'P-Val: 4.84e-17' },
-    { id: 'E2', title: 'ATAC-Seq Chromatin Accessibility', detail: 'High accessibility score in Islet cells at locus', metric: 'Score: 0.92' }
-  ];
+  useEffect(() => {
+    if (!focus) return;
+    onTabChange("References");
+    setHighlightedId(focus.id);
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focus]);
 
-  const mockInternal = [
-    { id: 'I1', title: 'CFTR Gene Entity', detail: 'View full gene card and associated pathways', type: 'GENE' },
-    { id: 'I2', title: 'rs2402203 Variant', detail: 'Explore population frequency and phenotype associations', type: 'SNP' }
-  ];
+  useEffect(() => {
+    if (highlightedId !== null) {
+      citationRefs.current[highlightedId]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [highlightedId]);
 
-  const mockExternal = [
-    { id: 'X1', title: 'dbSNP Entry: rs2402203', detail: 'National Center for Biotechnology Information', source: 'NCBI' },
-    { id: 'X2', title: 'Ensembl Browser: CFTR', detail: 'Transcript and sequence data', source: 'Ensembl' },
-    { id: 'X3', title: 'Open Targets Genetics', detail: 'Locus-to-gene assignment evidence', source: 'Open Targets' }
-  ];
+  // Provenance and PanKbase links only show what PanKgraph has records for.
+  const records = evidence.status === 'ready' ? evidence.evidence : null;
+  const provenance = records ? [
+    ...[...records.qtl].sort((a, b) => a.pValue - b.pValue).map(r => ({
+      id: `qtl:${r.variant}:${r.gene}:${r.tissue}:${r.dataset}`,
+      badge: 'E',
+      title: t('evidence.qtlTitle', { dataset: r.dataset, tissue: r.tissue }),
+      detail: t('evidence.qtlDetail', { variant: r.variant, gene: r.gene, allele: r.effectAllele }),
+      metric: t('evidence.qtlMetric', { pValue: formatPValue(r.pValue, numberLocale()), slope: formatSlope(r.slope, numberLocale()) }),
+    })),
+    ...[...records.accessibility].sort((a, b) => b.score - a.score).map(a => ({
+      id: `atac:${a.variant}:${a.cellType}`,
+      badge: 'A',
+      title: t('evidence.atacTitle', { dataset: a.dataset, cellType: a.cellType }),
+      detail: t('evidence.atacDetail', { region: a.region, variant: a.variant }),
+      metric: t('evidence.atacMetric', { score: a.score.toLocaleString(numberLocale(), { minimumFractionDigits: 2, maximumFractionDigits: 2 }) }),
+    })),
+  ] : [];
+  const internalLinks = records ? groundLinks(links.internal, records) : [];
+  const recordTab = activeTab === "Provenance" || activeTab === "PanKbase Links";
 
   const getCount = () => {
     switch(activeTab) {
       case "References": return citations.length;
-      case "Provenance": return mockEmpirical.length;
-      case "PanKbase Links": return mockInternal.length;
-      case "External Links": return mockExternal.length;
+      case "Provenance": return records ? provenance.length : undefined;
+      case "PanKbase Links": return records ? internalLinks.length : undefined;
+      case "External Links": return links.external.length;
       default: return 0;
     }
   };
 
   return (
     <div className="space-y-4">
-      <SectionHeader label="EVIDENCES" count={getCount()} />
-
-      <div className="flex justify-between border-b border-slate-200 mb-4 px-1">
-        {tabs.map(tab => (
-          <button
-            key={tab}
-            onClick={() => setActiveTab(tab)}
-            className={`flex items-center justify-center pb-3 text-[10px] font-medium transition-all relative text-center leading-3 max-w-[60px] ${
-              activeTab === tab ? 'text-[#008c8c]' : 'text-slate-400 hover:text-slate-600'
-            }`}
-          >
-            {tab}
-            {activeTab === tab && <div className="absolute bottom-[-1px] left-0 right-0 h-[1px] bg-[#008c8c] z-10"></div>}
-          </button>
-        ))}
-      </div>
+      <SectionHeader label={t('evidence.title')} count={getCount()} />
+
+      <Tabs
+        label={t('evidence.title')}
+        tabs={tabs}
+        tabLabel={tab => t(TAB_LABELS[tab])}
+        active={activeTab}
+        onChange={onTabChange}
+        className="flex justify-between border-b border-slate-200 mb-4 px-1"
+        tabClassName="leading-3 max-w-[60px]"
+        panelClassName="flex flex-col gap-3 max-h-[380px] overflow-y-auto pr-3 custom-scrollbar"
+      >
+        {activeTab === "References" && streaming && citations.length === 0 && <TabSkeleton />}
+        {activeTab === "References" && !streaming && (citations.length > 0 || hiddenCount > 0) && (
+          <label className="flex items-center justify-between gap-3 px-1 text-[10px] font-bold text-slate-400 cursor-pointer select-none">
+            <span>{t('evidence.hideUnverifiable')}{hiddenCount > 0 ? ` ${t('evidence.hiddenCount', { count: hiddenCount })}` : ''}</span>
+            <input
+              type="checkbox"
+              checked={hideUnverifiable}
+              onChange={e => onHideUnverifiableChange(e.target.checked)}
+              className="accent-[#008c8c]"
+            />
+          </label>
+        )}
+        {activeTab === "References" && !streaming && citations.length === 0 && <TabNote>{t('evidence.noReferences')}</TabNote>}
 
-      <div className="flex flex-col gap-3 max-h-[380px] overflow-y-auto pr-3 custom-scrollbar">
         {activeTab === "References" && citations.map(c => (
-          <div key={c.id} className="p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all group/cit">
+          <div
+            key={c.id}
+            ref={el => { citationRefs.current[c.id] = el; }}
+            className={`p-4 border rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all group/cit ${
+              highlightedId === c.id ? 'bg-[#008c8c]/5 border-[#008c8c]/40 ring-2 ring-[#008c8c]/20' : 'bg-white border-slate-100'
+            }`}
+          >
             <div className="flex gap-4">
               <div className="w-6 h-6 rounded-full border border-[#008c8c] text-[#008c8c] text-[10px] font-black flex items-center justify-center shrink-0 transition-all group-hover/cit:bg-[#008c8c] group-hover/cit:text-white">
                 {c.id}
               </div>
-              <div className="min-w-0">
-                <h5 className="text-[#008c8c] font-bold text-[11px] leading-tight line-clamp-2 group-hover/cit:underline underline-offset-4 decoration-[#008c8c]/30">
+              <div className="min-w-0 flex-1">
+                <h4 className="text-[#008c8c] font-bold text-[11px] leading-tight line-clamp-2 group-hover/cit:underline underline-offset-4 decoration-[#008c8c]/30">
                   {c.title}
-                </h5>
+                </h4>
                 <p className="text-slate-400 text-[9px] font-bold uppercase mt-1 truncate">{c.journal} • PMID {c.pmid}</p>
+                <div className="flex items-center gap-2 mt-2">
+                  <VerificationBadge verification={c.verification} />
+                  {c.verification && c.verification.status !== 'unavailable' && (
+                    <button
+                      onClick={() => setComparingId(id => (id === c.id ? null : c.id))}
+                      className="text-slate-400 hover:text-[#008c8c] text-[9px] font-black uppercase tracking-widest"
+                    >
+                      {comparingId === c.id ? t('evidence.hideDetails') : t('evidence.compare')}
+                    </button>
+                  )}
+                </div>
+                {comparingId === c.id && <CitationComparison citation={c} />}
               </div>
             </div>
           </div>
         ))}
 
-        {activeTab === "Provenance" && mockEmpirical.map(item => (
+        {recordTab && (streaming || evidence.status === 'loading') && <TabSkeleton />}
+        {recordTab && !streaming && evidence.status === 'error' && <TabError message={evidence.message} onRetry={retry} />}
+        {activeTab === "Provenance" && records && provenance.length === 0 && <TabNote>{t('evidence.noRecords')}</TabNote>}
+
+        {activeTab === "Provenance" && provenance.map(item => (
           <div key={item.id} className="p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all group/emp">
             <div className="flex gap-4">
               <div className="w-8 h-8 rounded-lg bg-[#008c8c]/10 text-[#008c8c] text-[12px] font-black flex items-center justify-center shrink-0">
-                E
+                {item.badge}
               </div>
               <div className="min-w-0 flex-1">
-                <h5 className="text-slate-700 font-bold text-[11px] leading-tight">{item.title}</h5>
+                <h4 className="text-slate-700 font-bold text-[11px] leading-tight">{item.title}</h4>
                 <p className="text-slate-500 text-[11px] mt-1 leading-relaxed">{item.detail}</p>
                 <span className="inline-block mt-2 px-2 py-0.5 bg-[#008c8c]/10 text-[#008c8c] text-[10px] font-bold rounded-md">{item.metric}</span>
               </div>
@@ -300,96 +590,173 @@ const EvidenceList: React.FC<{ citations: TurnData['citations'] }> = ({ citation
           </div>
         ))}
 
-        {activeTab === "PanKbase Links" && mockInternal.map(item => (
-          <div key={item.id} className="p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all cursor-pointer group">
+        {activeTab === "PanKbase Links" && records && internalLinks.length === 0 && <TabNote>{t('evidence.noPankbase')}</TabNote>}
+        {activeTab === "External Links" && !streaming && links.external.length === 0 && <TabNote>{t('evidence.noIdentifiers')}</TabNote>}
+
+        {activeTab === "PanKbase Links" && internalLinks.map(item => (
+          <a key={item.href} href={item.href} target="_blank" rel="noopener noreferrer" className="block p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all cursor-pointer group">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-4">
                 <div className="w-10 h-10 rounded-full bg-[#008c8c]/10 flex items-center justify-center text-[#008c8c] font-black text-[11px]">PK</div>
                 <div>
-                  <h5 className="text-slate-800 font-bold text-[11px] group-hover:text-[#008c8c] transition-colors">{item.title}</h5>
-                  <p className="text-slate-400 text-[11px] font-bold tracking-wide uppercase mt-0.5">{item.type}</p>
+                  <h4 className="text-slate-800 font-bold text-[11px] group-hover:text-[#008c8c] transition-colors">{item.title}</h4>
+                  <p className="text-slate-500 text-[11px] mt-0.5">{item.detail}</p>
+                  <p className="text-slate-400 text-[11px] font-bold tracking-wide uppercase mt-0.5">{t(LINK_KIND_LABELS[item.kind])}</p>
                 </div>
               </div>
               <svg className="w-5 h-5 text-slate-300 group-hover:text-[#008c8c] transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
             </div>
-          </div>
+          </a>
         ))}
 
-        {activeTab === "External Links" && mockExternal.map(item => (
-          <div key={item.id} className="p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all cursor-pointer group">
+        {activeTab === "External Links" && links.external.map(item => (
+          <a key={item.href} href={item.href} target="_blank" rel="noopener noreferrer" className="block p-4 bg-white border border-slate-100 rounded-2xl hover:border-[#008c8c]/30 hover:shadow-md transition-all cursor-pointer group">
             <div className="flex gap-4 items-start">
               <div className="w-8 h-8 rounded-full border border-slate-100 bg-slate-50 text-slate-400 group-hover:text-[#008c8c] group-hover:border-[#008c8c]/30 transition-all flex items-center justify-center shrink-0">
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
               </div>
               <div className="min-w-0">
-                <h5 className="text-slate-700 font-bold text-[11px] leading-tight group-hover:text-[#008c8c] transition-colors">{item.title}</h5>
+                <h4 className="text-slate-700 font-bold text-[11px] leading-tight group-hover:text-[#008c8c] transition-colors">{item.title}</h4>
                 <p className="text-slate-400 text-[10px] font-bold uppercase mt-1">{item.source}</p>
               </div>
             </div>
-          </div>
+          </a>
         ))}
-      </div>
+      </Tabs>
     </div>
   );
 };
 
-// ✅ NEW HEADER (as you provided) — with path fixes (/img/...)
-const Header: React.FC = () => (
+const TurnErrorCard: React.FC<{ error: NonNullable<TurnData['error']>; onRetry: () => void }> = ({ error, onRetry }) => (
+  <div className="p-12">
+    <div className="p-6 bg-rose-50/60 border border-rose-100 rounded-2xl flex items-start gap-5">
+      <div className="w-10 h-10 rounded-full bg-rose-100 text-rose-500 font-black text-[16px] flex items-center justify-center shrink-0">!</div>
+      <div className="min-w-0 flex-1">
+        <h3 className="text-rose-600 text-[10px] font-black tracking-widest uppercase mb-2">
+          {error.kind === 'invalid-response' ? t('turn.errorMalformed') : t('turn.errorUnavailable')}
+        </h3>
+        <p className="text-slate-600 text-[14px] font-medium leading-relaxed break-words">{error.message}</p>
+        <button
+          onClick={onRetry}
+          className="mt-4 h-9 px-5 bg-white border border-rose-200 text-rose-600 rounded-xl font-black text-[11px] uppercase tracking-widest hover:bg-rose-100 transition-all"
+        >
+          {t('common.retry')}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+// ✅ NEW HEADER (as you provided) — logo paths go through assetUrl so they resolve on deep routes
+const Header: React.FC<{
+  onOpenSessions: () => void;
+  onOpenBatch: () => void;
+  onOpenFeedback: () => void;
+  onOpenEvidence: () => void;
+  locale: Locale;
+  answersInLocale: boolean;
+}> = ({ onOpenSessions, onOpenBatch, onOpenFeedback, onOpenEvidence, locale, answersInLocale }) => (
   <header className="fixed top-0 left-0 right-0 bg-white z-50">
     <div className="max-w-[1600px] mx-auto px-6 h-[72px] flex items-center justify-between">
       {/* Left: Branding (logo image) */}
-      <a href="#" className="flex items-center">
+      <RouteLink to={{ name: 'home' }} className="flex items-center">
         <img
-          src="img/pank.svg"
+          src={assetUrl('img/pank.svg')}
           alt="PanKbase"
           className="h-10 w-auto"
         />
-      </a>
+      </RouteLink>
 
       {/* Right: two-row layout with logo spanning 2 rows */}
       <div className="grid grid-rows-2 grid-cols-[1fr_auto] items-center gap-x-4">
         {/* Row 1, Col 1: utilities (right aligned) */}
         <div className="row-start-1 col-start-1 flex items-center justify-end gap-5 text-[11px] font-semibold text-slate-700">
-          <a href="#" className="hover:text-[#008c8c]">Funding Opportunities</a>
+          <RouteLink to={{ name: 'page', page: 'funding' }} className="hover:text-[#008c8c]">{t('header.funding')}</RouteLink>
 
           <button className="flex items-center gap-1.5 hover:text-[#008c8c]">
-            <span>Search</span>
+            <span>{t('header.search')}</span>
             <span aria-hidden>🔍</span>
           </button>
 
-          <a href="#" className="hover:text-[#008c8c]">Analysis</a>
+          <RouteLink to={{ name: 'page', page: 'analysis' }} className="hover:text-[#008c8c]">{t('header.analysis')}</RouteLink>
 
-          <a href="#" className="flex items-center gap-1.5 hover:text-[#008c8c]">
-            <span>Login</span>
+          <button onClick={onOpenSessions} className="flex items-center gap-1.5 hover:text-[#008c8c]">
+            <span>{t('header.sessions')}</span>
+            <span aria-hidden>🗂</span>
+          </button>
+
+          <button onClick={onOpenBatch} className="flex items-center gap-1.5 hover:text-[#008c8c]">
+            <span>{t('header.batch')}</span>
+            <span aria-hidden>📋</span>
+          </button>
+
+          <button onClick={onOpenFeedback} className="flex items-center gap-1.5 hover:text-[#008c8c]">
+            <span>{t('header.feedback')}</span>
+            <span aria-hidden>📝</span>
+          </button>
+
+          <button onClick={onOpenEvidence} className="flex items-center gap-1.5 hover:text-[#008c8c]">
+            <span>{t('header.evidence')}</span>
+            <span aria-hidden>📚</span>
+          </button>
+
+          <RouteLink to={{ name: 'page', page: 'login' }} className="flex items-center gap-1.5 hover:text-[#008c8c]">
+            <span>{t('header.login')}</span>
             <span aria-hidden>👤</span>
-          </a>
+          </RouteLink>
+
+          <select
+            value={locale}
+            onChange={e => setLocale(e.target.value as Locale)}
+            aria-label={t('header.language')}
+            className="bg-transparent font-semibold outline-none cursor-pointer hover:text-[#008c8c]"
+          >
+            {LOCALES.map(info => (
+              <option key={info.locale} value={info.locale}>{info.label}</option>
+            ))}
+          </select>
+
+          {locale !== 'en' && (
+            <label
+              title={t('header.answerLanguageHint', { language: localeInfo().label })}
+              className="flex items-center gap-1.5 cursor-pointer select-none hover:text-[#008c8c]"
+            >
+              <input
+                type="checkbox"
+                checked={answersInLocale}
+                onChange={e => setAnswersInLocale(e.target.checked)}
+                className="accent-[#008c8c]"
+              />
+              {t('header.answerLanguage', { language: localeInfo().label })}
+            </label>
+          )}
         </div>
 
         {/* Row 2, Col 1: nav (right aligned) */}
         <div className="row-start-2 col-start-1 flex items-center justify-end gap-4">
-          <a
-            href="#"
+          <RouteLink
+            to={{ name: 'page', page: 'pankgraph' }}
             className="h-8 px-4 bg-[#008c8c] text-white flex items-center justify-center rounded-[8px] shadow-sm font-bold text-[13px]"
           >
             PanKgraph
-          </a>
+          </RouteLink>
 
-          <a href="#" className="text-[#008c8c] font-bold text-[13px] hover:underline">
-            Integrated Cell Browser
-          </a>
+          <RouteLink to={{ name: 'page', page: 'cell-browser' }} className="text-[#008c8c] font-bold text-[13px] hover:underline">
+            {t('header.cellBrowser')}
+          </RouteLink>
 
           <span className="h-4 w-px bg-slate-200 mx-1" />
 
-          <a href="#" className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">Data</a>
-          <a href="#" className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">Resources</a>
-          <a href="#" className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">About</a>
-          <a href="#" className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">Help</a>
+          <RouteLink to={{ name: 'page', page: 'data' }} className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">{t('header.data')}</RouteLink>
+          <RouteLink to={{ name: 'page', page: 'resources' }} className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">{t('header.resources')}</RouteLink>
+          <RouteLink to={{ name: 'page', page: 'about' }} className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">{t('header.about')}</RouteLink>
+          <RouteLink to={{ name: 'page', page: 'help' }} className="font-bold text-[13px] text-slate-800 hover:text-[#008c8c]">{t('header.help')}</RouteLink>
         </div>
 
         {/* Col 2: HiRN logo spans two rows */}
         <div className="col-start-2 row-span-2 flex items-center justify-end pl-3">
           <img
-            src="img/hirn.svg"
+            src={assetUrl('img/hirn.svg')}
             alt="HiRN"
             className="h-12 w-auto"
           />
@@ -411,52 +778,366 @@ const Header: React.FC = () => (
 
 // --- Main App ---
 
+const answerProvider = createAnswerProvider();
+const pankgraph = createPankgraphClient();
+const pubmedSource = createPubmedSource();
+const answerServices: AnswerServices = { provider: answerProvider, pankgraph, pubmed: pubmedSource };
+const requests = createRequestManager({
+  answer: (query, options) => answerQuestion(answerServices, query, options),
+  providerName: answerProvider.name,
+  cache: createAnswerCache(),
+});
+
+const HIDE_UNVERIFIABLE_KEY = 'pankbase-hide-unverifiable';
+
+const initialRoute = currentRoute();
+
 const App: React.FC = () => {
-  const [turns, setTurns] = useState<TurnData[]>([INITIAL_TURN]);
-  const [isLoading, setIsLoading] = useState(false);
+  const route = useRoute();
+  const { locale, answersInLocale } = useLocale();
+  const {
+    ready, backend, sessions, currentId, currentTitle, turns, setTurns, view, setTurnView,
+    activeLeafId, setActiveLeafId, createSession, openSession, addSession, renameSession, deleteSession,
+  } = useSessions(initialRoute.name === 'session' ? initialRoute.sessionId : undefined);
+  const [missingSession, setMissingSession] = useState<string | null>(null);
+  const routedSessionId = useRef<string | null>(null);
+  const newTurn = useRef<string | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [showEvidence, setShowEvidence] = useState(false);
+  const batch = useBatch((query, signal) => answerQuestion(answerServices, query, { signal, language: answerLanguage() }));
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const scrollRefs = useRef<{ [id: string]: HTMLElement | null }>({});
+  // Retry notices of answers that failed once and are being asked again.
+  const [retrying, setRetrying] = useState<{ [turnId: string]: string }>({});
+  // Read out by screen readers when an answer arrives, since the card may be far from focus.
+  const [announcement, setAnnouncement] = useState('');
+  // Queued requests read the thread when they start, after the render that queued them.
+  const latestTurns = useRef(turns);
+  latestTurns.current = turns;
+  const [citationFocus, setCitationFocus] = useState<{ [turnId: string]: CitationFocus }>({});
+  const [hideUnverifiable, setHideUnverifiable] = useState(() => localStorage.getItem(HIDE_UNVERIFIABLE_KEY) === '1');
+  const verifying = useRef(new Set<string>());
 
+  // The page shows one thread of the conversation tree: root → active leaf.
+  const thread = threadTo(turns, activeLeafId);
+  const threadEnd = thread[thread.length - 1];
+  const forking = !!threadEnd && turns.some(t => t.parentId === threadEnd.id);
   const showSidebar = turns.length > 1;
+  const inView = useScrollSpy(scrollRefs, thread.map(t => t.id));
+  const pinnedIds = turns.filter(t => view[t.id]?.pinned).map(t => t.id);
+  // Selected turns that still exist; deleting one drops it from the comparison.
+  const compared = compareIds.map(id => turns.find(t => t.id === id)).filter((t): t is TurnData => !!t);
+
+  const updateTurn = (turnId: string, update: (turn: TurnData) => TurnData) => {
+    setTurns(prev => prev.map(t => (t.id === turnId ? update(t) : t)));
+  };
+
+  // Turns saved before verification existed (and the demo turn) are checked once when they are shown.
+  useEffect(() => {
+    turns
+      .filter(t => !t.status && !t.error && !isVerified(t) && !verifying.current.has(t.id))
+      .forEach(async turn => {
+        verifying.current.add(turn.id);
+        const citations = await verifyCitations(turn.citations, pubmedSource);
+        updateTurn(turn.id, t => ({ ...t, citations }));
+        verifying.current.delete(turn.id);
+      });
+  }, [turns]);
+
+  const handleHideUnverifiable = (hide: boolean) => {
+    setHideUnverifiable(hide);
+    localStorage.setItem(HIDE_UNVERIFIABLE_KEY, hide ? '1' : '0');
+  };
 
-  const handleAsk = async (query: string) => {
+  const clearRetrying = (turnId: string) =>
+    setRetrying(prev => {
+      const { [turnId]: _done, ...rest } = prev;
+      return rest;
+    });
+
+  /**
+   * Asks `query` as a follow-up of `parentId` (by default the end of the visible thread).
+   * Adds a placeholder card and queues the question; it is answered after any earlier ones,
+   * from the answer cache when the same question was asked in the same context before.
+   */
+  const handleAsk = async (query: string, parentId: string | undefined = threadEnd?.id, refresh = false) => {
     if (!query.trim()) return;
 
-    setIsLoading(true);
     setInputValue('');
+    recordQuery(query);
+
+    // The card appears right away with skeletons; sections fill in as chunks parse.
+    const turnId = `turn-${Date.now()}`;
+    setTurns(prev => [...prev, { id: turnId, parentId, query, ...EMPTY_ANSWER, status: 'queued' }]);
+    setActiveLeafId(turnId);
+    newTurn.current = turnId;
+
+    let started = false;
+    try {
+      const { answer, cachedAt } = await requests.submit(turnId, query, {
+        refresh,
+        language: answerLanguage(),
+        history: () => (parentId ? buildHistory(threadTo(latestTurns.current, parentId)) : []),
+        onStart: () => {
+          started = true;
+          updateTurn(turnId, t => ({ ...t, status: 'streaming' }));
+        },
+        onPartial: partial => updateTurn(turnId, t => ({
+          ...t,
+          aiOverview: partial.aiOverview ?? t.aiOverview,
+          citations: partial.citations ?? t.citations,
+          knowledgeGraph: partial.knowledgeGraph ?? t.knowledgeGraph,
+          qtlRecords: partial.qtlRecords ?? t.qtlRecords,
+          followUpQuestions: partial.followUpQuestions ?? t.followUpQuestions,
+        })),
+        onRetry: ({ attempt, of, delayMs, error }) => {
+          setRetrying(prev => ({
+            ...prev,
+            [turnId]: t('turn.retrying', { message: error.message, seconds: Math.ceil(delayMs / 1000), attempt, of }),
+          }));
+          // The next attempt streams from scratch.
+          updateTurn(turnId, t => ({ ...t, ...EMPTY_ANSWER }));
+        },
+      });
+      updateTurn(turnId, t => ({ id: t.id, parentId: t.parentId, query: t.query, ...answer, cachedAt }));
+      setAnnouncement(t('turn.answerReady', { query }));
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        // Cancelled before it started: nothing to keep. Stopped mid-stream: keep whatever partial content arrived.
+        if (!started) {
+          setTurns(prev => removeTurn(prev, turnId));
+          setActiveLeafId(prev => (prev === turnId ? parentId : prev));
+        } else updateTurn(turnId, t => ({ ...t, status: 'stopped' }));
+      } else {
+        // Failed or malformed answers become an error card rather than fake content.
+        updateTurn(turnId, t => ({ id: t.id, parentId: t.parentId, query: t.query, ...EMPTY_ANSWER, error: toTurnError(err) }));
+        setAnnouncement(t('turn.answerFailed', { query }));
+      }
+    } finally {
+      clearRetrying(turnId);
+    }
+  };
+
+  const handleStop = (turnId: string) => {
+    requests.cancel(turnId);
+  };
+
+  // Requests belong to the session they were asked in; switching sessions drops them.
+  useEffect(() => () => requests.cancelAll(), [currentId]);
 
-    // ✅ 纯展示：模拟请求延迟 + 追加一张“新卡片”
-    setTimeout(() => {
-      const turnId = `turn-${Date.now()}`;
-
-      setTurns(prev => [
-        ...prev,
-        {
-          ...INITIAL_TURN,          // 直接复用 mock 内容
-          id: turnId,
-          query,                    // 只换问题
-          // 你也可以顺便在 overview 里加点变化，显得更“像真的”
-          aiOverview: {
-            ...INITIAL_TURN.aiOverview,
-            gene: `(${query})\n\n` + INITIAL_TURN.aiOverview.gene,
-          },
-        }
-      ]);
-
-      setIsLoading(false);
-      setTimeout(() => navigateTo(turnId), 100);
-    }, 500);
+  /** Asks again in place of the failed (or cached) turn; `refresh` skips the cache. */
+  const handleRetry = (turn: TurnData, refresh = false) => {
+    setTurns(prev => removeTurn(prev, turn.id));
+    handleAsk(turn.query, turn.parentId, refresh);
   };
 
+  /** Adds a batch result to the session as if it had been asked here, following the visible thread. */
+  const handlePromote = (query: string, answer: TurnAnswer) => {
+    const turnId = `turn-${Date.now()}`;
+    setTurns(prev => [...prev, { id: turnId, parentId: threadEnd?.id, query, ...answer }]);
+    setActiveLeafId(turnId);
+    newTurn.current = turnId;
+    setShowBatch(false);
+  };
+
+  const handleDelete = (turnId: string) => {
+    const turn = turns.find(t => t.id === turnId);
+    if (!turn) return;
+    setTurns(prev => removeTurn(prev, turnId));
+    // A deleted leaf hands the thread to its parent; deleting mid-thread keeps the leaf.
+    if (turnId === threadEnd?.id) setActiveLeafId(turn.parentId);
+    // Turn numbers after it shift, so a turn URL would now point elsewhere.
+    if (route.name === 'session' && route.turn) navigate({ name: 'session', sessionId: currentId }, { replace: true });
+  };
+
+  /** Saves the rating on the turn and, unless it was cleared, appends it to the feedback log. */
+  const handleFeedback = (turn: TurnData, section: string, feedback?: SectionFeedback) => {
+    updateTurn(turn.id, t => setSectionFeedback(t, section, feedback));
+    if (feedback) recordFeedback(feedbackLogEntry(currentId, turn, section, feedback));
+  };
+
+  /** Selects a turn for comparison; picking a third replaces the one selected first. */
+  const toggleCompare = (turnId: string) => {
+    setCompareIds(prev =>
+      prev.includes(turnId) ? prev.filter(id => id !== turnId) : [...prev.filter(id => turns.some(t => t.id === id)), turnId].slice(-2),
+    );
+  };
+
+  /** Ends the visible thread at this turn; the next question starts a new branch from it. */
+  const handleBranch = (turnId: string) => {
+    setActiveLeafId(turnId);
+    goToTurn(turnId);
+  };
 
   const navigateTo = (id: string) => {
     const el = scrollRefs.current[id];
-    if (el) window.scrollTo({ top: el.offsetTop - 120, behavior: 'smooth' });
+    if (!el) return;
+    window.scrollTo({ top: el.offsetTop - 120, behavior: 'smooth' });
+    // Keyboard and screen-reader users continue from the turn they moved to, unless they are typing the next question.
+    if (!isTyping(document.activeElement)) el.focus({ preventScroll: true });
   };
 
+  /** Turns on another branch switch to that branch (followed to its latest turn) first. */
+  const openTurn = (id: string) => {
+    if (thread.some(t => t.id === id)) {
+      navigateTo(id);
+      return;
+    }
+    setActiveLeafId(latestLeafUnder(turns, id));
+    setTimeout(() => navigateTo(id), 100);
+  };
+
+  /**
+   * Gives the turn its own history entry (/session/:id/turn/:n, n counting turns in the order they were asked);
+   * the route effect below scrolls to it.
+   */
+  const goToTurn = (turnId: string) => {
+    const target: Route = { name: 'session', sessionId: currentId, turn: turns.findIndex(t => t.id === turnId) + 1 };
+    if (routePath(target) === window.location.pathname) setTimeout(() => openTurn(turnId), 100);
+    else navigate(target);
+  };
+
+  // --- Routing ---
+
+  // URL → session: deep links, back/forward and the Sessions panel all open sessions by changing the route.
+  useEffect(() => {
+    if (!ready || route.name !== 'session') return;
+    if (route.sessionId === currentId) {
+      setMissingSession(null);
+      return;
+    }
+    const id = route.sessionId;
+    openSession(id).then(found => setMissingSession(found ? null : id));
+  }, [ready, route]);
+
+  // Session → URL: a session replaced from inside (new, imported, deleted) gets its own history entry.
+  useEffect(() => {
+    if (!ready) return;
+    const previous = routedSessionId.current;
+    routedSessionId.current = currentId;
+    if (route.name === 'home') navigate({ name: 'session', sessionId: currentId }, { replace: true });
+    else if (previous && previous !== currentId && route.name === 'session' && [previous, missingSession].includes(route.sessionId)) {
+      navigate({ name: 'session', sessionId: currentId });
+    }
+  }, [ready, currentId, route.name]);
+
+  // A question just asked gets its route once its card is in `turns`.
+  useEffect(() => {
+    const id = newTurn.current;
+    if (!id || !turns.some(t => t.id === id)) return;
+    newTurn.current = null;
+    goToTurn(id);
+  }, [turns]);
+
+  // Turn routes scroll to their turn once its session is showing.
+  useEffect(() => {
+    if (!ready || route.name !== 'session' || route.sessionId !== currentId || !route.turn) return;
+    const turn = turns[route.turn - 1];
+    if (turn) setTimeout(() => openTurn(turn.id), 100);
+  }, [ready, route, currentId]);
+
+  const sessionPanel = showSessions && (
+    <SessionPanel
+      sessions={sessions}
+      currentId={currentId}
+      currentTitle={currentTitle}
+      currentTurns={turns}
+      backend={backend}
+      onClose={() => setShowSessions(false)}
+      onImport={async text => {
+        await addSession(importSession(text));
+        setShowSessions(false);
+      }}
+      onCreate={() => { createSession(); setShowSessions(false); }}
+      onOpen={id => { navigate({ name: 'session', sessionId: id }); setShowSessions(false); }}
+      onRename={renameSession}
+      onDelete={deleteSession}
+    />
+  );
+
+  const batchPanel = showBatch && (
+    <BatchPanel
+      rows={batch.rows}
+      running={batch.running}
+      counts={batch.counts}
+      onStart={batch.start}
+      onCancel={batch.cancel}
+      onClear={batch.clear}
+      onPromote={handlePromote}
+      onClose={() => setShowBatch(false)}
+    />
+  );
+
+  const feedbackPanel = showFeedback && <FeedbackLogPanel onClose={() => setShowFeedback(false)} />;
+
+  const evidencePanel = showEvidence && (
+    <EvidenceExplorer
+      turns={turns}
+      onJump={(turnId, citationId) => {
+        setShowEvidence(false);
+        goToTurn(turnId);
+        if (citationId !== undefined) setCitationFocus(prev => ({ ...prev, [turnId]: { id: citationId, nonce: Date.now() } }));
+      }}
+      onClose={() => setShowEvidence(false)}
+    />
+  );
+
+  const comparison = showComparison && compared.length === 2 && (
+    <TurnComparison
+      a={compared[0]}
+      b={compared[1]}
+      onSwap={() => setCompareIds(prev => [...prev].reverse())}
+      onClose={() => setShowComparison(false)}
+    />
+  );
+
+  const missingTurn = ready && route.name === 'session' && route.sessionId === currentId && !!route.turn && !turns[route.turn - 1];
+  const notFound =
+    route.name === 'not-found' ? t('notFound.page', { path: route.path })
+    : missingSession && route.name === 'session' && route.sessionId === missingSession ? t('notFound.session', { id: missingSession })
+    : missingTurn ? t('notFound.turn', { count: turns.length, number: route.turn! })
+    : null;
+
+  if (route.name === 'page' || notFound) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFC] pb-48">
+        <Header
+          onOpenSessions={() => setShowSessions(true)}
+          onOpenBatch={() => setShowBatch(true)}
+          onOpenFeedback={() => setShowFeedback(true)}
+          onOpenEvidence={() => setShowEvidence(true)}
+          locale={locale}
+          answersInLocale={answersInLocale}
+        />
+        {sessionPanel}
+        {batchPanel}
+        {feedbackPanel}
+        {evidencePanel}
+        {route.name === 'page' ? <RoutePage page={route.page} /> : <NotFoundPage message={notFound!} />}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-[#F8FAFC] pb-48">
-      <Header />
+      <Header
+        onOpenSessions={() => setShowSessions(true)}
+        onOpenBatch={() => setShowBatch(true)}
+        onOpenFeedback={() => setShowFeedback(true)}
+        onOpenEvidence={() => setShowEvidence(true)}
+        locale={locale}
+        answersInLocale={answersInLocale}
+      />
+      {sessionPanel}
+      {batchPanel}
+      {feedbackPanel}
+      {evidencePanel}
+      {comparison}
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
       <style>{`
         .custom-scrollbar::-webkit-scrollbar { width: 4px; }
         .custom-scrollbar::-webkit-scrollbar-thumb { background: #e2e8f0; border-radius: 10px; }
@@ -464,81 +1145,226 @@ const App: React.FC = () => {
 
       {/* ✅ increased top padding to clear header + divider + beta */}
       <div className="max-w-[1920px] mx-auto px-10 pt-[120px] flex">
-        {showSidebar && <GlobalDirectory turns={turns} onNavigate={navigateTo} />}
-
-        <div className={`flex-1 flex flex-col gap-14 ${showSidebar ? 'xl:ml-[160px]' : ''}`}>
-          {turns.map((turn, idx) => (
-            <article
-              key={turn.id}
-              ref={el => { scrollRefs.current[turn.id] = el; }}
-              className="bg-white rounded-[40px] border border-slate-200/50 shadow-sm overflow-hidden flex flex-col transition-all hover:shadow-2xl hover:shadow-slate-200/20"
-            >
-              <section className="w-full px-12 py-12 bg-slate-50/40 border-b border-slate-100">
-                <div className="flex items-start gap-8">
-                  <div className="mt-1.5 bg-[#008c8c] text-white text-[11px] font-black px-4 py-2 rounded-xl uppercase tracking-widest shrink-0 shadow-lg shadow-teal-500/20">
-                    Q{idx + 1}
-                  </div>
-                  <h2 className="text-[34px] font-black text-slate-800 leading-[1.2] tracking-tight">
-                    {turn.query}
-                  </h2>
-                </div>
-              </section>
-
-              <div className="flex flex-col lg:flex-row min-h-[500px]">
-                <div className="flex-1 p-12 lg:border-r border-slate-50">
-                  <AIOverviewContent data={turn.aiOverview} />
-                  <div className="mt-14 pt-10 border-t border-slate-50">
-                    <SectionHeader label="Follow up" />
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-                      {turn.followUpQuestions.map((q, i) => (
+        {showSidebar && (
+          <GlobalDirectory
+            turns={turns}
+            thread={thread}
+            activeId={inView}
+            pinnedIds={pinnedIds}
+            onNavigate={goToTurn}
+            onTogglePin={id => setTurnView(id, { pinned: !view[id]?.pinned })}
+            onDelete={handleDelete}
+          />
+        )}
+
+        <div className={`flex-1 flex flex-col gap-14 ${showSidebar ? 'xl:ml-[240px]' : ''}`}>
+          {ready && turns.length === 0 && (
+            <div className="py-32 flex flex-col items-center text-center gap-3">
+              <span className="text-slate-400 text-[10px] font-black tracking-[0.2em] uppercase">{t('turn.newInvestigation')}</span>
+              <p className="text-slate-500 text-[15px] font-medium max-w-[420px]">
+                {t('turn.emptyPrompt')}
+              </p>
+            </div>
+          )}
+          {thread.map((turn, idx) => {
+            // What the card renders; the stored turn keeps every citation so the choice can be undone.
+            const shown = hideUnverifiable ? withoutUnverifiable(turn) : turn;
+            const pending = turn.status === 'queued' || turn.status === 'streaming';
+            return (
+              <article
+                key={turn.id}
+                ref={el => { scrollRefs.current[turn.id] = el; }}
+                aria-busy={pending}
+                aria-labelledby={`${turn.id}-query`}
+                tabIndex={-1}
+                className="outline-none bg-white rounded-[40px] border border-slate-200/50 shadow-sm overflow-hidden flex flex-col transition-all hover:shadow-2xl hover:shadow-slate-200/20"
+              >
+                <section className="w-full px-12 py-12 bg-slate-50/40 border-b border-slate-100">
+                  <div className="flex items-start gap-8">
+                    <div className="mt-1.5 bg-[#008c8c] text-white text-[11px] font-black px-4 py-2 rounded-xl uppercase tracking-widest shrink-0 shadow-lg shadow-teal-500/20">
+                      Q{idx + 1}
+                    </div>
+                    <h2 id={`${turn.id}-query`} className="flex-1 text-[34px] font-black text-slate-800 leading-[1.2] tracking-tight">
+                      <EntityText text={turn.query} symbols={turnGeneSymbols(turn)} />
+                    </h2>
+                    {!turn.status && !turn.error && (
+                      <div className="mt-1.5 shrink-0 flex items-center gap-2">
+                        {turn.cachedAt && (
+                          <button
+                            onClick={() => handleRetry(turn, true)}
+                            title={t('turn.cachedHint', { date: new Date(turn.cachedAt).toLocaleString(localeInfo().tag) })}
+                            className="h-9 px-3 text-slate-400 rounded-xl font-black text-[10px] uppercase tracking-widest hover:text-[#008c8c] transition-all"
+                          >
+                            {t('turn.cached')}
+                          </button>
+                        )}
+                        {turn !== threadEnd && (
+                          <button
+                            onClick={() => handleBranch(turn.id)}
+                            title={t('turn.branchHint')}
+                            className="h-9 px-4 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[10px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all"
+                          >
+                            {t('turn.branch')}
+                          </button>
+                        )}
                         <button
-                          key={i}
-                          onClick={() => handleAsk(q)}
-                          className="text-left p-4 bg-slate-50 rounded-2xl border border-slate-100 hover:bg-white hover:border-[#008c8c]/40 hover:shadow-xl hover:-translate-y-0.5 transition-all group flex items-center justify-between"
+                          onClick={() => toggleCompare(turn.id)}
+                          aria-pressed={compareIds.includes(turn.id)}
+                          title={t('turn.compareHint')}
+                          className={`h-9 px-4 border rounded-xl font-black text-[10px] uppercase tracking-widest transition-all ${
+                            compareIds.includes(turn.id)
+                              ? 'bg-[#008c8c] border-[#008c8c] text-white'
+                              : 'bg-white border-slate-200 text-slate-500 hover:border-[#008c8c]/40 hover:text-[#008c8c]'
+                          }`}
                         >
-                          <span className="text-slate-600 text-[13px] font-bold group-hover:text-[#008c8c] line-clamp-1">{q}</span>
-                          <svg className="w-4 h-4 text-[#008c8c] opacity-0 group-hover:opacity-100 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7" />
-                          </svg>
+                          {compareIds.includes(turn.id) ? t('turn.compareSide', { side: compared.findIndex(c => c.id === turn.id) === 0 ? 'A' : 'B' }) : t('turn.compare')}
                         </button>
-                      ))}
-                    </div>
+                        <ExportMenu turns={[turn]} title={turn.query} firstNumber={idx + 1} />
+                      </div>
+                    )}
+                    {turn.status === 'streaming' && (
+                      <button
+                        onClick={() => handleStop(turn.id)}
+                        className="mt-1.5 h-9 px-5 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[11px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all shrink-0 flex items-center gap-2"
+                      >
+                        <span className="w-2 h-2 bg-current rounded-[2px]"></span>
+                        {t('turn.stop')}
+                      </button>
+                    )}
+                    {turn.status === 'queued' && (
+                      <div className="mt-1.5 shrink-0 flex items-center gap-2">
+                        <span className="px-3 py-2 bg-slate-100 text-slate-400 text-[10px] font-black rounded-xl uppercase tracking-widest">
+                          {t('turn.queued', { position: turns.filter(q => q.status === 'queued').indexOf(turn) + 1 })}
+                        </span>
+                        <button
+                          onClick={() => handleStop(turn.id)}
+                          className="h-9 px-5 bg-white border border-slate-200 text-slate-500 rounded-xl font-black text-[11px] uppercase tracking-widest hover:border-[#008c8c]/40 hover:text-[#008c8c] transition-all"
+                        >
+                          {t('common.cancel')}
+                        </button>
+                      </div>
+                    )}
+                    {turn.status === 'stopped' && (
+                      <span className="mt-1.5 px-3 py-2 bg-slate-100 text-slate-400 text-[10px] font-black rounded-xl uppercase tracking-widest shrink-0">
+                        {t('turn.stopped')}
+                      </span>
+                    )}
                   </div>
-                </div>
+                  {retrying[turn.id] && (
+                    <p role="status" className="mt-4 text-[12px] font-bold text-amber-600">{retrying[turn.id]}</p>
+                  )}
+                </section>
 
-                <div className="w-full lg:w-[40%] p-12 bg-white flex flex-col gap-12 border-t lg:border-t-0">
-                  <VisualContent />
-                  <EvidenceList citations={turn.citations} />
-                </div>
-              </div>
-            </article>
-          ))}
+                {turn.error ? (
+                  <TurnErrorCard error={turn.error} onRetry={() => handleRetry(turn)} />
+                ) : (
+                  <div className="flex flex-col lg:flex-row min-h-[500px]">
+                    <div className="flex-1 p-12 lg:border-r border-slate-50">
+                      <AIOverviewContent
+                        data={shown.aiOverview}
+                        citations={shown.citations}
+                        symbols={turnGeneSymbols(turn)}
+                        streaming={pending}
+                        onCitationSelect={id => setCitationFocus(prev => ({ ...prev, [turn.id]: { id, nonce: Date.now() } }))}
+                        feedback={turn.feedback}
+                        annotations={turn.annotations}
+                        onFeedbackChange={turn.status ? undefined : (section, feedback) => handleFeedback(turn, section, feedback)}
+                        onAnnotationsChange={turn.status ? undefined : annotations => updateTurn(turn.id, t => ({ ...t, annotations }))}
+                      />
+                      <div className="mt-14 pt-10 border-t border-slate-50">
+                        <SectionHeader label={t('turn.followUp')} />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                          {pending && turn.followUpQuestions.length === 0 && [0, 1].map(i => (
+                            <div key={i} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                              <SkeletonLines lines={1} />
+                            </div>
+                          ))}
+                          {turn.followUpQuestions.map((q, i) => (
+                            <button
+                              key={i}
+                              onClick={() => handleAsk(q, turn.id)}
+                              className="text-left p-4 bg-slate-50 rounded-2xl border border-slate-100 hover:bg-white hover:border-[#008c8c]/40 hover:shadow-xl hover:-translate-y-0.5 transition-all group flex items-center justify-between"
+                            >
+                              <span className="text-slate-600 text-[13px] font-bold group-hover:text-[#008c8c] line-clamp-1">{q}</span>
+                              <svg className="w-4 h-4 text-[#008c8c] opacity-0 group-hover:opacity-100 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7" />
+                              </svg>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="w-full lg:w-[40%] p-12 bg-white flex flex-col gap-12 border-t lg:border-t-0">
+                      <VisualContent
+                        graph={turn.knowledgeGraph}
+                        qtlRecords={turn.qtlRecords}
+                        streaming={pending}
+                        activeTab={view[turn.id]?.visualTab}
+                        onTabChange={tab => setTurnView(turn.id, { visualTab: tab })}
+                        onAsk={q => handleAsk(q, turn.id)}
+                      />
+                      <EvidenceList
+                        citations={shown.citations}
+                        entities={turnEntities(turn)}
+                        links={turnEntityLinks(turn)}
+                        streaming={pending}
+                        focus={citationFocus[turn.id]}
+                        activeTab={view[turn.id]?.evidenceTab}
+                        onTabChange={tab => setTurnView(turn.id, { evidenceTab: tab })}
+                        hiddenCount={turn.citations.length - shown.citations.length}
+                        hideUnverifiable={hideUnverifiable}
+                        onHideUnverifiableChange={handleHideUnverifiable}
+                      />
+                    </div>
+                  </div>
+                )}
+              </article>
+            );
+          })}
         </div>
       </div>
 
       <div className="fixed bottom-12 left-0 right-0 z-50 flex justify-center px-10 pointer-events-none">
         <div className="max-w-[800px] w-full pointer-events-auto">
-          <div className="bg-white/95 backdrop-blur-3xl rounded-[32px] border border-slate-200 shadow-[0_40px_100px_-20px_rgba(0,0,0,0.2)] p-3 flex items-center gap-5 pl-8 pr-3 h-20 ring-1 ring-slate-900/5 focus-within:ring-[#008c8c]/30">
-            <input
-              value={inputValue}
-              onChange={e => setInputValue(e.target.value)}
-              onKeyDown={e => e.key === 'Enter' && handleAsk(inputValue)}
-              placeholder="Ask for genomic insights..."
-              className="flex-1 bg-transparent border-none outline-none text-[17px] font-normal text-slate-700 placeholder-slate-400"
-            />
-            <button
-              onClick={() => handleAsk(inputValue)}
-              disabled={isLoading}
-              className={`h-14 px-10 bg-[#008c8c] text-white rounded-2xl font-black text-[14px] uppercase tracking-widest hover:bg-teal-700 transition-all shadow-xl shadow-teal-500/20 flex items-center gap-3 ${isLoading ? 'opacity-70' : ''}`}
-            >
-              {isLoading ? '...' : 'Search'}
-            </button>
-          </div>
+          {forking && (
+            <div className="mb-3 ml-8 flex items-center gap-3 text-[11px] font-bold text-slate-500">
+              <span>{t('turn.newBranch', { number: thread.length })}</span>
+              <button
+                onClick={() => setActiveLeafId(latestLeafUnder(turns, threadEnd.id))}
+                className="text-[#008c8c] text-[10px] font-black uppercase tracking-widest hover:underline"
+              >
+                {t('turn.backToLatest')}
+              </button>
+            </div>
+          )}
+          {compared.length > 0 && (
+            <div className="mb-3 ml-8 flex items-center gap-3 text-[11px] font-bold text-slate-500">
+              <span>{compared.length === 1 ? t('turn.compareOneMore') : t('turn.compareTwo')}</span>
+              {compared.length === 2 && (
+                <button
+                  onClick={() => setShowComparison(true)}
+                  className="text-[#008c8c] text-[10px] font-black uppercase tracking-widest hover:underline"
+                >
+                  {t('turn.compare')}
+                </button>
+              )}
+              <button
+                onClick={() => setCompareIds([])}
+                className="text-slate-400 text-[10px] font-black uppercase tracking-widest hover:underline"
+              >
+                {t('common.clear')}
+              </button>
+            </div>
+          )}
+          <SearchFloatingBar value={inputValue} onChange={setInputValue} onSubmit={query => handleAsk(query)} queued={turns.filter(t => t.status === 'queued').length} />
         </div>
       </div>
     </div>
   );
 };
 
+export default App;
+
 const rootElement = document.getElementById('root');
 if (rootElement) ReactDOM.createRoot(rootElement).render(<App />);
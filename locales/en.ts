@@ -0,0 +1,358 @@
+/**
+ * English UI strings - the reference catalog: every key exists here, other languages may leave keys out.
+ * `{name}` is filled from the parameters given to `t`; keys ending in `.one` / `.other` are chosen by `count`.
+ */
+export const en = {
+  // --- Common ---
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.clear': 'Clear',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.save': 'Save',
+
+  // --- Header ---
+  'header.funding': 'Funding Opportunities',
+  'header.search': 'Search',
+  'header.analysis': 'Analysis',
+  'header.sessions': 'Sessions',
+  'header.batch': 'Batch',
+  'header.feedback': 'Feedback',
+  'header.evidence': 'Evidence',
+  'header.login': 'Login',
+  'header.cellBrowser': 'Integrated Cell Browser',
+  'header.data': 'Data',
+  'header.resources': 'Resources',
+  'header.about': 'About',
+  'header.help': 'Help',
+  'header.language': 'Language',
+  'header.answerLanguage': 'Answers in {language}',
+  'header.answerLanguageHint': 'Ask the model to write new answers in {language}. Identifiers and references stay as they are.',
+
+  // --- Turn cards ---
+  'turn.newInvestigation': 'New investigation',
+  'turn.emptyPrompt': 'Ask about a gene, variant or tissue below to start this session. It is saved automatically.',
+  'turn.cached': 'Cached · Refresh',
+  'turn.cachedHint': 'Served from the answer cache (answered {date}). Click to ask again.',
+  'turn.branch': 'Branch from here',
+  'turn.branchHint': 'Start a new line of questions from this answer',
+  'turn.compare': 'Compare',
+  'turn.compareSide': 'Compare {side}',
+  'turn.compareHint': 'Select two answers to compare them side by side',
+  'turn.stop': 'Stop',
+  'turn.queued': 'Queued #{position}',
+  'turn.stopped': 'Stopped',
+  'turn.retrying': '{message} Trying again in {seconds} s (attempt {attempt} of {of}).',
+  'turn.errorMalformed': 'Malformed Answer',
+  'turn.errorUnavailable': 'Answer Unavailable',
+  'turn.followUp': 'Follow up',
+  'turn.newBranch': 'New branch from Q{number}',
+  'turn.backToLatest': 'Back to latest',
+  'turn.compareOneMore': 'Select one more answer to compare',
+  'turn.compareTwo': 'Two answers selected',
+  'turn.answerReady': 'Answer ready: {query}',
+  'turn.answerFailed': 'No answer for: {query}',
+
+  // --- AI Overview ---
+  'overview.title': 'AI Overview',
+  'overview.sources': 'Sources',
+  'citation.mismatched': 'PMID metadata does not match this reference.',
+  'citation.notFound': 'PMID not found; the reference may be fabricated.',
+  'citation.missing': 'No reference [{number}] in this answer\'s citations.',
+  'citation.label': 'Reference {number}: {title}',
+  'citation.pending': 'Reference {number}, not loaded yet',
+
+  // --- Visual material ---
+  'visual.title': 'Visual material',
+  'visual.knowledgeGraph': 'Knowledge Graph',
+  'visual.provenance': 'Provenance',
+  'visual.noEntities': 'No entities in this answer',
+  'visual.chartView': 'Chart View',
+  'visual.noQtl': 'No QTL records in this answer',
+
+  // --- Evidence ---
+  'evidence.title': 'Evidences',
+  'evidence.references': 'References',
+  'evidence.provenance': 'Provenance',
+  'evidence.pankbaseLinks': 'PanKbase Links',
+  'evidence.externalLinks': 'External Links',
+  'evidence.hideUnverifiable': 'Hide references that fail verification',
+  'evidence.hiddenCount': '({count} hidden)',
+  'evidence.noReferences': 'No references in this answer',
+  'evidence.noRecords': 'No PanKgraph records for this turn',
+  'evidence.noPankbase': 'No PanKbase records for this turn',
+  'evidence.noIdentifiers': 'No identifiers recognised in this turn',
+  'evidence.compare': 'Compare',
+  'evidence.hideDetails': 'Hide details',
+  'evidence.pankgraphUnavailable': 'PanKgraph unavailable',
+  'evidence.qtlTitle': '{dataset} eQTL • {tissue}',
+  'evidence.qtlDetail': '{variant} → {gene}, effect allele {allele}',
+  'evidence.qtlMetric': 'P-Val: {pValue} • Slope: {slope}',
+  'evidence.atacTitle': '{dataset} • {cellType} cells',
+  'evidence.atacDetail': 'Accessible peak {region} overlaps {variant}',
+  'evidence.atacMetric': 'Score: {score}',
+  'linkKind.gene': 'Gene',
+  'linkKind.variant': 'SNP',
+  'linkKind.disease': 'Disease',
+  'linkKind.publication': 'Publication',
+
+  // --- Citation verification ---
+  'verification.checking': 'Checking',
+  'verification.verified': 'Verified',
+  'verification.verifiedHint': 'Title, first author, journal and year match the PMID.',
+  'verification.mismatched': 'Mismatch',
+  'verification.mismatchedHint': 'The PMID exists but belongs to a different paper or details differ.',
+  'verification.notFound': 'Not found',
+  'verification.notFoundHint': 'No record with this PMID.',
+  'verification.unavailable': 'Unchecked',
+  'verification.unavailableHint': 'The metadata source could not be reached.',
+  'verification.notInSource': 'PMID {pmid} is not in {source}. The reference may be fabricated.',
+  'verification.unreachable': 'Could not reach {source}; try again later.',
+  'verification.claimed': 'Claimed',
+  'verification.fieldTitle': 'Title',
+  'verification.fieldFirstAuthor': 'First author',
+  'verification.fieldJournal': 'Journal',
+  'verification.fieldYear': 'Year',
+
+  // --- Section feedback and notes ---
+  'feedback.good': 'This section is good',
+  'feedback.problem': 'This section has a problem',
+  'feedback.clearHint': '{label} (click again to clear)',
+  'feedback.whatGood': 'What was good?',
+  'feedback.whatWrong': 'What is wrong?',
+  'feedback.otherReason': 'Other reason (optional)',
+  'feedback.reason': 'Reason',
+  'feedback.reasonAccurate': 'Accurate',
+  'feedback.reasonWellSupported': 'Well supported',
+  'feedback.reasonUsefulSummary': 'Useful summary',
+  'feedback.reasonWrong': 'Factually wrong',
+  'feedback.reasonUnsupported': 'Not supported by the citations',
+  'feedback.reasonOutdated': 'Outdated',
+  'feedback.reasonMissingEvidence': 'Missing key evidence',
+  'feedback.reasonOffTopic': 'Off topic',
+  'notes.note': 'Note',
+  'notes.tags': 'Tags',
+  'notes.add': 'Add note',
+
+  // --- Search bar ---
+  'search.label': 'Ask a question',
+  'search.placeholder': 'Ask for genomic insights, or pick a template...',
+  'search.submit': 'Search',
+  'search.waiting.one': '{count} question waiting',
+  'search.waiting.other': '{count} questions waiting',
+  'search.suggestions': 'Suggestions',
+  'search.fillIn': 'Fill in {slot}',
+  'search.fillInFirst': 'Fill in {slot} first',
+  'search.templates': 'Templates',
+  'search.recent': 'Recent questions',
+  'search.forget': 'Remove from recent questions',
+  'search.kindGene': 'Gene',
+  'search.kindVariant': 'Variant',
+  'search.kindTissue': 'Tissue',
+  'search.kindDisease': 'Disease',
+
+  // --- Question directory ---
+  'directory.questions': 'Questions',
+  'directory.otherBranch': 'Other branch',
+  'directory.failed': 'Failed',
+  'directory.answering': 'Answering',
+  'directory.queued': 'Queued',
+  'directory.pin': 'Pin to top',
+  'directory.unpin': 'Unpin',
+  'directory.delete': 'Delete this question',
+  'directory.confirmDelete': 'Delete "{query}"? Its follow-ups are kept.',
+  'directory.filter': 'Filter questions…',
+  'directory.filterLabel': 'Filter questions and answers',
+  'directory.clearFilter': 'Clear filter',
+  'directory.pinned': 'Pinned',
+  'directory.all': 'All questions',
+  'directory.matches': '{shown} of {total} match',
+
+  // --- Sessions ---
+  'sessions.title': 'Sessions',
+  'sessions.savedLocally': 'Saved locally • {backend}',
+  'sessions.new': 'New',
+  'sessions.empty': 'No saved sessions yet.',
+  'sessions.questions.one': '{count} question',
+  'sessions.questions.other': '{count} questions',
+  'sessions.rename': 'Rename',
+  'sessions.confirmDelete': 'Delete "{title}"?',
+  'sessions.current': 'Current session',
+  'sessions.import': 'Import',
+  'sessions.importFailed': 'Import failed: {error}',
+  'export.label': 'Export',
+
+  // --- Session evidence ---
+  'explorer.title': 'Session evidence',
+  'explorer.summary': '{references} references • {questions} questions',
+  'explorer.all': 'All',
+  'explorer.literature': 'Literature',
+  'explorer.datasets': 'Datasets',
+  'explorer.pankbase': 'PanKbase',
+  'explorer.external': 'External',
+  'explorer.sort': 'Sort',
+  'explorer.sortFrequency': 'Most cited',
+  'explorer.sortYear': 'Newest',
+  'explorer.sortJournal': 'Journal',
+  'explorer.empty': 'References and links from answers in this session are collected here.',
+  'explorer.noneOfType': 'No evidence of this type in this session.',
+  'explorer.questions.one': '{count} question',
+  'explorer.questions.other': '{count} questions',
+  'explorer.claims.one': '{count} claim',
+  'explorer.claims.other': '{count} claims',
+
+  // --- Feedback log ---
+  'feedbackLog.title': 'Feedback log',
+  'feedbackLog.summary': '{ratings} ratings • {flagged} flagged',
+  'feedbackLog.all': 'All',
+  'feedbackLog.flagged': 'Flagged',
+  'feedbackLog.good': 'Good',
+  'feedbackLog.confirmClear': 'Delete all {count} feedback entries? Ratings saved on turns are kept.',
+  'feedbackLog.empty': 'Rate an AI Overview section with 👍 or 👎 and it is logged here.',
+  'feedbackLog.noMatch': 'No ratings match this filter.',
+
+  // --- Batch questions ---
+  'batch.title': 'Batch questions',
+  'batch.subtitle': 'CSV, TSV or VCF of rsIDs and genes • up to {max} rows',
+  'batch.upload': 'Upload file',
+  'batch.orPaste': 'or paste below',
+  'batch.rows.one': '{count} row',
+  'batch.rows.other': '{count} rows',
+  'batch.skippedCount': '{count} skipped',
+  'batch.skippedLine': 'Line {line}: {reason}',
+  'batch.question': 'Question for each row',
+  'batch.tissueHint': 'unless the file has a tissue column',
+  'batch.firstQuestion': 'First question:',
+  'batch.ask.one': 'Ask {count} question',
+  'batch.ask.other': 'Ask {count} questions',
+  'batch.resume': 'Resume unanswered',
+  'batch.concurrency': 'At a time',
+  'batch.clearResults': 'Clear results',
+  'batch.progress': '{done} of {total} answered',
+  'batch.failedCount': '{failed} failed',
+  'batch.variant': 'Variant',
+  'batch.gene': 'Gene',
+  'batch.slope': 'Slope',
+  'batch.pValue': 'p-value',
+  'batch.citations': 'Citations',
+  'batch.status': 'Status',
+  'batch.queued': 'Queued',
+  'batch.running': 'Running',
+  'batch.done': 'Done',
+  'batch.failed': 'Failed',
+  'batch.skipped': 'Skipped',
+  'batch.openAsTurn': 'Open as turn',
+
+  // --- Answer comparison ---
+  'compare.title': 'Compare answers',
+  'compare.summary': '{shared} of {total} references shared • {qtl} QTL records in both',
+  'compare.swap': 'Swap',
+  'compare.noText': 'No text',
+  'compare.both': 'Both',
+  'compare.only': 'Only {side}',
+  'compare.missingSection': 'Answer {side} has no such section.',
+  'compare.sameWording': '{percent}% same wording',
+  'compare.noReferences': 'Neither answer cites a reference.',
+  'compare.qtlRecords': 'QTL records',
+  'compare.noQtl': 'Neither answer has structured QTL records.',
+  'compare.tissue': 'Tissue',
+  'compare.dataset': 'Dataset',
+  'compare.slopeOf': 'Slope {side}',
+  'compare.pOf': 'p {side}',
+
+  // --- Knowledge graph ---
+  'graph.gene': 'Gene',
+  'graph.variant': 'Variant',
+  'graph.tissue': 'Tissue',
+  'graph.disease': 'Disease',
+  'graph.publication': 'Publication',
+  'graph.eqtl': 'eQTL',
+  'graph.effectorGene': 'Effector gene',
+  'graph.expressedIn': 'Expressed in',
+  'graph.associatedWith': 'Associated with',
+  'graph.citedBy': 'Cited by',
+  'graph.askAbout': 'Ask about this',
+  'graph.askGene': 'What is the role of {label} in type 1 diabetes?',
+  'graph.askVariant': 'Which genes and tissues are affected by {label}?',
+  'graph.askTissue': 'Which T1D-associated genes are regulated in {label}?',
+  'graph.askDisease': 'Which effector genes are implicated in {label}?',
+  'graph.askPublication': 'What are the key findings of {label}?',
+  'graph.zoomIn': 'Zoom in',
+  'graph.zoomOut': 'Zoom out',
+  'graph.resetView': 'Reset view',
+
+  // --- Pages ---
+  'page.pankgraph.eyebrow': 'Knowledge graph',
+  'page.pankgraph.title': 'PanKgraph',
+  'page.pankgraph.body1': 'PanKgraph links genes, variants, cell types, QTLs and publications from PanKbase datasets into one queryable graph.',
+  'page.pankgraph.body2': 'The Knowledge Engine grounds the QTL tables and locus plots in its answers in PanKgraph records.',
+  'page.pankgraph.link': 'Open PanKgraph',
+  'page.cellBrowser.eyebrow': 'Single-cell data',
+  'page.cellBrowser.title': 'Integrated Cell Browser',
+  'page.cellBrowser.body1': 'Browse integrated single-cell RNA-seq and ATAC-seq profiles of human pancreatic islets from donors with and without diabetes.',
+  'page.cellBrowser.body2': 'Cell-type accessibility scores shown in answers come from these datasets.',
+  'page.cellBrowser.link': 'Open the cell browser',
+  'page.data.eyebrow': 'Data',
+  'page.data.title': 'Data',
+  'page.data.body1': 'Donor metadata, assays and processed datasets contributed to PanKbase, with their provenance and access conditions.',
+  'page.data.link': 'Browse data',
+  'page.resources.eyebrow': 'Resources',
+  'page.resources.title': 'Resources',
+  'page.resources.body1': 'Analysis pipelines, reference annotations and tools developed by the consortium, together with external resources the Knowledge Engine links to: dbSNP, Ensembl, Open Targets and PubMed.',
+  'page.resources.link': 'View resources',
+  'page.about.eyebrow': 'About',
+  'page.about.title': 'About PanKbase',
+  'page.about.body1': 'PanKbase is a data resource for human pancreas and islet biology, supported by the Human Islet Research Network (HiRN).',
+  'page.about.body2': 'The Knowledge Engine answers questions about genes, variants and tissues with cited, verifiable evidence drawn from PanKbase.',
+  'page.about.link': 'Learn more',
+  'page.help.eyebrow': 'Help',
+  'page.help.title': 'Help',
+  'page.help.body1': 'Ask about a gene, variant (rsID), Ensembl gene or MONDO disease. Identifiers in questions and answers link to their records.',
+  'page.help.body2': 'Every session is saved in this browser. Each question has its own address — copy it from the address bar to share or bookmark a specific answer, and use back and forward to move between questions.',
+  'page.help.body3': 'Use "Branch from here" on an earlier answer to explore a different line of questions without losing the current one.',
+  'page.analysis.eyebrow': 'Analysis',
+  'page.analysis.title': 'Analysis',
+  'page.analysis.body1': 'Run colocalization, differential expression and enrichment analyses on PanKbase datasets.',
+  'page.analysis.link': 'Open analysis tools',
+  'page.funding.eyebrow': 'Funding',
+  'page.funding.title': 'Funding Opportunities',
+  'page.funding.body1': 'Current HiRN and NIDDK funding announcements for pancreas and islet research.',
+  'page.funding.link': 'View opportunities',
+  'page.login.eyebrow': 'Account',
+  'page.login.title': 'Login',
+  'page.login.body1': 'Sign in on the PanKbase portal to access controlled data. The Knowledge Engine does not need an account; sessions stay in this browser.',
+  'page.login.link': 'Sign in on PanKbase',
+  'page.back': 'Back to the Knowledge Engine',
+  'page.notFound.eyebrow': 'Not found',
+  'page.notFound.title': 'Nothing here',
+
+  // --- Entity chips ---
+  'entity.gene': 'Gene',
+  'entity.ensemblGene': 'Ensembl gene',
+  'entity.variant': 'Variant',
+  'entity.disease': 'Disease',
+  'entity.publication': 'Publication',
+  'entity.linkedAs': 'Linked as {id}.',
+
+  // --- Provenance charts ---
+  'charts.effect': 'Effect',
+  'charts.locus': 'Locus',
+  'charts.download': 'Download as {format}',
+  'charts.forestTitle': 'Effect size (slope, 95% CI) by tissue and dataset',
+  'charts.allele': 'allele {allele}',
+  'charts.locusTitle': '{gene} locus',
+  'charts.locusSubtitle': '−log10(p) per variant, {dataset}',
+  'charts.position': 'GRCh38 position (Mb)',
+  'charts.variant': 'Variant',
+
+  // --- Not found ---
+  'notFound.page': 'There is no page at {path}.',
+  'notFound.session': 'No saved session with the id "{id}" in this browser. Sessions are stored locally, so links only open where they were created.',
+  'notFound.turn.one': 'This session has {count} question; there is no question {number}.',
+  'notFound.turn.other': 'This session has {count} questions; there is no question {number}.',
+};
+
+type CatalogKey = keyof typeof en;
+
+/** Keys as passed to `t`: plural pairs are asked for by their shared prefix. */
+export type MessageKey = CatalogKey | (CatalogKey extends infer K ? (K extends `${infer Base}.one` ? Base : never) : never);
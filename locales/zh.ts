@@ -0,0 +1,345 @@
+import { MessageKey } from './en';
+
+/** Simplified Chinese UI strings. Keys left out fall back to English; Chinese needs no plural variants. */
+export const zh: Partial<Record<MessageKey, string>> = {
+  // --- Common ---
+  'common.close': '关闭',
+  'common.cancel': '取消',
+  'common.clear': '清除',
+  'common.delete': '删除',
+  'common.retry': '重试',
+  'common.save': '保存',
+
+  // --- Header ---
+  'header.funding': '资助机会',
+  'header.search': '搜索',
+  'header.analysis': '分析',
+  'header.sessions': '会话',
+  'header.batch': '批量',
+  'header.feedback': '反馈',
+  'header.evidence': '证据',
+  'header.login': '登录',
+  'header.cellBrowser': '整合细胞浏览器',
+  'header.data': '数据',
+  'header.resources': '资源',
+  'header.about': '关于',
+  'header.help': '帮助',
+  'header.language': '语言',
+  'header.answerLanguage': '用{language}回答',
+  'header.answerLanguageHint': '让模型用{language}撰写新的回答。标识符和参考文献保持原样。',
+
+  // --- Turn cards ---
+  'turn.newInvestigation': '新的研究',
+  'turn.emptyPrompt': '在下方询问某个基因、变异或组织即可开始本次会话，内容会自动保存。',
+  'turn.cached': '缓存 · 刷新',
+  'turn.cachedHint': '来自回答缓存（回答于 {date}）。点击重新提问。',
+  'turn.branch': '从此处分支',
+  'turn.branchHint': '从这个回答开始一条新的提问线',
+  'turn.compare': '比较',
+  'turn.compareSide': '比较 {side}',
+  'turn.compareHint': '选择两个回答进行并排比较',
+  'turn.stop': '停止',
+  'turn.queued': '排队 #{position}',
+  'turn.stopped': '已停止',
+  'turn.retrying': '{message} 将在 {seconds} 秒后重试（第 {attempt} 次，共 {of} 次）。',
+  'turn.errorMalformed': '回答格式错误',
+  'turn.errorUnavailable': '无法获取回答',
+  'turn.followUp': '后续问题',
+  'turn.newBranch': '从 Q{number} 开始新分支',
+  'turn.backToLatest': '回到最新',
+  'turn.compareOneMore': '再选择一个回答进行比较',
+  'turn.compareTwo': '已选择两个回答',
+  'turn.answerReady': '回答已就绪：{query}',
+  'turn.answerFailed': '未能回答：{query}',
+
+  // --- AI Overview ---
+  'overview.title': 'AI 概览',
+  'overview.sources': '来源',
+  'citation.mismatched': 'PMID 元数据与此参考文献不符。',
+  'citation.notFound': '未找到该 PMID，此参考文献可能是虚构的。',
+  'citation.missing': '此回答的参考文献中没有 [{number}]。',
+  'citation.label': '参考文献 {number}：{title}',
+  'citation.pending': '参考文献 {number}，尚未加载',
+
+  // --- Visual material ---
+  'visual.title': '可视化资料',
+  'visual.knowledgeGraph': '知识图谱',
+  'visual.provenance': '数据来源',
+  'visual.noEntities': '此回答中没有实体',
+  'visual.chartView': '图表视图',
+  'visual.noQtl': '此回答中没有 QTL 记录',
+
+  // --- Evidence ---
+  'evidence.title': '证据',
+  'evidence.references': '参考文献',
+  'evidence.provenance': '数据来源',
+  'evidence.pankbaseLinks': 'PanKbase 链接',
+  'evidence.externalLinks': '外部链接',
+  'evidence.hideUnverifiable': '隐藏未通过验证的参考文献',
+  'evidence.hiddenCount': '（已隐藏 {count} 条）',
+  'evidence.noReferences': '此回答中没有参考文献',
+  'evidence.noRecords': '此问题没有 PanKgraph 记录',
+  'evidence.noPankbase': '此问题没有 PanKbase 记录',
+  'evidence.noIdentifiers': '此问题中未识别到标识符',
+  'evidence.compare': '比较',
+  'evidence.hideDetails': '隐藏详情',
+  'evidence.pankgraphUnavailable': 'PanKgraph 不可用',
+  'evidence.qtlTitle': '{dataset} eQTL • {tissue}',
+  'evidence.qtlDetail': '{variant} → {gene}，效应等位基因 {allele}',
+  'evidence.qtlMetric': 'P 值：{pValue} • 斜率：{slope}',
+  'evidence.atacTitle': '{dataset} • {cellType} 细胞',
+  'evidence.atacDetail': '开放染色质峰 {region} 覆盖 {variant}',
+  'evidence.atacMetric': '得分：{score}',
+  'linkKind.gene': '基因',
+  'linkKind.variant': 'SNP',
+  'linkKind.disease': '疾病',
+  'linkKind.publication': '文献',
+
+  // --- Citation verification ---
+  'verification.checking': '核查中',
+  'verification.verified': '已验证',
+  'verification.verifiedHint': '标题、第一作者、期刊和年份与 PMID 一致。',
+  'verification.mismatched': '不一致',
+  'verification.mismatchedHint': '该 PMID 存在，但属于另一篇论文或细节不同。',
+  'verification.notFound': '未找到',
+  'verification.notFoundHint': '没有该 PMID 的记录。',
+  'verification.unavailable': '未核查',
+  'verification.unavailableHint': '无法连接元数据来源。',
+  'verification.notInSource': '{source} 中没有 PMID {pmid}，此参考文献可能是虚构的。',
+  'verification.unreachable': '无法连接 {source}，请稍后再试。',
+  'verification.claimed': '回答中',
+  'verification.fieldTitle': '标题',
+  'verification.fieldFirstAuthor': '第一作者',
+  'verification.fieldJournal': '期刊',
+  'verification.fieldYear': '年份',
+
+  // --- Section feedback and notes ---
+  'feedback.good': '这一部分很好',
+  'feedback.problem': '这一部分有问题',
+  'feedback.clearHint': '{label}（再次点击可清除）',
+  'feedback.whatGood': '哪里好？',
+  'feedback.whatWrong': '哪里有问题？',
+  'feedback.otherReason': '其他原因（可选）',
+  'feedback.reason': '原因',
+  'feedback.reasonAccurate': '准确',
+  'feedback.reasonWellSupported': '依据充分',
+  'feedback.reasonUsefulSummary': '总结有用',
+  'feedback.reasonWrong': '事实错误',
+  'feedback.reasonUnsupported': '引用不支持该结论',
+  'feedback.reasonOutdated': '已过时',
+  'feedback.reasonMissingEvidence': '缺少关键证据',
+  'feedback.reasonOffTopic': '偏离主题',
+  'notes.note': '笔记',
+  'notes.tags': '标签',
+  'notes.add': '添加笔记',
+
+  // --- Search bar ---
+  'search.label': '提出问题',
+  'search.placeholder': '询问基因组学问题，或选择一个模板……',
+  'search.submit': '搜索',
+  'search.waiting': '{count} 个问题等待中',
+  'search.suggestions': '建议',
+  'search.fillIn': '填写 {slot}',
+  'search.fillInFirst': '请先填写 {slot}',
+  'search.templates': '模板',
+  'search.recent': '最近的问题',
+  'search.forget': '从最近的问题中移除',
+  'search.kindGene': '基因',
+  'search.kindVariant': '变异',
+  'search.kindTissue': '组织',
+  'search.kindDisease': '疾病',
+
+  // --- Question directory ---
+  'directory.questions': '问题',
+  'directory.otherBranch': '其他分支',
+  'directory.failed': '失败',
+  'directory.answering': '回答中',
+  'directory.queued': '排队中',
+  'directory.pin': '置顶',
+  'directory.unpin': '取消置顶',
+  'directory.delete': '删除此问题',
+  'directory.confirmDelete': '删除“{query}”？其后续问题会保留。',
+  'directory.filter': '筛选问题…',
+  'directory.filterLabel': '筛选问题和回答',
+  'directory.clearFilter': '清除筛选',
+  'directory.pinned': '已置顶',
+  'directory.all': '全部问题',
+  'directory.matches': '{total} 个中有 {shown} 个匹配',
+
+  // --- Sessions ---
+  'sessions.title': '会话',
+  'sessions.savedLocally': '保存在本地 • {backend}',
+  'sessions.new': '新建',
+  'sessions.empty': '还没有保存的会话。',
+  'sessions.questions': '{count} 个问题',
+  'sessions.rename': '重命名',
+  'sessions.confirmDelete': '删除“{title}”？',
+  'sessions.current': '当前会话',
+  'sessions.import': '导入',
+  'sessions.importFailed': '导入失败：{error}',
+  'export.label': '导出',
+
+  // --- Session evidence ---
+  'explorer.title': '会话证据',
+  'explorer.summary': '{references} 篇参考文献 • {questions} 个问题',
+  'explorer.all': '全部',
+  'explorer.literature': '文献',
+  'explorer.datasets': '数据集',
+  'explorer.pankbase': 'PanKbase',
+  'explorer.external': '外部',
+  'explorer.sort': '排序',
+  'explorer.sortFrequency': '引用最多',
+  'explorer.sortYear': '最新',
+  'explorer.sortJournal': '期刊',
+  'explorer.empty': '本次会话中回答引用的文献和链接会汇总在这里。',
+  'explorer.noneOfType': '本次会话中没有此类证据。',
+  'explorer.questions': '{count} 个问题',
+  'explorer.claims': '{count} 条论述',
+
+  // --- Feedback log ---
+  'feedbackLog.title': '反馈记录',
+  'feedbackLog.summary': '{ratings} 条评分 • {flagged} 条标记问题',
+  'feedbackLog.all': '全部',
+  'feedbackLog.flagged': '有问题',
+  'feedbackLog.good': '良好',
+  'feedbackLog.confirmClear': '删除全部 {count} 条反馈记录？保存在各回答上的评分会保留。',
+  'feedbackLog.empty': '用 👍 或 👎 为 AI 概览的某一部分评分后，会记录在这里。',
+  'feedbackLog.noMatch': '没有符合此筛选条件的评分。',
+
+  // --- Batch questions ---
+  'batch.title': '批量提问',
+  'batch.subtitle': '包含 rsID 和基因的 CSV、TSV 或 VCF • 最多 {max} 行',
+  'batch.upload': '上传文件',
+  'batch.orPaste': '或粘贴在下方',
+  'batch.rows': '{count} 行',
+  'batch.skippedCount': '已跳过 {count} 行',
+  'batch.skippedLine': '第 {line} 行：{reason}',
+  'batch.question': '每行的问题',
+  'batch.tissueHint': '文件中没有组织列时使用',
+  'batch.firstQuestion': '第一个问题：',
+  'batch.ask': '提出 {count} 个问题',
+  'batch.resume': '继续未回答的问题',
+  'batch.concurrency': '同时进行',
+  'batch.clearResults': '清除结果',
+  'batch.progress': '已回答 {done} / {total}',
+  'batch.failedCount': '{failed} 个失败',
+  'batch.variant': '变异',
+  'batch.gene': '基因',
+  'batch.slope': '斜率',
+  'batch.pValue': 'p 值',
+  'batch.citations': '引用',
+  'batch.status': '状态',
+  'batch.queued': '排队中',
+  'batch.running': '进行中',
+  'batch.done': '完成',
+  'batch.failed': '失败',
+  'batch.skipped': '已跳过',
+  'batch.openAsTurn': '作为对话打开',
+
+  // --- Answer comparison ---
+  'compare.title': '比较回答',
+  'compare.summary': '{total} 篇参考文献中 {shared} 篇相同 • 两者共有 {qtl} 条 QTL 记录',
+  'compare.swap': '交换',
+  'compare.noText': '无文本',
+  'compare.both': '两者',
+  'compare.only': '仅 {side}',
+  'compare.missingSection': '回答 {side} 没有此部分。',
+  'compare.sameWording': '{percent}% 措辞相同',
+  'compare.noReferences': '两个回答都没有引用参考文献。',
+  'compare.qtlRecords': 'QTL 记录',
+  'compare.noQtl': '两个回答都没有结构化的 QTL 记录。',
+  'compare.tissue': '组织',
+  'compare.dataset': '数据集',
+  'compare.slopeOf': '斜率 {side}',
+  'compare.pOf': 'p {side}',
+
+  // --- Knowledge graph ---
+  'graph.gene': '基因',
+  'graph.variant': '变异',
+  'graph.tissue': '组织',
+  'graph.disease': '疾病',
+  'graph.publication': '文献',
+  'graph.eqtl': 'eQTL',
+  'graph.effectorGene': '效应基因',
+  'graph.expressedIn': '表达于',
+  'graph.associatedWith': '关联',
+  'graph.citedBy': '被引用',
+  'graph.askAbout': '就此提问',
+  'graph.askGene': '{label} 在 1 型糖尿病中起什么作用？',
+  'graph.askVariant': '{label} 影响哪些基因和组织？',
+  'graph.askTissue': '哪些与 1 型糖尿病相关的基因在{label}中受到调控？',
+  'graph.askDisease': '哪些效应基因与{label}有关？',
+  'graph.askPublication': '{label} 的主要发现是什么？',
+  'graph.zoomIn': '放大',
+  'graph.zoomOut': '缩小',
+  'graph.resetView': '重置视图',
+
+  // --- Pages ---
+  'page.pankgraph.eyebrow': '知识图谱',
+  'page.pankgraph.title': 'PanKgraph',
+  'page.pankgraph.body1': 'PanKgraph 将 PanKbase 数据集中的基因、变异、细胞类型、QTL 和文献连接成一个可查询的图谱。',
+  'page.pankgraph.body2': 'Knowledge Engine 回答中的 QTL 表格和位点图均以 PanKgraph 记录为依据。',
+  'page.pankgraph.link': '打开 PanKgraph',
+  'page.cellBrowser.eyebrow': '单细胞数据',
+  'page.cellBrowser.title': '整合细胞浏览器',
+  'page.cellBrowser.body1': '浏览来自糖尿病及非糖尿病供体的人类胰岛整合单细胞 RNA-seq 和 ATAC-seq 图谱。',
+  'page.cellBrowser.body2': '回答中显示的细胞类型可及性评分来自这些数据集。',
+  'page.cellBrowser.link': '打开细胞浏览器',
+  'page.data.eyebrow': '数据',
+  'page.data.title': '数据',
+  'page.data.body1': '提交至 PanKbase 的供体元数据、检测和处理后的数据集，以及它们的来源和访问条件。',
+  'page.data.link': '浏览数据',
+  'page.resources.eyebrow': '资源',
+  'page.resources.title': '资源',
+  'page.resources.body1': '联盟开发的分析流程、参考注释和工具，以及 Knowledge Engine 链接到的外部资源：dbSNP、Ensembl、Open Targets 和 PubMed。',
+  'page.resources.link': '查看资源',
+  'page.about.eyebrow': '关于',
+  'page.about.title': '关于 PanKbase',
+  'page.about.body1': 'PanKbase 是人类胰腺和胰岛生物学的数据资源，由人类胰岛研究网络（HiRN）支持。',
+  'page.about.body2': 'Knowledge Engine 以源自 PanKbase 的可引用、可核实证据回答关于基因、变异和组织的问题。',
+  'page.about.link': '了解更多',
+  'page.help.eyebrow': '帮助',
+  'page.help.title': '帮助',
+  'page.help.body1': '可以询问基因、变异（rsID）、Ensembl 基因或 MONDO 疾病。问题和回答中的标识符会链接到相应记录。',
+  'page.help.body2': '每个会话都保存在此浏览器中。每个问题都有自己的地址——从地址栏复制即可分享或收藏某个回答，使用后退和前进可在问题之间切换。',
+  'page.help.body3': '在较早的回答上使用“从此处分支”，即可探索另一条提问思路，而不会丢失当前的思路。',
+  'page.analysis.eyebrow': '分析',
+  'page.analysis.title': '分析',
+  'page.analysis.body1': '在 PanKbase 数据集上运行共定位、差异表达和富集分析。',
+  'page.analysis.link': '打开分析工具',
+  'page.funding.eyebrow': '资助',
+  'page.funding.title': '资助机会',
+  'page.funding.body1': '当前 HiRN 和 NIDDK 针对胰腺和胰岛研究的资助公告。',
+  'page.funding.link': '查看资助机会',
+  'page.login.eyebrow': '账户',
+  'page.login.title': '登录',
+  'page.login.body1': '在 PanKbase 门户登录以访问受控数据。Knowledge Engine 无需账户；会话保存在此浏览器中。',
+  'page.login.link': '在 PanKbase 登录',
+  'page.back': '返回 Knowledge Engine',
+  'page.notFound.eyebrow': '未找到',
+  'page.notFound.title': '这里什么都没有',
+
+  // --- Entity chips ---
+  'entity.gene': '基因',
+  'entity.ensemblGene': 'Ensembl 基因',
+  'entity.variant': '变异',
+  'entity.disease': '疾病',
+  'entity.publication': '文献',
+  'entity.linkedAs': '已链接为 {id}。',
+
+  // --- Provenance charts ---
+  'charts.effect': '效应',
+  'charts.locus': '位点',
+  'charts.download': '下载为 {format}',
+  'charts.forestTitle': '按组织和数据集的效应量（斜率，95% CI）',
+  'charts.allele': '等位基因 {allele}',
+  'charts.locusTitle': '{gene} 位点',
+  'charts.locusSubtitle': '各变异的 −log10(p)，{dataset}',
+  'charts.position': 'GRCh38 位置（Mb）',
+  'charts.variant': '变异',
+
+  // --- Not found ---
+  'notFound.page': '没有位于 {path} 的页面。',
+  'notFound.session': '此浏览器中没有 id 为“{id}”的已保存会话。会话保存在本地，因此链接只能在创建它们的地方打开。',
+  'notFound.turn': '此会话有 {count} 个问题，没有第 {number} 个问题。',
+};
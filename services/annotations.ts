@@ -0,0 +1,56 @@
+import { Annotation, SectionFeedback, TurnData } from '../types';
+import { findSection } from './overviewSections';
+
+/**
+ * FEEDBACK AND ANNOTATIONS
+ * Per-section ratings and passage notes live on the turn, so they are saved, branched and exported with it.
+ * Both refer to sections by id. Annotations are anchored in text sections by claim index and character range;
+ * a claim whose text no longer contains the quoted passage (e.g. after a retry) simply drops its highlight.
+ */
+
+/** Suggested reasons, offered as one-click choices next to the free-text field. */
+export const FEEDBACK_REASONS: Record<SectionFeedback['rating'], string[]> = {
+  up: ['Accurate', 'Well supported', 'Useful summary'],
+  down: ['Factually wrong', 'Not supported by the citations', 'Outdated', 'Missing key evidence', 'Off topic'],
+};
+
+export const setSectionFeedback = (turn: TurnData, section: string, feedback?: SectionFeedback): TurnData => {
+  const { [section]: _previous, ...rest } = turn.feedback ?? {};
+  const next = feedback ? { ...rest, [section]: feedback } : rest;
+  return { ...turn, feedback: Object.keys(next).length > 0 ? next : undefined };
+};
+
+/** `#tag` words and comma-separated entries, lower-cased and de-duplicated. */
+export const parseTags = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(/[,\s]+/)
+      .map(tag => tag.replace(/^#/, '').trim().toLowerCase())
+      .filter(Boolean),
+  ),
+];
+
+export const createAnnotation = (
+  fields: Pick<Annotation, 'section' | 'claim' | 'start' | 'end' | 'quote' | 'note' | 'tags'>,
+): Annotation => {
+  const createdAt = Date.now();
+  return { ...fields, id: `note-${createdAt}-${Math.random().toString(36).slice(2, 6)}`, createdAt };
+};
+
+const claimText = (turn: Pick<TurnData, 'aiOverview'>, sectionId: string, claim: number) => {
+  const section = findSection(turn, sectionId);
+  return section?.kind === 'text' ? section.body[claim]?.text ?? '' : '';
+};
+
+/** Annotations whose passage is still where it was recorded, in claim `claim` of section `section`. */
+export const claimAnnotations = (turn: Pick<TurnData, 'aiOverview' | 'annotations'>, section: string, claim: number) => {
+  const text = claimText(turn, section, claim);
+  return (turn.annotations ?? []).filter(
+    a => a.section === section && a.claim === claim && text.slice(a.start, a.end) === a.quote,
+  );
+};
+
+export const sectionAnnotations = (turn: Pick<TurnData, 'aiOverview' | 'annotations'>, section: string) => {
+  const found = findSection(turn, section);
+  return found?.kind === 'text' ? found.body.flatMap((_, i) => claimAnnotations(turn, section, i)) : [];
+};
@@ -0,0 +1,95 @@
+import { TurnAnswer } from '../types';
+import { validateTurnAnswer } from './answerProvider';
+import { HistoryEntry } from './conversation';
+
+/**
+ * ANSWER CACHE
+ * Finished answers keyed by provider, the questions of the thread they follow and the question itself,
+ * so asking the same thing in the same context comes back instantly, and without a network.
+ * Kept in localStorage, most recently used first; when the quota is hit the oldest half is dropped.
+ */
+
+const CACHE_KEY = 'pankbase-answer-cache';
+export const MAX_CACHED_ANSWERS = 40;
+export const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedAnswer {
+  key: string;
+  answer: TurnAnswer;
+  /** When the answer was produced. */
+  at: number;
+}
+
+export interface AnswerCache {
+  get(key: string): CachedAnswer | undefined;
+  set(key: string, answer: TurnAnswer): void;
+  clear(): void;
+}
+
+/** Case, spacing and trailing punctuation do not make a different question. */
+export const normalizeQuery = (query: string) =>
+  query.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[\s?.!]+$/, '');
+
+export const answerCacheKey = (provider: string, query: string, history: HistoryEntry[] = [], language?: string) =>
+  [language ? `${provider}:${language}` : provider, ...history.map(entry => normalizeQuery(entry.query)), normalizeQuery(query)].join('\n');
+
+const readEntries = (): CachedAnswer[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CACHE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    // Entries written by an older answer shape are dropped rather than rendered.
+    return stored.flatMap(entry => {
+      try {
+        return [{ key: String(entry.key), answer: validateTurnAnswer(entry.answer), at: Number(entry.at) || 0 }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const createAnswerCache = (ttlMs: number = CACHE_TTL_MS): AnswerCache => {
+  let entries = readEntries();
+
+  const persist = () => {
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+    } catch {
+      entries = entries.slice(0, Math.floor(entries.length / 2));
+      try {
+        localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+      } catch {
+        // Kept in memory for this page only.
+      }
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.find(e => e.key === key);
+      if (!entry) return undefined;
+      if (Date.now() - entry.at > ttlMs) {
+        entries = entries.filter(e => e !== entry);
+        persist();
+        return undefined;
+      }
+      entries = [entry, ...entries.filter(e => e !== entry)];
+      persist();
+      return entry;
+    },
+    set(key, answer) {
+      entries = [{ key, answer, at: Date.now() }, ...entries.filter(e => e.key !== key)].slice(0, MAX_CACHED_ANSWERS);
+      persist();
+    },
+    clear() {
+      entries = [];
+      try {
+        localStorage.removeItem(CACHE_KEY);
+      } catch {
+        // Nothing stored.
+      }
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { TurnAnswer } from '../types';
+import { AnswerProvider, streamAnswer, StreamAnswerOptions } from './answerProvider';
+import { PankgraphClient } from './pankgraphClient';
+import { PubmedSource } from './pubmedSource';
+import { groundAnswer } from './evidence';
+import { verifyCitations } from './citationVerification';
+
+/**
+ * ANSWER PIPELINE
+ * Everything a question goes through before its answer is shown: the provider streams it, QTL numbers
+ * are grounded in PanKgraph, and citations are checked against PubMed metadata.
+ */
+
+export interface AnswerServices {
+  provider: AnswerProvider;
+  pankgraph: PankgraphClient;
+  pubmed: PubmedSource;
+}
+
+export const answerQuestion = async (
+  { provider, pankgraph, pubmed }: AnswerServices,
+  query: string,
+  options: StreamAnswerOptions = {},
+): Promise<TurnAnswer> => {
+  const streamed = await streamAnswer(provider, query, options);
+  // QTL numbers shown with the answer come from PanKgraph whenever it has records for its entities.
+  const grounded = await groundAnswer(streamed, query, pankgraph, options.signal);
+  return { ...grounded, citations: await verifyCitations(grounded.citations, pubmed, options.signal) };
+};
@@ -0,0 +1,331 @@
+import { GRAPH_EDGE_KINDS, GRAPH_NODE_KINDS, OVERVIEW_SECTION_KINDS } from '../constants';
+import {
+  Citation, CitationVerification, GraphEdge, GraphNode, KnowledgeGraph, OverviewClaim, OverviewSection, OverviewSectionKind,
+  QtlRecord, PartialTurnAnswer, TurnAnswer, TurnError,
+} from '../types';
+import { HistoryEntry } from './conversation';
+import { parsePartialJson } from './partialJson';
+import { IncomingSection, withSectionIds } from './overviewSections';
+
+/**
+ * ANSWER PROVIDER LAYER
+ * Every backend that can answer a question (Gemini, local mock, ...) implements this interface.
+ * Providers only stream raw JSON text; `streamAnswer` parses the chunks as they arrive and
+ * validates the finished document, so nothing reaches the UI unvalidated.
+ */
+
+export interface AnswerRequestOptions {
+  signal?: AbortSignal;
+  /** Earlier turns of the same thread, oldest first, already trimmed to the token budget. */
+  history?: HistoryEntry[];
+  /** Language for the answer's prose, named in English (e.g. `Simplified Chinese`); English when absent. */
+  language?: string;
+}
+
+export interface AnswerProvider {
+  readonly name: string;
+  streamText(query: string, options?: AnswerRequestOptions): AsyncIterable<string>;
+}
+
+export interface StreamAnswerOptions extends AnswerRequestOptions {
+  /** Called with a progressively more complete answer every time a chunk parses. */
+  onPartial?: (partial: PartialTurnAnswer) => void;
+}
+
+export class AnswerError extends Error {
+  readonly kind: TurnError['kind'];
+
+  constructor(kind: TurnError['kind'], message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AnswerError';
+    this.kind = kind;
+  }
+}
+
+/** Normalizes anything thrown by a provider into the error shape rendered on a turn card. */
+export const toTurnError = (err: unknown): TurnError => {
+  if (err instanceof AnswerError) return { kind: err.kind, message: err.message };
+  const message = err instanceof Error ? err.message : String(err);
+  return { kind: 'provider', message: message || 'The answer provider failed without a message.' };
+};
+
+// --- Runtime validation ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (path: string, expected: string): never => {
+  throw new AnswerError('invalid-response', `Malformed answer: "${path}" should be ${expected}.`);
+};
+
+const readString = (obj: Record<string, unknown>, key: string, path: string): string => {
+  const value = obj[key];
+  if (typeof value !== 'string') invalid(`${path}.${key}`, 'a string');
+  return value as string;
+};
+
+const VERIFICATION_STATUSES = ['verified', 'mismatched', 'not-found', 'unavailable'];
+
+const isVerification = (value: unknown): value is CitationVerification =>
+  isRecord(value) && VERIFICATION_STATUSES.includes(value.status as string) && Array.isArray(value.mismatches);
+
+const readCitation = (value: unknown, index: number): Citation => {
+  const path = `citations[${index}]`;
+  if (!isRecord(value)) return invalid(path, 'an object');
+  const id = value.id;
+  if (typeof id !== 'number' || !Number.isInteger(id)) invalid(`${path}.id`, 'an integer');
+  return {
+    id: id as number,
+    title: readString(value, 'title', path),
+    authors: readString(value, 'authors', path),
+    journal: readString(value, 'journal', path),
+    pmid: readString(value, 'pmid', path),
+    // Added by citation verification, not by providers; kept when a stored turn is re-validated.
+    ...(isVerification(value.verification) ? { verification: value.verification } : {}),
+  };
+};
+
+const readIds = (value: unknown, path: string): number[] => {
+  if (!Array.isArray(value)) return invalid(path, 'an array');
+  value.forEach((id, i) => {
+    if (typeof id !== 'number' || !Number.isInteger(id)) invalid(`${path}[${i}]`, 'an integer');
+  });
+  return value as number[];
+};
+
+const readStrings = (value: unknown, path: string): string[] => {
+  if (!Array.isArray(value)) return invalid(path, 'an array');
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') invalid(`${path}[${i}]`, 'a string');
+  });
+  return value as string[];
+};
+
+const readClaims = (claims: unknown, path: string): OverviewClaim[] => {
+  if (!Array.isArray(claims)) return invalid(path, 'an array');
+  return claims.map((claim, i) => {
+    if (!isRecord(claim)) return invalid(`${path}[${i}]`, 'an object');
+    return {
+      text: readString(claim, 'text', `${path}[${i}]`),
+      citationIds: readIds(claim.citationIds, `${path}[${i}].citationIds`),
+    };
+  });
+};
+
+type SectionBody<K extends OverviewSectionKind> = Extract<OverviewSection, { kind: K }>['body'];
+
+/** Strict body readers, one per section kind. */
+const SECTION_BODY_READERS: { [K in OverviewSectionKind]: (value: unknown, path: string) => SectionBody<K> } = {
+  text: readClaims,
+  facts: (value, path) => {
+    if (!Array.isArray(value)) return invalid(path, 'an array');
+    return value.map((fact, i) => {
+      if (!isRecord(fact)) return invalid(`${path}[${i}]`, 'an object');
+      return { label: readString(fact, 'label', `${path}[${i}]`), value: readString(fact, 'value', `${path}[${i}]`) };
+    });
+  },
+  table: (value, path) => {
+    if (!isRecord(value)) return invalid(path, 'an object');
+    if (!Array.isArray(value.rows)) return invalid(`${path}.rows`, 'an array');
+    return {
+      columns: readStrings(value.columns, `${path}.columns`),
+      rows: value.rows.map((row, i) => readStrings(row, `${path}.rows[${i}]`)),
+    };
+  },
+};
+
+const isSectionKind = (kind: unknown): kind is OverviewSectionKind => OVERVIEW_SECTION_KINDS.includes(kind as OverviewSectionKind);
+
+const readSection = (value: unknown, index: number): IncomingSection => {
+  const path = `aiOverview[${index}]`;
+  if (!isRecord(value)) return invalid(path, 'an object');
+  const kind = value.kind;
+  if (!isSectionKind(kind)) return invalid(`${path}.kind`, `one of ${OVERVIEW_SECTION_KINDS.join(', ')}`);
+  return {
+    // Ids are assigned on arrival; stored turns keep theirs.
+    ...(typeof value.id === 'string' && value.id ? { id: value.id } : {}),
+    kind,
+    title: readString(value, 'title', path),
+    body: SECTION_BODY_READERS[kind](value.body, `${path}.body`),
+    citationIds: value.citationIds === undefined ? [] : readIds(value.citationIds, `${path}.citationIds`),
+  } as IncomingSection;
+};
+
+const readNode = (value: unknown, index: number): GraphNode => {
+  const path = `knowledgeGraph.nodes[${index}]`;
+  if (!isRecord(value)) return invalid(path, 'an object');
+  const kind = readString(value, 'kind', path);
+  if (!GRAPH_NODE_KINDS.includes(kind as GraphNode['kind'])) invalid(`${path}.kind`, `one of ${GRAPH_NODE_KINDS.join(', ')}`);
+  return { id: readString(value, 'id', path), kind: kind as GraphNode['kind'], label: readString(value, 'label', path) };
+};
+
+const readEdge = (value: unknown, index: number): GraphEdge => {
+  const path = `knowledgeGraph.edges[${index}]`;
+  if (!isRecord(value)) return invalid(path, 'an object');
+  const kind = readString(value, 'kind', path);
+  if (!GRAPH_EDGE_KINDS.includes(kind as GraphEdge['kind'])) invalid(`${path}.kind`, `one of ${GRAPH_EDGE_KINDS.join(', ')}`);
+  return { source: readString(value, 'source', path), target: readString(value, 'target', path), kind: kind as GraphEdge['kind'] };
+};
+
+/** Edges pointing at nodes the model never declared are dropped rather than failing the whole answer. */
+const withoutDanglingEdges = (graph: KnowledgeGraph): KnowledgeGraph => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  return { nodes: graph.nodes, edges: graph.edges.filter(e => ids.has(e.source) && ids.has(e.target)) };
+};
+
+const readGraph = (value: unknown): KnowledgeGraph => {
+  if (!isRecord(value)) return invalid('knowledgeGraph', 'an object');
+  if (!Array.isArray(value.nodes)) return invalid('knowledgeGraph.nodes', 'an array');
+  if (!Array.isArray(value.edges)) return invalid('knowledgeGraph.edges', 'an array');
+  return withoutDanglingEdges({ nodes: value.nodes.map(readNode), edges: value.edges.map(readEdge) });
+};
+
+const readNumber = (obj: Record<string, unknown>, key: string, path: string): number => {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalid(`${path}.${key}`, 'a finite number');
+  return value as number;
+};
+
+const readQtlRecord = (value: unknown, index: number): QtlRecord => {
+  const path = `qtlRecords[${index}]`;
+  if (!isRecord(value)) return invalid(path, 'an object');
+  const pValue = readNumber(value, 'pValue', path);
+  if (pValue < 0 || pValue > 1) invalid(`${path}.pValue`, 'between 0 and 1');
+  const record: QtlRecord = {
+    variant: readString(value, 'variant', path),
+    gene: readString(value, 'gene', path),
+    tissue: readString(value, 'tissue', path),
+    effectAllele: readString(value, 'effectAllele', path),
+    slope: readNumber(value, 'slope', path),
+    pValue,
+    dataset: readString(value, 'dataset', path),
+  };
+  if (value.slopeSe !== undefined) record.slopeSe = readNumber(value, 'slopeSe', path);
+  if (value.position !== undefined) record.position = readNumber(value, 'position', path);
+  return record;
+};
+
+/** Checks an untrusted value against the `TurnAnswer` shape and returns a clean copy. */
+export const validateTurnAnswer = (value: unknown): TurnAnswer => {
+  if (!isRecord(value)) return invalid('answer', 'an object');
+
+  const overview = value.aiOverview;
+  if (!Array.isArray(overview)) return invalid('aiOverview', 'an array');
+
+  const citations = value.citations;
+  if (!Array.isArray(citations)) return invalid('citations', 'an array');
+
+  const followUps = value.followUpQuestions;
+  if (!Array.isArray(followUps)) return invalid('followUpQuestions', 'an array');
+  followUps.forEach((q, i) => {
+    if (typeof q !== 'string') invalid(`followUpQuestions[${i}]`, 'a string');
+  });
+
+  return {
+    aiOverview: withSectionIds(overview.map(readSection)),
+    citations: citations.map(readCitation),
+    knowledgeGraph: readGraph(value.knowledgeGraph),
+    qtlRecords: Array.isArray(value.qtlRecords) ? value.qtlRecords.map(readQtlRecord) : invalid('qtlRecords', 'an array'),
+    followUpQuestions: followUps as string[],
+  };
+};
+
+/** Reads the items of a possibly truncated array, skipping the ones that are not complete yet. */
+const keepValid = <T>(items: unknown, read: (value: unknown, index: number) => T): T[] =>
+  (Array.isArray(items) ? items : []).flatMap((item, i) => {
+    try { return [read(item, i)]; } catch { return []; }
+  });
+
+const partialIds = (value: unknown): number[] =>
+  Array.isArray(value) ? value.filter((id): id is number => Number.isInteger(id)) : [];
+
+const partialStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/** Lenient body readers: ids and cells may still be missing or cut off mid-stream; keep what is well-formed. */
+const PARTIAL_BODY_READERS: { [K in OverviewSectionKind]: (value: unknown) => SectionBody<K> } = {
+  text: value => (Array.isArray(value) ? value : []).filter(isRecord).filter(c => typeof c.text === 'string').map(c => ({
+    text: c.text as string,
+    citationIds: partialIds(c.citationIds),
+  })),
+  facts: value => (Array.isArray(value) ? value : []).filter(isRecord).filter(f => typeof f.label === 'string').map(f => ({
+    label: f.label as string,
+    value: typeof f.value === 'string' ? f.value : '',
+  })),
+  table: value => ({
+    columns: isRecord(value) ? partialStrings(value.columns) : [],
+    rows: isRecord(value) && Array.isArray(value.rows) ? value.rows.map(partialStrings) : [],
+  }),
+};
+
+/** Lenient counterpart of `validateTurnAnswer` for answers that are still streaming. */
+export const toPartialAnswer = (value: unknown): PartialTurnAnswer => {
+  const partial: PartialTurnAnswer = {};
+  if (!isRecord(value)) return partial;
+
+  const overview = value.aiOverview;
+  if (Array.isArray(overview)) {
+    // A section shows up once its kind has arrived; its title and body fill in as they stream.
+    partial.aiOverview = withSectionIds(overview.filter(isRecord).filter(s => isSectionKind(s.kind)).map(s => ({
+      kind: s.kind,
+      title: typeof s.title === 'string' ? s.title : '',
+      body: PARTIAL_BODY_READERS[s.kind as OverviewSectionKind](s.body),
+      citationIds: partialIds(s.citationIds),
+    }) as IncomingSection));
+  }
+  if (Array.isArray(value.citations)) {
+    partial.citations = keepValid(value.citations, readCitation);
+  }
+  const graph = value.knowledgeGraph;
+  if (isRecord(graph)) {
+    partial.knowledgeGraph = withoutDanglingEdges({
+      nodes: keepValid(graph.nodes, readNode),
+      edges: keepValid(graph.edges, readEdge),
+    });
+  }
+  if (Array.isArray(value.qtlRecords)) {
+    partial.qtlRecords = keepValid(value.qtlRecords, readQtlRecord);
+  }
+  if (Array.isArray(value.followUpQuestions)) {
+    partial.followUpQuestions = value.followUpQuestions.filter((q): q is string => typeof q === 'string' && q.length > 0);
+  }
+  return partial;
+};
+
+/** Parses a provider's raw JSON text and validates it. */
+export const parseTurnAnswer = (text: string | undefined): TurnAnswer => {
+  if (!text || !text.trim()) {
+    throw new AnswerError('invalid-response', 'The model returned an empty answer.');
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new AnswerError('invalid-response', 'The model returned text that is not valid JSON.', { cause: err });
+  }
+  return validateTurnAnswer(parsed);
+};
+
+/**
+ * Runs a provider and reports partial answers while it streams.
+ * Resolves with the validated answer; rejects with an `AnswerError` (check `signal.aborted` for a stop).
+ */
+export const streamAnswer = async (
+  provider: AnswerProvider,
+  query: string,
+  { signal, history, language, onPartial }: StreamAnswerOptions = {},
+): Promise<TurnAnswer> => {
+  let text = '';
+  try {
+    for await (const chunk of provider.streamText(query, { signal, history, language })) {
+      if (signal?.aborted) throw new AnswerError('provider', 'Generation stopped.');
+      text += chunk;
+      onPartial?.(toPartialAnswer(parsePartialJson(text)));
+    }
+  } catch (err) {
+    if (err instanceof AnswerError) throw err;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new AnswerError('provider', `${provider.name} request failed: ${message}`, { cause: err });
+  }
+  return parseTurnAnswer(text);
+};
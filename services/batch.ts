@@ -0,0 +1,113 @@
+import { QtlRecord, TurnAnswer, TurnError } from '../types';
+import { BatchInputRow } from './batchInput';
+import { placeholders } from './suggestions';
+
+/**
+ * BATCH MODE
+ * One templated question per input row, answered through the normal pipeline a few at a time.
+ * Slots the rows do not provide ({tissue}, {disease}) take one value for the whole batch.
+ */
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface BatchRow {
+  id: string;
+  input: BatchInputRow;
+  query: string;
+  status: BatchStatus;
+  answer?: TurnAnswer;
+  error?: TurnError;
+  /** Why a `skipped` row was not asked. */
+  skipReason?: string;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 6;
+
+/** `text` with every `{slot}` that has a value filled in; slots without one are left as they are. */
+export const fillTemplate = (text: string, values: Record<string, string | undefined>) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, slot: string) => values[slot]?.trim() || placeholder);
+
+/** Queued rows for `template`; rows that would leave a slot empty are `skipped` with a reason. */
+export const buildBatchRows = (rows: BatchInputRow[], template: string, shared: Record<string, string>): BatchRow[] =>
+  rows.map((input, i) => {
+    const query = fillTemplate(template, { ...shared, rsid: input.rsid, gene: input.gene, tissue: input.tissue || shared.tissue });
+    const missing = placeholders(query).map(p => p.slot);
+    return {
+      id: `batch-${i}`,
+      input,
+      query,
+      status: missing.length > 0 ? 'skipped' : 'queued',
+      skipReason: missing.length > 0 ? `No ${missing.join(', ')} for this row` : undefined,
+    };
+  });
+
+/**
+ * Calls `worker` for every item with at most `limit` in flight. Stops starting new items once `signal` aborts;
+ * items already running are expected to observe the same signal.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal,
+) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
+
+// --- Results table ---
+
+export interface BatchSummary {
+  variant?: string;
+  gene?: string;
+  tissue?: string;
+  slope?: number;
+  pValue?: number;
+  citations?: number;
+}
+
+/**
+ * The row's headline numbers: the strongest QTL record for its variant/gene (in its tissue, when the row names one).
+ * Rows without an answer keep their input identifiers.
+ */
+export const summarizeRow = (row: BatchRow): BatchSummary => {
+  const { rsid, gene, tissue } = row.input;
+  if (!row.answer) return { variant: rsid, gene, tissue };
+
+  const matches = (r: QtlRecord) =>
+    (!rsid || r.variant === rsid) && (!gene || r.gene.toUpperCase() === gene) && (!tissue || r.tissue.toLowerCase() === tissue.toLowerCase());
+  const candidates = row.answer.qtlRecords.filter(matches);
+  const pool = candidates.length > 0 ? candidates : row.answer.qtlRecords.filter(r => r.variant === rsid || r.gene.toUpperCase() === gene);
+  const best = [...pool].sort((a, b) => a.pValue - b.pValue)[0];
+
+  return {
+    variant: rsid ?? best?.variant,
+    gene: gene ?? best?.gene,
+    tissue: best?.tissue ?? tissue,
+    slope: best?.slope,
+    pValue: best?.pValue,
+    citations: row.answer.citations.length,
+  };
+};
+
+export type BatchSortKey = 'variant' | 'gene' | 'slope' | 'pValue' | 'citations';
+
+/** Sorted copy; rows without a value for the key always go last. */
+export const sortBatchRows = (rows: BatchRow[], key: BatchSortKey, descending: boolean): BatchRow[] => {
+  const keyed = rows.map(row => ({ row, value: summarizeRow(row)[key] }));
+  return keyed
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) return a.value === undefined ? (b.value === undefined ? 0 : 1) : -1;
+      const order = typeof a.value === 'number' && typeof b.value === 'number'
+        ? a.value - b.value
+        : String(a.value).localeCompare(String(b.value), undefined, { numeric: true });
+      return descending ? -order : order;
+    })
+    .map(({ row }) => row);
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchInput } from './batchInput';
+
+describe('parseBatchInput', () => {
+  it('does not read ref/alt alleles as genes in a file without a header', () => {
+    const { rows } = parseBatchInput('rs2402203,C,T\nrs689,A,G\nrs1,AG,-');
+
+    expect(rows.map(({ rsid, gene }) => ({ rsid, gene }))).toEqual([
+      { rsid: 'rs2402203', gene: undefined },
+      { rsid: 'rs689', gene: undefined },
+      { rsid: 'rs1', gene: undefined },
+    ]);
+  });
+
+  it('still picks up gene symbols by shape next to alleles', () => {
+    const { rows } = parseBatchInput('rs2402203,C,T,CFTR\nrs689,A,G,INS\nrs3,G,A,PTPN22');
+
+    expect(rows.map(row => row.gene)).toEqual(['CFTR', 'INS', 'PTPN22']);
+  });
+
+  it('reads named columns when there is a header', () => {
+    const { rows, skipped } = parseBatchInput('rsid,gene,tissue\nrs689,INS,Pancreas\nnot-an-id,CEL,');
+
+    expect(rows).toEqual([{ line: 2, rsid: 'rs689', gene: 'INS', tissue: 'Pancreas' }]);
+    expect(skipped).toEqual([{ line: 3, reason: '"not-an-id" is not an rsID' }]);
+  });
+});
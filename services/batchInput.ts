@@ -0,0 +1,150 @@
+import index from '../data/suggestion-index.json';
+
+/**
+ * BATCH INPUT
+ * Reads a list of variants and/or genes for batch mode from CSV, TSV or a minimal VCF.
+ * - CSV/TSV: a header row naming the columns (rsid / snp / variant, gene / symbol, tissue) is used when present;
+ *   without one, cells that look like rsIDs or gene symbols are picked up by shape (alleles such as C or AG are not genes).
+ * - VCF: the ID column gives the rsID; GENE= or dbSNP-style GENEINFO=SYMBOL:id in INFO gives the gene.
+ * Unusable rows are reported with their line number rather than failing the whole file.
+ */
+
+export interface BatchInputRow {
+  /** 1-based line in the source text. */
+  line: number;
+  rsid?: string;
+  gene?: string;
+  tissue?: string;
+}
+
+export interface BatchInput {
+  format: 'csv' | 'tsv' | 'vcf';
+  rows: BatchInputRow[];
+  skipped: Array<{ line: number; reason: string }>;
+}
+
+/** Each row is one model call; larger lists should be split. */
+export const MAX_BATCH_ROWS = 200;
+
+const RSID = /^rs\d+$/i;
+const GENE_SYMBOL = /^[A-Z][A-Z0-9]*(-[A-Z0-9]+)?$/;
+const ALLELE = /^([ACGT]+|-)$/;
+const KNOWN_GENES = new Set(index.genes.map(g => g.symbol));
+
+const COLUMN_ALIASES: Record<'rsid' | 'gene' | 'tissue', string[]> = {
+  rsid: ['rsid', 'rs', 'rs_id', 'snp', 'snp_id', 'variant', 'variant_id', 'marker', 'id'],
+  gene: ['gene', 'gene_symbol', 'symbol', 'gene_name', 'nearest_gene', 'locus'],
+  tissue: ['tissue', 'tissue_name'],
+};
+
+/** Splits one delimited line, honouring double-quoted fields (with "" as an escaped quote). */
+const splitLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else cell += char;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const normalizeRsid = (value: string) => (RSID.test(value) ? `rs${value.slice(2)}` : undefined);
+const normalizeGene = (value: string) => (GENE_SYMBOL.test(value.toUpperCase()) ? value.toUpperCase() : undefined);
+
+/** A cell read as a gene without a header: a bundled symbol, or a symbol-shaped cell that is not a ref/alt allele. */
+const looksLikeGene = (cell: string) =>
+  KNOWN_GENES.has(cell) || (GENE_SYMBOL.test(cell) && cell.length >= 2 && !ALLELE.test(cell) && !RSID.test(cell));
+
+const lines = (text: string) =>
+  text.split(/\r?\n/).map((content, i) => ({ content, line: i + 1 })).filter(l => l.content.trim() !== '');
+
+const finish = (format: BatchInput['format'], rows: BatchInputRow[], skipped: BatchInput['skipped']): BatchInput => {
+  const seen = new Set<string>();
+  const unique: BatchInputRow[] = [];
+  rows.forEach(row => {
+    const key = `${row.rsid ?? ''}|${row.gene ?? ''}|${row.tissue ?? ''}`;
+    if (seen.has(key)) skipped.push({ line: row.line, reason: 'Duplicate of an earlier row' });
+    else {
+      seen.add(key);
+      unique.push(row);
+    }
+  });
+  unique.slice(MAX_BATCH_ROWS).forEach(row => skipped.push({ line: row.line, reason: `Over the ${MAX_BATCH_ROWS}-row limit` }));
+  return { format, rows: unique.slice(0, MAX_BATCH_ROWS), skipped: skipped.sort((a, b) => a.line - b.line) };
+};
+
+const parseVcf = (text: string): BatchInput => {
+  const rows: BatchInputRow[] = [];
+  const skipped: BatchInput['skipped'] = [];
+  lines(text)
+    .filter(({ content }) => !content.startsWith('#'))
+    .forEach(({ content, line }) => {
+      const [, , id = '', , , , , info = ''] = content.split('\t');
+      const rsid = id.split(';').map(normalizeRsid).find(Boolean);
+      const fields = new Map(info.split(';').map(entry => [entry.split('=')[0], entry.split('=')[1] ?? ''] as const));
+      const geneField = fields.get('GENE') || fields.get('GENEINFO')?.split(/[:|]/)[0];
+      const gene = geneField ? normalizeGene(geneField) : undefined;
+      if (!rsid && !gene) skipped.push({ line, reason: `No rsID in the ID column ("${id || '.'}")` });
+      else rows.push({ line, rsid, gene });
+    });
+  return finish('vcf', rows, skipped);
+};
+
+const parseDelimited = (text: string): BatchInput => {
+  const all = lines(text);
+  const first = all[0]?.content ?? '';
+  const format = first.split('\t').length > first.split(',').length ? 'tsv' : 'csv';
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const table = all.map(({ content, line }) => ({ cells: splitLine(content, delimiter), line }));
+
+  // A header is a first row whose cells name at least one known column.
+  const header = (table[0]?.cells ?? []).map(cell => cell.toLowerCase().replace(/[\s.-]+/g, '_'));
+  const columnOf = (key: keyof typeof COLUMN_ALIASES) => header.findIndex(name => COLUMN_ALIASES[key].includes(name));
+  const columns = { rsid: columnOf('rsid'), gene: columnOf('gene'), tissue: columnOf('tissue') };
+  const hasHeader = columns.rsid >= 0 || columns.gene >= 0;
+
+  const rows: BatchInputRow[] = [];
+  const skipped: BatchInput['skipped'] = [];
+  (hasHeader ? table.slice(1) : table).forEach(({ cells, line }) => {
+    let row: BatchInputRow;
+    if (hasHeader) {
+      const rawRsid = columns.rsid >= 0 ? cells[columns.rsid] ?? '' : '';
+      const rawGene = columns.gene >= 0 ? cells[columns.gene] ?? '' : '';
+      row = {
+        line,
+        rsid: rawRsid ? normalizeRsid(rawRsid) : undefined,
+        gene: rawGene ? normalizeGene(rawGene) : undefined,
+        tissue: (columns.tissue >= 0 && cells[columns.tissue]) || undefined,
+      };
+      if (rawRsid && !row.rsid) {
+        skipped.push({ line, reason: `"${rawRsid}" is not an rsID` });
+        return;
+      }
+    } else {
+      row = {
+        line,
+        rsid: cells.map(normalizeRsid).find(Boolean),
+        // Without a header only cells already written as symbols count; "pancreas" is not gene PANCREAS.
+        gene: cells.find(looksLikeGene),
+      };
+    }
+    if (!row.rsid && !row.gene) skipped.push({ line, reason: 'No rsID or gene symbol' });
+    else rows.push(row);
+  });
+  return finish(format, rows, skipped);
+};
+
+export const parseBatchInput = (text: string): BatchInput =>
+  /^##fileformat=VCF/i.test(text.trimStart()) || /^#CHROM\t/m.test(text) ? parseVcf(text) : parseDelimited(text);
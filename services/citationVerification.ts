@@ -0,0 +1,124 @@
+import { Citation, CitationField, CitationVerification, PubmedRecord, TurnData } from '../types';
+import { splitAuthors, splitJournal } from '../utils/citation';
+import { filterSectionCitations } from './overviewSections';
+import { PubmedSource } from './pubmedSource';
+
+/**
+ * CITATION VERIFICATION
+ * Checks that the title, first author, journal and year a model attached to a PMID belong to that PMID.
+ * Comparisons are deliberately forgiving about formatting (case, punctuation, truncated titles, journal
+ * abbreviations) and strict about substance: a real PMID paired with another paper's title is `mismatched`.
+ */
+
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const words = (text: string) => normalize(text).split(' ').filter(Boolean);
+
+/** Share of distinct words the two titles have in common, relative to the longer one. */
+const overlap = (a: string, b: string) => {
+  const wa = new Set(words(a));
+  const wb = new Set(words(b));
+  const common = [...wa].filter(w => wb.has(w)).length;
+  return common / Math.max(wa.size, wb.size, 1);
+};
+
+const TITLE_SIMILARITY = 0.8;
+/** A claimed title ending in an ellipsis only has to be a prefix this long. */
+const MIN_TRUNCATED_TITLE = 20;
+
+const titleMatches = (claimed: string, canonical: string) => {
+  const truncated = /(\.\.\.|…)\s*$/.test(claimed);
+  const stem = normalize(claimed.replace(/(\.\.\.|…)\s*$/, ''));
+  if (truncated && stem.length >= MIN_TRUNCATED_TITLE) return normalize(canonical).startsWith(stem);
+  return overlap(claimed, canonical) >= TITLE_SIMILARITY;
+};
+
+/** Compares first authors by surname: `"Robertson CC"` and `"Robertson C"` agree. */
+const authorsMatch = (claimed: string, canonical: string[]) => {
+  const [first] = splitAuthors(claimed).names;
+  if (!first || canonical.length === 0) return true;
+  return words(first)[0] === words(canonical[0])[0];
+};
+
+const journalMatches = (claimed: string, record: PubmedRecord) => {
+  const name = normalize(claimed);
+  if (!name) return true;
+  return [record.journal, record.journalAbbrev ?? '']
+    .map(normalize)
+    .filter(Boolean)
+    .some(candidate => candidate === name || candidate.startsWith(`${name} `) || name.startsWith(`${candidate} `));
+};
+
+/** The claimed fields that disagree with the canonical record. */
+export const compareCitation = (citation: Citation, record: PubmedRecord): CitationField[] => {
+  const { journal, year } = splitJournal(citation.journal);
+  const mismatches: CitationField[] = [];
+  if (!titleMatches(citation.title, record.title)) mismatches.push('title');
+  if (!authorsMatch(citation.authors, record.authors)) mismatches.push('authors');
+  if (!journalMatches(journal, record)) mismatches.push('journal');
+  if (year && record.year && year !== record.year) mismatches.push('year');
+  return mismatches;
+};
+
+/**
+ * Every citation with its `verification` filled in, looked up in one batch.
+ * If the source cannot be reached the citations are marked `unavailable` rather than failing the answer.
+ */
+export const verifyCitations = async (
+  citations: Citation[],
+  source: PubmedSource,
+  signal?: AbortSignal,
+): Promise<Citation[]> => {
+  if (citations.length === 0) return citations;
+  const checkedAt = Date.now();
+  const pmids = [...new Set(citations.map(c => c.pmid.trim()).filter(pmid => /^\d{1,8}$/.test(pmid)))];
+
+  let records: Map<string, PubmedRecord>;
+  try {
+    records = await source.fetchRecords(pmids, { signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn(`Citation verification against ${source.name} failed:`, err);
+    const unavailable: CitationVerification = { status: 'unavailable', source: source.name, mismatches: [], checkedAt };
+    return citations.map(c => ({ ...c, verification: unavailable }));
+  }
+
+  return citations.map(citation => {
+    const record = records.get(citation.pmid.trim());
+    if (!record) {
+      return { ...citation, verification: { status: 'not-found', source: source.name, mismatches: [], checkedAt } };
+    }
+    const mismatches = compareCitation(citation, record);
+    return {
+      ...citation,
+      verification: { status: mismatches.length > 0 ? 'mismatched' : 'verified', source: source.name, record, mismatches, checkedAt },
+    };
+  });
+};
+
+/** True once every citation has been checked (or there is nothing to check). */
+export const isVerified = (turn: Pick<TurnData, 'citations'>) => turn.citations.every(c => c.verification);
+
+const isUnverifiable = (citation: Citation) =>
+  citation.verification?.status === 'mismatched' || citation.verification?.status === 'not-found';
+
+/**
+ * The turn as rendered with unverifiable citations hidden: the references are removed
+ * and so are the markers pointing at them, so no claim shows a dangling number.
+ */
+export const withoutUnverifiable = (turn: TurnData): TurnData => {
+  const dropped = new Set(turn.citations.filter(isUnverifiable).map(c => c.id));
+  if (dropped.size === 0) return turn;
+  const keep = (id: number) => !dropped.has(id);
+  return {
+    ...turn,
+    citations: turn.citations.filter(c => keep(c.id)),
+    aiOverview: turn.aiOverview.map(section => filterSectionCitations(section, keep)),
+  };
+};
@@ -0,0 +1,134 @@
+import { TurnData } from '../types';
+import { isEmptySection, sectionPassages, sectionText } from './overviewSections';
+
+/**
+ * CONVERSATION TREE & HISTORY
+ * Turns form a tree through `parentId`; the page shows one thread (root → active leaf) at a time.
+ * `buildHistory` turns that thread into model context, trimmed to a token budget.
+ */
+
+export const HISTORY_TOKEN_BUDGET = 2000;
+
+export interface HistoryEntry {
+  query: string;
+  answer: string;
+}
+
+export interface TreeRow {
+  turn: TurnData;
+  /** Position in its thread (0 = first question), i.e. the Q number minus one. */
+  depth: number;
+  /** How many forks away from the main line this turn is; drives indentation. */
+  branchLevel: number;
+  /** True when the parent has more than one follow-up and this is not the first. */
+  startsBranch: boolean;
+}
+
+const byId = (turns: TurnData[]) => new Map(turns.map(t => [t.id, t]));
+
+/** Parent id, ignoring references to turns that are not in this session (e.g. after a single-turn import). */
+const parentOf = (turn: TurnData, index: Map<string, TurnData>) =>
+  turn.parentId && index.has(turn.parentId) ? turn.parentId : undefined;
+
+const childrenOf = (turns: TurnData[], index: Map<string, TurnData>) => {
+  const children = new Map<string | undefined, TurnData[]>();
+  turns.forEach(turn => {
+    const parent = parentOf(turn, index);
+    children.set(parent, [...(children.get(parent) ?? []), turn]);
+  });
+  return children;
+};
+
+/** Root → leaf path ending at `leafId` (or at the most recent turn). */
+export const threadTo = (turns: TurnData[], leafId?: string): TurnData[] => {
+  const index = byId(turns);
+  const path: TurnData[] = [];
+  let current = (leafId && index.get(leafId)) || turns[turns.length - 1];
+  while (current) {
+    path.unshift(current);
+    const parent = parentOf(current, index);
+    current = parent ? index.get(parent)! : undefined!;
+  }
+  return path;
+};
+
+/** Follows the most recent follow-up at each step, so opening a branch shows it to its end. */
+export const latestLeafUnder = (turns: TurnData[], turnId: string): string => {
+  const children = childrenOf(turns, byId(turns));
+  let id = turnId;
+  for (let next = children.get(id); next && next.length > 0; next = children.get(id)) {
+    id = next[next.length - 1].id;
+  }
+  return id;
+};
+
+/** Depth-first rows of the whole tree, first follow-up continuing the line and later ones branching off. */
+export const treeRows = (turns: TurnData[]): TreeRow[] => {
+  const children = childrenOf(turns, byId(turns));
+  const rows: TreeRow[] = [];
+  const visit = (turn: TurnData, depth: number, branchLevel: number, startsBranch: boolean) => {
+    rows.push({ turn, depth, branchLevel, startsBranch });
+    (children.get(turn.id) ?? []).forEach((child, i) => visit(child, depth + 1, branchLevel + (i > 0 ? 1 : 0), i > 0));
+  };
+  (children.get(undefined) ?? []).forEach((root, i) => visit(root, 0, i > 0 ? 1 : 0, i > 0));
+  return rows;
+};
+
+/** The tree without one turn; its follow-ups move up to its parent instead of becoming orphans. */
+export const removeTurn = (turns: TurnData[], turnId: string): TurnData[] => {
+  const removed = turns.find(t => t.id === turnId);
+  if (!removed) return turns;
+  return turns
+    .filter(t => t.id !== turnId)
+    .map(t => (t.parentId === turnId ? { ...t, parentId: removed.parentId } : t));
+};
+
+// --- Model context ---
+
+/** Rough token count (about four characters per token for English prose). */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const fullAnswer = (turn: TurnData) =>
+  turn.aiOverview
+    .filter(section => !isEmptySection(section))
+    .map(section => `${section.title}: ${sectionText(section)}`)
+    .join('\n');
+
+/** First passage of every section: keeps the entities (genes, variants) at a fraction of the size. */
+const briefAnswer = (turn: TurnData) =>
+  turn.aiOverview
+    .filter(section => !isEmptySection(section))
+    .map(section => `${section.title}: ${sectionPassages(section)[0]}`)
+    .join('\n');
+
+/**
+ * Prior turns of a thread as history, newest kept first: each turn goes in whole if it fits the budget,
+ * otherwise as a brief summary; once even that does not fit, older turns are dropped.
+ */
+export const buildHistory = (thread: TurnData[], budget: number = HISTORY_TOKEN_BUDGET): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  let used = 0;
+
+  for (let i = thread.length - 1; i >= 0; i--) {
+    const turn = thread[i];
+    if (turn.error || turn.status === 'streaming' || turn.status === 'queued') continue;
+
+    const candidates = [fullAnswer(turn), briefAnswer(turn)];
+    const answer = candidates.find(text => used + estimateTokens(turn.query + text) <= budget);
+    if (answer === undefined) break;
+
+    entries.unshift({ query: turn.query, answer });
+    used += estimateTokens(turn.query + answer);
+  }
+  return entries;
+};
+
+// --- Filtering ---
+
+/** True when every word of `filter` occurs in the question, the answer text or a cited title (case-insensitive). */
+export const matchesFilter = (turn: TurnData, filter: string): boolean => {
+  const terms = filter.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [turn.query, fullAnswer(turn), ...turn.citations.map(c => c.title)].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
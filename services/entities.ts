@@ -0,0 +1,237 @@
+import { EntityKind, EntityLink, EntityMention, TurnData } from '../types';
+import { sectionPassages } from './overviewSections';
+
+/**
+ * ENTITY RECOGNITION & LINKING
+ * Finds biomedical identifiers (rsIDs, Ensembl gene ids, MONDO ids, PMIDs and known gene symbols) in free text,
+ * checks them against their published formats, and turns the entities of a turn into PanKbase / external links.
+ * Malformed ids are still recognised so the UI can flag them; when the intent is unambiguous
+ * (a zero-padded number that lost a digit) `id` carries the repaired form.
+ */
+
+export const PANKBASE_URL = 'https://pankbase.org';
+
+export const pubmedUrl = (pmid: string) => `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
+
+/** Islet / T1D genes recognised as bare symbols; a turn adds the genes named in its own graph and QTL records. */
+const KNOWN_GENE_SYMBOLS = [
+  'ABCC8', 'BACH2', 'CEL', 'CFTR', 'CLEC16A', 'CTLA4', 'CTRB1', 'CTRB2', 'ERBB3', 'GCK', 'GLIS3', 'HLA-DQA1',
+  'HLA-DQB1', 'HLA-DRB1', 'HNF1A', 'IFIH1', 'IKZF3', 'IL2RA', 'INS', 'KCNJ11', 'MAFA', 'NEUROD1', 'NKX6-1',
+  'PDX1', 'PRSS1', 'PTPN22', 'SH2B3', 'SPINK1', 'STAT4', 'TCF7L2', 'TYK2', 'UBASH3A',
+];
+
+const ENSEMBL_DIGITS = 11;
+const MONDO_DIGITS = 7;
+const MAX_PMID_DIGITS = 8;
+
+interface Matcher {
+  kind: EntityKind;
+  pattern: RegExp;
+  normalize: (match: RegExpExecArray) => Pick<EntityMention, 'id' | 'issue'>;
+}
+
+const MATCHERS: Matcher[] = [
+  {
+    kind: 'variant',
+    pattern: /\brs(\d+)\b/gi,
+    normalize: ([, digits]) => (digits.startsWith('0')
+      ? { id: `rs${digits}`, issue: 'rsIDs never start with 0 after "rs".' }
+      : { id: `rs${digits}` }),
+  },
+  {
+    kind: 'ensembl-gene',
+    pattern: /\bENSG(\d+)(?:\.\d+)?\b/g,
+    normalize: ([text, digits]) => {
+      if (digits.length === ENSEMBL_DIGITS) return { id: `ENSG${digits}` };
+      const issue = `Ensembl gene ids have ${ENSEMBL_DIGITS} digits after ENSG; "${text}" has ${digits.length}.`;
+      return digits.length < ENSEMBL_DIGITS
+        ? { id: `ENSG${digits.padStart(ENSEMBL_DIGITS, '0')}`, issue }
+        : { id: text, issue };
+    },
+  },
+  {
+    kind: 'disease',
+    pattern: /\bMONDO[_:](\d+)\b/g,
+    normalize: ([text, digits]) => {
+      if (digits.length === MONDO_DIGITS) return { id: `MONDO_${digits}` };
+      const issue = `MONDO ids have ${MONDO_DIGITS} digits; "${text}" has ${digits.length}.`;
+      return digits.length < MONDO_DIGITS
+        ? { id: `MONDO_${digits.padStart(MONDO_DIGITS, '0')}`, issue }
+        : { id: text, issue };
+    },
+  },
+  {
+    kind: 'publication',
+    pattern: /\bPMID:?\s*(\d+)\b/gi,
+    normalize: ([, digits]) => (digits.length <= MAX_PMID_DIGITS
+      ? { id: `PMID:${digits}` }
+      : { id: `PMID:${digits}`, issue: `PubMed ids have at most ${MAX_PMID_DIGITS} digits.` }),
+  },
+];
+
+const SYMBOL_PATTERN = /\b[A-Z][A-Z0-9]{1,9}(?:-[A-Z0-9]+)?\b/g;
+
+/** Identifiers whose text could not be repaired are not linked anywhere. */
+const isLinkable = (mention: EntityMention) => !mention.issue || mention.id !== mention.text;
+
+/**
+ * Every identifier in `text`, in reading order, without overlaps.
+ * `symbols` extends the gene-symbol lexicon (e.g. with the genes a turn's answer is about).
+ */
+export const extractEntities = (text: string, symbols: Iterable<string> = []): EntityMention[] => {
+  const found: EntityMention[] = [];
+
+  MATCHERS.forEach(({ kind, pattern, normalize }) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      found.push({ kind, text: match[0], start, end: start + match[0].length, ...normalize(match as RegExpExecArray) });
+    }
+  });
+
+  const lexicon = new Set([...KNOWN_GENE_SYMBOLS, ...symbols]);
+  for (const match of text.matchAll(SYMBOL_PATTERN)) {
+    if (!lexicon.has(match[0])) continue;
+    const start = match.index ?? 0;
+    found.push({ kind: 'gene-symbol', text: match[0], id: match[0], start, end: start + match[0].length });
+  }
+
+  // Earlier, then longer, matches win (so "PMID: 123" is one entity, not a PMID and a stray number).
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const mentions: EntityMention[] = [];
+  found.forEach(mention => {
+    const last = mentions[mentions.length - 1];
+    if (!last || mention.start >= last.end) mentions.push(mention);
+  });
+  return mentions;
+};
+
+/** Gene symbols a turn's structured data names, which its text may mention without an id. */
+export const turnGeneSymbols = (turn: Pick<TurnData, 'knowledgeGraph' | 'qtlRecords'>): string[] => [
+  ...turn.knowledgeGraph.nodes.filter(n => n.kind === 'gene').map(n => n.label),
+  ...turn.qtlRecords.map(r => r.gene),
+];
+
+/** Every entity a turn mentions in its question, its overview claims or its knowledge graph ids. */
+export const turnEntities = (turn: Pick<TurnData, 'query' | 'aiOverview' | 'knowledgeGraph' | 'qtlRecords'>): EntityMention[] => {
+  const symbols = turnGeneSymbols(turn);
+  const texts = [
+    turn.query,
+    ...turn.aiOverview.flatMap(sectionPassages),
+    ...turn.knowledgeGraph.nodes.map(node => node.id),
+  ];
+  return texts.flatMap(text => extractEntities(text, symbols));
+};
+
+// --- Links ---
+
+export interface EntityLinks {
+  internal: EntityLink[];
+  external: EntityLink[];
+}
+
+interface GeneEntity {
+  ensemblId?: string;
+  symbol?: string;
+}
+
+const geneLinks = ({ ensemblId, symbol }: GeneEntity): EntityLinks => {
+  const key = ensemblId ?? symbol!;
+  const label = symbol && ensemblId ? `${symbol} (${ensemblId})` : key;
+  const kind: EntityKind = ensemblId ? 'ensembl-gene' : 'gene-symbol';
+  return {
+    internal: [
+      { entityId: key, kind, source: 'PanKbase', title: `${symbol ?? ensemblId} Gene Entity`, detail: 'Gene card, islet expression and associated QTLs', href: `${PANKBASE_URL}/gene/${encodeURIComponent(key)}` },
+    ],
+    external: [
+      { entityId: key, kind, source: 'Ensembl', title: `Ensembl Browser: ${label}`, detail: 'Transcript and sequence data', href: `https://www.ensembl.org/Homo_sapiens/Gene/Summary?g=${encodeURIComponent(key)}` },
+      {
+        entityId: key,
+        kind,
+        source: 'Open Targets',
+        title: `Open Targets: ${symbol ?? ensemblId}`,
+        detail: 'Target-disease association evidence',
+        href: ensemblId
+          ? `https://platform.opentargets.org/target/${ensemblId}`
+          : `https://platform.opentargets.org/search?q=${encodeURIComponent(key)}`,
+      },
+    ],
+  };
+};
+
+const variantLinks = (rsid: string): EntityLinks => ({
+  internal: [
+    { entityId: rsid, kind: 'variant', source: 'PanKbase', title: `${rsid} Variant`, detail: 'Population frequency, QTLs and phenotype associations', href: `${PANKBASE_URL}/variant/${rsid}` },
+  ],
+  external: [
+    { entityId: rsid, kind: 'variant', source: 'dbSNP', title: `dbSNP Entry: ${rsid}`, detail: 'National Center for Biotechnology Information', href: `https://www.ncbi.nlm.nih.gov/snp/${rsid}` },
+    { entityId: rsid, kind: 'variant', source: 'Open Targets', title: `Open Targets: ${rsid}`, detail: 'Locus-to-gene assignment evidence', href: `https://platform.opentargets.org/search?q=${rsid}` },
+  ],
+});
+
+const diseaseLinks = (mondoId: string): EntityLinks => ({
+  internal: [
+    { entityId: mondoId, kind: 'disease', source: 'PanKbase', title: `${mondoId} Disease`, detail: 'Associated genes, variants and datasets', href: `${PANKBASE_URL}/disease/${mondoId}` },
+  ],
+  external: [
+    { entityId: mondoId, kind: 'disease', source: 'Open Targets', title: `Open Targets: ${mondoId}`, detail: 'Disease-target association evidence', href: `https://platform.opentargets.org/disease/${mondoId}` },
+  ],
+});
+
+const publicationLinks = (id: string): EntityLinks => ({
+  internal: [],
+  external: [
+    { entityId: id, kind: 'publication', source: 'PubMed', title: `PubMed: ${id}`, detail: 'National Library of Medicine', href: pubmedUrl(id.replace('PMID:', '')) },
+  ],
+});
+
+/**
+ * PanKbase and external links for a set of mentions, one group per distinct entity.
+ * A gene mentioned both by symbol and by Ensembl id gets a single set of links when
+ * `geneIds` (symbol → Ensembl id, e.g. from the knowledge graph) ties the two together.
+ */
+export const buildEntityLinks = (mentions: EntityMention[], geneIds: Map<string, string> = new Map()): EntityLinks => {
+  const genes = new Map<string, GeneEntity>();
+  const others = new Map<string, EntityMention>();
+  const symbolOf = new Map([...geneIds].map(([symbol, id]) => [id, symbol]));
+
+  mentions.filter(isLinkable).forEach(mention => {
+    if (mention.kind === 'ensembl-gene') {
+      genes.set(mention.id, { ensemblId: mention.id, symbol: symbolOf.get(mention.id) });
+    } else if (mention.kind === 'gene-symbol') {
+      const ensemblId = geneIds.get(mention.id);
+      const key = ensemblId ?? mention.id;
+      if (!genes.has(key)) genes.set(key, { ensemblId, symbol: mention.id });
+    } else if (!others.has(mention.id)) {
+      others.set(mention.id, mention);
+    }
+  });
+
+  const groups: EntityLinks[] = [
+    ...[...genes.values()].map(geneLinks),
+    ...[...others.values()].map(({ kind, id }) =>
+      kind === 'variant' ? variantLinks(id) : kind === 'disease' ? diseaseLinks(id) : publicationLinks(id)),
+  ];
+  return {
+    internal: groups.flatMap(g => g.internal),
+    external: groups.flatMap(g => g.external),
+  };
+};
+
+/** Links for everything a turn mentions; gene symbols are tied to the Ensembl ids of its graph's gene nodes. */
+export const turnEntityLinks = (turn: TurnData): EntityLinks => {
+  const geneIds = new Map<string, string>();
+  turn.knowledgeGraph.nodes
+    .filter(node => node.kind === 'gene')
+    .forEach(node => {
+      const [mention] = extractEntities(node.id);
+      if (mention?.kind === 'ensembl-gene' && isLinkable(mention)) geneIds.set(node.label, mention.id);
+    });
+  return buildEntityLinks(turnEntities(turn), geneIds);
+};
+
+/** Where a chip in the text points: the PanKbase page for entities PanKbase covers, PubMed for papers. */
+export const entityHref = (mention: EntityMention): string | undefined => {
+  if (!isLinkable(mention)) return undefined;
+  const { internal, external } = buildEntityLinks([mention]);
+  return (internal[0] ?? external[0])?.href;
+};
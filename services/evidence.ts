@@ -0,0 +1,111 @@
+import { CellTypeAccessibility, EntityLink, EntityMention, GeneCard, QtlRecord, TurnAnswer, VariantRecord } from '../types';
+import { turnEntities } from './entities';
+import { PankgraphClient } from './pankgraphClient';
+
+/**
+ * EVIDENCE GROUNDING
+ * Looks up the entities a turn mentions in PanKgraph, so the evidence the UI shows (QTL numbers, accessibility,
+ * PanKbase links) comes from database records rather than from the model's text.
+ */
+
+export interface TurnEvidence {
+  genes: GeneCard[];
+  variants: VariantRecord[];
+  qtl: QtlRecord[];
+  accessibility: CellTypeAccessibility[];
+}
+
+/** Upper bound on lookups per kind, so a long answer cannot fan out into dozens of requests. */
+const MAX_LOOKUPS = 8;
+
+const unique = <T>(items: T[]) => [...new Set(items)];
+
+const qtlKey = (r: QtlRecord) => `${r.variant}|${r.gene}|${r.tissue}|${r.dataset}`;
+
+const dedupeQtl = (records: QtlRecord[]) => [...new Map(records.map(r => [qtlKey(r), r])).values()];
+
+const lookupKeys = (mentions: EntityMention[]) => {
+  const linkable = mentions.filter(m => !m.issue || m.id !== m.text);
+  return {
+    genes: unique(linkable.filter(m => m.kind === 'ensembl-gene' || m.kind === 'gene-symbol').map(m => m.id)).slice(0, MAX_LOOKUPS),
+    variants: unique(linkable.filter(m => m.kind === 'variant').map(m => m.id)).slice(0, MAX_LOOKUPS),
+  };
+};
+
+/** QTL associations of the variants mentioned plus those of the genes mentioned (their whole locus, for the locus plot). */
+const fetchQtl = async (client: PankgraphClient, genes: string[], variants: string[], signal?: AbortSignal) => {
+  const batches = [
+    ...variants.map(variant => client.getQtlAssociations({ variant }, { signal })),
+    ...genes.map(gene => client.getQtlAssociations({ gene }, { signal })),
+  ];
+  return dedupeQtl((await Promise.all(batches)).flat());
+};
+
+/** Every PanKgraph record behind a set of mentions. Rejects if any lookup fails. */
+export const fetchEvidence = async (
+  client: PankgraphClient,
+  mentions: EntityMention[],
+  signal?: AbortSignal,
+): Promise<TurnEvidence> => {
+  const { genes, variants } = lookupKeys(mentions);
+  const [geneCards, variantRecords, qtl, accessibility] = await Promise.all([
+    Promise.all(genes.map(gene => client.getGene(gene, { signal }))),
+    Promise.all(variants.map(rsid => client.getVariant(rsid, { signal }))),
+    fetchQtl(client, genes, variants, signal),
+    Promise.all(variants.map(rsid => client.getAccessibility(rsid, { signal }))),
+  ]);
+  return {
+    // A symbol and an Ensembl id for the same gene resolve to one card.
+    genes: [...new Map(geneCards.filter((g): g is GeneCard => g !== null).map(g => [g.id, g])).values()],
+    variants: variantRecords.filter((v): v is VariantRecord => v !== null),
+    qtl,
+    accessibility: accessibility.flat(),
+  };
+};
+
+/**
+ * Replaces the model's QTL numbers with PanKgraph's records for the same variants/genes.
+ * When PanKgraph has nothing (or is unreachable) the model's records are kept as they are.
+ */
+export const groundAnswer = async (
+  answer: TurnAnswer,
+  query: string,
+  client: PankgraphClient,
+  signal?: AbortSignal,
+): Promise<TurnAnswer> => {
+  const { genes, variants } = lookupKeys(turnEntities({ ...answer, query }));
+  if (genes.length === 0 && variants.length === 0) return answer;
+
+  try {
+    const records = await fetchQtl(client, genes, variants, signal);
+    return records.length > 0 ? { ...answer, qtlRecords: records } : answer;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn('Could not ground QTL records in PanKgraph; keeping the model\'s records:', err);
+    return answer;
+  }
+};
+
+const locus = (chromosome: string, start: number, end?: number) =>
+  `chr${chromosome}:${start.toLocaleString('en-US')}${end !== undefined ? `-${end.toLocaleString('en-US')}` : ''}`;
+
+/**
+ * PanKbase links backed by a record: gene and variant links without a PanKgraph record are dropped,
+ * the rest describe the record. Links for kinds PanKgraph has no endpoint for (diseases) pass through.
+ */
+export const groundLinks = (links: EntityLink[], evidence: TurnEvidence): EntityLink[] =>
+  links.flatMap(link => {
+    if (link.kind === 'variant') {
+      const variant = evidence.variants.find(v => v.rsid === link.entityId);
+      return variant
+        ? [{ ...link, detail: `${locus(variant.chromosome, variant.position)} ${variant.ref}>${variant.alt} • ${variant.consequence.replace(/_/g, ' ')}` }]
+        : [];
+    }
+    if (link.kind === 'ensembl-gene' || link.kind === 'gene-symbol') {
+      const gene = evidence.genes.find(g => g.id === link.entityId || g.symbol === link.entityId);
+      return gene
+        ? [{ ...link, title: `${gene.symbol} Gene Entity`, detail: `${gene.name} • ${locus(gene.chromosome, gene.start, gene.end)}` }]
+        : [];
+    }
+    return [link];
+  });
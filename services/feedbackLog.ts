@@ -0,0 +1,86 @@
+import { SectionFeedback, TurnData } from '../types';
+import { findSection, sectionCitationIds, sectionText } from './overviewSections';
+
+/**
+ * FEEDBACK LOG
+ * Every rating given in this browser, oldest first, across all sessions. The log is append-only:
+ * changing a rating adds an entry rather than rewriting history, so it can be used to audit
+ * answer quality over time. Kept in localStorage; storage failures mean the entry is not logged.
+ */
+
+const LOG_KEY = 'pankbase-feedback-log';
+/** Oldest entries are dropped beyond this many, to stay well inside the localStorage quota. */
+export const MAX_LOG_ENTRIES = 2000;
+
+export interface FeedbackLogEntry {
+  /** ISO timestamp. */
+  at: string;
+  sessionId: string;
+  turnId: string;
+  query: string;
+  /** Section id. */
+  section: string;
+  /** Absent in entries logged before sections had titles of their own. */
+  sectionTitle?: string;
+  rating: SectionFeedback['rating'];
+  reason?: string;
+  /** The section as it read when rated, so the entry stands on its own after the session is gone. */
+  text: string;
+  pmids: string[];
+}
+
+export const loadFeedbackLog = (): FeedbackLogEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOG_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(e => e && typeof e.at === 'string' && typeof e.rating === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveFeedbackLog = (log: FeedbackLogEntry[]) => {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch {
+    // Not persisted; the rating itself is still saved with the turn.
+  }
+};
+
+export const feedbackLogEntry = (
+  sessionId: string,
+  turn: TurnData,
+  sectionId: string,
+  feedback: SectionFeedback,
+): FeedbackLogEntry => {
+  const section = findSection(turn, sectionId);
+  const cited = new Set(section ? sectionCitationIds(section) : []);
+  return {
+    at: new Date(feedback.at).toISOString(),
+    sessionId,
+    turnId: turn.id,
+    query: turn.query,
+    section: sectionId,
+    sectionTitle: section?.title,
+    rating: feedback.rating,
+    reason: feedback.reason,
+    text: section ? sectionText(section) : '',
+    pmids: turn.citations.filter(c => cited.has(c.id)).map(c => c.pmid),
+  };
+};
+
+export const recordFeedback = (entry: FeedbackLogEntry): FeedbackLogEntry[] => {
+  const log = [...loadFeedbackLog(), entry].slice(-MAX_LOG_ENTRIES);
+  saveFeedbackLog(log);
+  return log;
+};
+
+export const clearFeedbackLog = () => {
+  try {
+    localStorage.removeItem(LOG_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
+
+/** One JSON object per line. */
+export const feedbackLogToJsonl = (log: FeedbackLogEntry[]) => log.map(entry => JSON.stringify(entry)).join('\n') + (log.length ? '\n' : '');
@@ -0,0 +1,61 @@
+import { GoogleGenAI } from "@google/genai";
+import { RESPONSE_SCHEMA } from '../constants';
+import { AnswerProvider } from './answerProvider';
+import { HistoryEntry } from './conversation';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const SYSTEM_INSTRUCTION = `You are the PanKbase Knowledge Engine, an assistant for pancreatic islet and type 1 diabetes (T1D) genomics.
+Answer the user's question using PanKbase, GTEx and published literature.
+- aiOverview: an ordered list of sections chosen to suit the question, each with a kind, a short title, a body and citationIds.
+  For a variant or gene question: the gene's function, the variant-to-gene (QTL) evidence (tissue, effect allele, slope, p-value)
+  and how it relates to T1D pathogenesis. For cell types, pathways, drugs or other diseases, pick titles that fit them instead.
+  Kinds: "text" - body is a list of claims (one sentence each), each with the citationIds supporting it;
+  "facts" - body is a short list of label/value pairs (e.g. Gene, Variant, Tissue); "table" - body has columns and rows of strings.
+  Use Ensembl and MONDO identifiers where relevant. A section's own citationIds back the section as a whole.
+- citations: peer-reviewed references with real PubMed ids, numbered from 1. Every id used in citationIds must appear here.
+- knowledgeGraph: the entities in the answer as nodes (gene ids like ENSG..., variant rsIDs, tissues, diseases as MONDO_..., publications as PMID:...)
+  and typed edges between them (eQTL, effector-gene, expressed-in, associated-with, cited-by). Edges may only reference declared node ids.
+- qtlRecords: structured QTL associations behind the answer (variant, gene symbol, tissue, effect allele, slope, p-value, source dataset such as GTEx V8),
+  with the slope standard error and GRCh38 position when known. Only report numbers that come from a dataset.
+- followUpQuestions: three short follow-up questions.
+If evidence is lacking, say so plainly rather than inventing numbers.
+Earlier turns of the conversation are given as plain-text summaries; use them to resolve follow-ups ("this variant", "that gene"),
+but always answer in the JSON format above.`;
+
+/** Identifiers and JSON stay as they are in any language, so entity chips, links and validation keep working. */
+const languageInstruction = (language: string) => `
+Write all prose (section titles, claims, fact labels and values, table headers, follow-up questions) in ${language}.
+Keep JSON keys, section kinds, identifiers (gene symbols, Ensembl, rsIDs, MONDO, PMIDs), dataset names and reference metadata unchanged.`;
+
+/** Prior turns as alternating user/model messages; the model side is the summary, not the original JSON. */
+const toContents = (query: string, history: HistoryEntry[] = []) => [
+  ...history.flatMap(entry => [
+    { role: 'user', parts: [{ text: entry.query }] },
+    { role: 'model', parts: [{ text: entry.answer }] },
+  ]),
+  { role: 'user', parts: [{ text: query }] },
+];
+
+export const createGeminiProvider = (apiKey: string, model: string = GEMINI_MODEL): AnswerProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    async *streamText(query, options = {}) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: toContents(query, options.history),
+        config: {
+          systemInstruction: options.language ? SYSTEM_INSTRUCTION + languageInstruction(options.language) : SYSTEM_INSTRUCTION,
+          responseMimeType: 'application/json',
+          responseSchema: RESPONSE_SCHEMA,
+          abortSignal: options.signal,
+        },
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
@@ -0,0 +1,127 @@
+import { en, MessageKey } from '../locales/en';
+import { zh } from '../locales/zh';
+
+/**
+ * I18N
+ * UI strings live in per-language catalogs under locales/; components look them up with `t`.
+ * English is the reference catalog: a key missing from another catalog falls back to English
+ * (reported once per key in dev builds), so a partial translation never shows raw keys.
+ * The language is kept in localStorage; `useLocale` re-renders the app when it changes.
+ */
+
+export type Locale = 'en' | 'zh';
+
+export interface LocaleInfo {
+  locale: Locale;
+  /** Shown in the switcher, in its own language. */
+  label: string;
+  /** BCP 47 tag for number and date formatting, and the page's `lang`. */
+  tag: string;
+  /** How the language is named to the model when answers are requested in it. */
+  language: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { locale: 'en', label: 'English', tag: 'en-US', language: 'English' },
+  { locale: 'zh', label: '中文', tag: 'zh-CN', language: 'Simplified Chinese' },
+];
+
+export type MessageParams = { [name: string]: string | number };
+
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = { en, zh };
+
+const LOCALE_KEY = 'pankbase-locale';
+const ANSWER_LANGUAGE_KEY = 'pankbase-answer-in-locale';
+
+/** Dispatched on window when the language or the answer-language option changes. */
+export const LOCALE_EVENT = 'pankbase:locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.locale === value);
+
+const readLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable; fall through to the browser language.
+  }
+  return typeof navigator !== 'undefined' && /^zh\b/i.test(navigator.language) ? 'zh' : 'en';
+};
+
+let locale: Locale = readLocale();
+
+export const currentLocale = (): Locale => locale;
+
+export const localeInfo = (l: Locale = locale): LocaleInfo => LOCALES.find(info => info.locale === l)!;
+
+const announce = () => {
+  if (typeof document !== 'undefined') document.documentElement.lang = localeInfo().tag;
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(LOCALE_EVENT));
+};
+
+export const setLocale = (next: Locale) => {
+  locale = next;
+  try {
+    localStorage.setItem(LOCALE_KEY, next);
+  } catch {
+    // Applies to this page load only.
+  }
+  announce();
+};
+
+/** Whether questions should be answered in the interface language rather than English. */
+export const answersInLocale = (): boolean => {
+  try {
+    return localStorage.getItem(ANSWER_LANGUAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+export const setAnswersInLocale = (on: boolean) => {
+  try {
+    localStorage.setItem(ANSWER_LANGUAGE_KEY, on ? '1' : '0');
+  } catch {
+    // Not remembered; the next load answers in English again.
+  }
+  announce();
+};
+
+/** The language to ask the model for, or undefined for its default (English). */
+export const answerLanguage = (): string | undefined =>
+  locale !== 'en' && answersInLocale() ? localeInfo().language : undefined;
+
+// --- Lookup ---
+
+const reported = new Set<string>();
+
+const reportMissing = (key: string) => {
+  if (!process.env.DEV || reported.has(`${locale}:${key}`)) return;
+  reported.add(`${locale}:${key}`);
+  console.warn(`[i18n] Missing ${locale} translation for "${key}"; showing English.`);
+};
+
+/** `.one` / `.other` variants are picked by a numeric `count` parameter; catalogs without plurals use the bare key. */
+const lookup = (catalog: Partial<Record<string, string>>, key: string, params?: MessageParams) => {
+  const count = params?.count;
+  const variant = typeof count === 'number' ? `${key}.${count === 1 ? 'one' : 'other'}` : undefined;
+  return (variant && catalog[variant]) ?? catalog[key];
+};
+
+const interpolate = (message: string, params?: MessageParams) =>
+  params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+
+/** The message for `key` in the current language, with `{name}` placeholders filled from `params`. */
+export const t = (key: MessageKey, params?: MessageParams): string => {
+  let message = lookup(CATALOGS[locale], key, params);
+  if (message === undefined) {
+    if (locale !== 'en') reportMissing(key);
+    message = lookup(en, key, params) ?? key;
+  }
+  return interpolate(message, params);
+};
+
+/** BCP 47 tag of the current language, for the number formatters in utils/format.ts. */
+export const numberLocale = () => localeInfo().tag;
+
+if (typeof document !== 'undefined') document.documentElement.lang = localeInfo().tag;
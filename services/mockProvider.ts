@@ -0,0 +1,58 @@
+import { INITIAL_TURN } from '../constants';
+import { AnswerError, AnswerProvider } from './answerProvider';
+
+/**
+ * Deterministic offline provider: the same question always yields the same answer,
+ * streamed in fixed-size chunks so the progressive UI can be exercised without network.
+ * Include `#fail` or `#malformed` in a question to exercise the error cards.
+ */
+
+export interface MockProviderOptions {
+  /** Simulated latency before the first chunk, in ms. */
+  latency?: number;
+  /** Characters per streamed chunk. */
+  chunkSize?: number;
+  /** Delay between chunks, in ms. */
+  chunkDelay?: number;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AnswerError('provider', 'Generation stopped.'));
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new AnswerError('provider', 'Generation stopped.'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+const mockAnswerText = (query: string): string => {
+  if (query.includes('#malformed')) {
+    return JSON.stringify({ aiOverview: { gene: 42 }, citations: 'none' });
+  }
+  const { aiOverview, citations, knowledgeGraph, qtlRecords, followUpQuestions } = INITIAL_TURN;
+  // Sections go out as a model sends them, without ids.
+  const sections = aiOverview.map(({ id, ...section }) => section);
+  return JSON.stringify({ aiOverview: sections, citations, knowledgeGraph, qtlRecords, followUpQuestions });
+};
+
+export const createMockProvider = ({ latency = 400, chunkSize = 24, chunkDelay = 30 }: MockProviderOptions = {}): AnswerProvider => ({
+  name: 'mock',
+  async *streamText(query, options = {}) {
+    await wait(latency, options.signal);
+
+    if (query.includes('#fail')) {
+      throw new AnswerError('provider', 'Mock provider failure requested by the query.');
+    }
+
+    const text = mockAnswerText(query);
+    for (let i = 0; i < text.length; i += chunkSize) {
+      if (i > 0) await wait(chunkDelay, options.signal);
+      yield text.slice(i, i + chunkSize);
+    }
+  },
+});
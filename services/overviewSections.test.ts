@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { toPartialAnswer } from './answerProvider';
+import { withSectionIds } from './overviewSections';
+
+const text = (title: string) => ({ kind: 'text' as const, title, body: [], citationIds: [] });
+
+describe('withSectionIds', () => {
+  it('numbers new sections by position and keeps stored ids', () => {
+    expect(withSectionIds([text('Gene Function'), { ...text('QTL Link'), id: 'qtl' }, text('基因功能')]).map(s => s.id))
+      .toEqual(['section-1', 'qtl', 'section-3']);
+  });
+
+  it('keeps each section id while its title streams in', () => {
+    const ids = ['Ge', 'Gene Fun', 'Gene Function'].map(title =>
+      toPartialAnswer({ aiOverview: [{ kind: 'text', title: 'Summary' }, { kind: 'text', title }] }).aiOverview!.map(s => s.id));
+
+    expect(ids).toEqual([['section-1', 'section-2'], ['section-1', 'section-2'], ['section-1', 'section-2']]);
+  });
+});
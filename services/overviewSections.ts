@@ -0,0 +1,117 @@
+import { AIOverview, OverviewClaim, OverviewSection, OverviewSectionKind, TurnData } from '../types';
+
+/**
+ * OVERVIEW SECTIONS
+ * The AI Overview is an ordered list of typed sections whose kinds the model picks to suit the question.
+ * SECTION_KINDS says, per kind, how a section reads as plain text (model history, search, diffs, feedback),
+ * which citations its body uses and how it exports; the renderers live with the overview component.
+ * Answers saved before sections existed had three fixed text fields; `fromLegacyOverview` converts them.
+ */
+
+interface SectionKind<S extends OverviewSection> {
+  /** The body as plain-text passages: one per claim, fact or table row. */
+  passages(body: S['body']): string[];
+  /** Citation ids used inside the body (text claims carry their own). */
+  bodyCitationIds(body: S['body']): number[];
+  /** The body with only the citations `keep` accepts. */
+  filterCitations(body: S['body'], keep: (id: number) => boolean): S['body'];
+  /** Markdown lines; `cite` turns citation ids into footnote references. */
+  toMarkdown(body: S['body'], cite: (ids: number[]) => string): string[];
+}
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const SECTION_KINDS: { [K in OverviewSectionKind]: SectionKind<Extract<OverviewSection, { kind: K }>> } = {
+  text: {
+    passages: claims => claims.map(claim => claim.text),
+    bodyCitationIds: claims => claims.flatMap(claim => claim.citationIds),
+    filterCitations: (claims, keep) => claims.map(claim => ({ ...claim, citationIds: claim.citationIds.filter(keep) })),
+    toMarkdown: (claims, cite) => [claims.map(claim => claim.text + cite(claim.citationIds)).join(' ')],
+  },
+  facts: {
+    passages: facts => facts.map(fact => `${fact.label}: ${fact.value}`),
+    bodyCitationIds: () => [],
+    filterCitations: facts => facts,
+    toMarkdown: facts => facts.map(fact => `- **${fact.label}:** ${fact.value}`),
+  },
+  table: {
+    passages: ({ columns, rows }) => rows.map(row => row.map((cell, i) => (columns[i] ? `${columns[i]}: ${cell}` : cell)).join(', ')),
+    bodyCitationIds: () => [],
+    filterCitations: table => table,
+    toMarkdown: ({ columns, rows }) => [
+      `| ${columns.map(escapeCell).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...rows.map(row => `| ${columns.map((_, i) => escapeCell(row[i] ?? '')).join(' | ')} |`),
+    ],
+  },
+};
+
+const kindOf = <S extends OverviewSection>(section: S) => SECTION_KINDS[section.kind] as unknown as SectionKind<S>;
+
+export const sectionPassages = (section: OverviewSection): string[] => kindOf(section).passages(section.body);
+
+export const sectionText = (section: OverviewSection) => sectionPassages(section).join(' ');
+
+/** Every citation the section uses, in its body or as a whole. */
+export const sectionCitationIds = (section: OverviewSection): number[] => [
+  ...new Set([...kindOf(section).bodyCitationIds(section.body), ...section.citationIds]),
+];
+
+export const filterSectionCitations = <S extends OverviewSection>(section: S, keep: (id: number) => boolean): S => ({
+  ...section,
+  body: kindOf(section).filterCitations(section.body, keep),
+  citationIds: section.citationIds.filter(keep),
+});
+
+export const sectionMarkdown = (section: OverviewSection, cite: (ids: number[]) => string): string[] => {
+  const lines = kindOf(section).toMarkdown(section.body, cite);
+  return section.citationIds.length > 0 ? [...lines, '', `Sources: ${cite(section.citationIds)}`] : lines;
+};
+
+export const isEmptySection = (section: OverviewSection) => sectionPassages(section).length === 0;
+
+export const findSection = (turn: Pick<TurnData, 'aiOverview'>, id: string) => turn.aiOverview.find(s => s.id === id);
+
+// --- Ids ---
+
+type WithoutId<S> = S extends OverviewSection ? Omit<S, 'id'> & { id?: string } : never;
+
+/** A section as the model sends it; ids are assigned on arrival. */
+export type IncomingSection = WithoutId<OverviewSection>;
+
+/**
+ * Keeps existing ids and numbers the rest by position (`section-1`, ...), de-duplicated. Positions, not titles:
+ * a title grows while it streams and differs between languages, and the id must stay put through both.
+ */
+export const withSectionIds = (sections: IncomingSection[]): AIOverview => {
+  const taken = new Set<string>();
+  return sections.map((section, i) => {
+    const base = section.id || `section-${i + 1}`;
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return { ...section, id } as OverviewSection;
+  });
+};
+
+// --- Schema v2 ---
+
+/** Titles of the three fixed fields answers had before typed sections. */
+export const LEGACY_SECTION_TITLES: { [key: string]: string } = {
+  gene: 'Gene Function',
+  qtl: 'QTL Link',
+  relation: 'T1D Pathogenesis',
+};
+
+/**
+ * `{ gene, qtl, relation }` as text sections. The ids stay `gene`, `qtl` and `relation`, so ratings and
+ * notes recorded against the old fields still find their section. Empty fields are dropped; the claims
+ * themselves are checked by `validateTurnAnswer` once the session is migrated.
+ */
+export const fromLegacyOverview = (overview: unknown): AIOverview => {
+  const fields: { [key: string]: unknown } = typeof overview === 'object' && overview !== null ? { ...overview } : {};
+  return Object.entries(LEGACY_SECTION_TITLES).flatMap(([key, title]) => {
+    const body = fields[key];
+    return Array.isArray(body) && body.length > 0 ? [{ id: key, kind: 'text' as const, title, body: body as OverviewClaim[], citationIds: [] }] : [];
+  });
+};
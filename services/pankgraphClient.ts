@@ -0,0 +1,169 @@
+import { CellTypeAccessibility, GeneCard, QtlRecord, VariantRecord } from '../types';
+
+/**
+ * PANKGRAPH CLIENT
+ * Typed access to PanKbase / PanKgraph records over its HTTP API:
+ *   GET /genes/:idOrSymbol          → GeneCard
+ *   GET /variants/:rsid             → VariantRecord
+ *   GET /qtl?gene=&variant=         → QtlRecord[]
+ *   GET /accessibility?variant=     → CellTypeAccessibility[]
+ * Lookups of a single record resolve to `null` on 404; every other failure rejects with a `PankgraphError`.
+ * Responses are validated before they are returned and identical requests share one in-flight/cached result.
+ */
+
+export interface PankgraphRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface PankgraphClient {
+  getGene(idOrSymbol: string, options?: PankgraphRequestOptions): Promise<GeneCard | null>;
+  getVariant(rsid: string, options?: PankgraphRequestOptions): Promise<VariantRecord | null>;
+  getQtlAssociations(query: { gene?: string; variant?: string }, options?: PankgraphRequestOptions): Promise<QtlRecord[]>;
+  getAccessibility(variant: string, options?: PankgraphRequestOptions): Promise<CellTypeAccessibility[]>;
+}
+
+export class PankgraphError extends Error {
+  /** HTTP status, or 0 when the request never got a response. */
+  readonly status: number;
+
+  constructor(message: string, status: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PankgraphError';
+    this.status = status;
+  }
+}
+
+// --- Response validation ---
+
+type Reader<T> = (value: unknown) => T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const malformed = (what: string): never => {
+  throw new PankgraphError(`Malformed PanKgraph response: ${what}.`, 200);
+};
+
+const field = <T extends 'string' | 'number'>(obj: Record<string, unknown>, key: string, type: T, what: string) => {
+  if (typeof obj[key] !== type) malformed(`${what}.${key} should be a ${type}`);
+  return obj[key] as T extends 'string' ? string : number;
+};
+
+const optionalNumber = (obj: Record<string, unknown>, key: string) =>
+  typeof obj[key] === 'number' ? (obj[key] as number) : undefined;
+
+const readGene: Reader<GeneCard> = value => {
+  if (!isRecord(value)) return malformed('gene should be an object');
+  return {
+    id: field(value, 'id', 'string', 'gene'),
+    symbol: field(value, 'symbol', 'string', 'gene'),
+    name: field(value, 'name', 'string', 'gene'),
+    description: typeof value.description === 'string' ? value.description : '',
+    chromosome: field(value, 'chromosome', 'string', 'gene'),
+    start: field(value, 'start', 'number', 'gene'),
+    end: field(value, 'end', 'number', 'gene'),
+    biotype: typeof value.biotype === 'string' ? value.biotype : 'unknown',
+  };
+};
+
+const readVariant: Reader<VariantRecord> = value => {
+  if (!isRecord(value)) return malformed('variant should be an object');
+  return {
+    rsid: field(value, 'rsid', 'string', 'variant'),
+    chromosome: field(value, 'chromosome', 'string', 'variant'),
+    position: field(value, 'position', 'number', 'variant'),
+    ref: field(value, 'ref', 'string', 'variant'),
+    alt: field(value, 'alt', 'string', 'variant'),
+    consequence: typeof value.consequence === 'string' ? value.consequence : 'unknown',
+    maf: optionalNumber(value, 'maf'),
+  };
+};
+
+const readQtl: Reader<QtlRecord> = value => {
+  if (!isRecord(value)) return malformed('QTL association should be an object');
+  return {
+    variant: field(value, 'variant', 'string', 'qtl'),
+    gene: field(value, 'gene', 'string', 'qtl'),
+    tissue: field(value, 'tissue', 'string', 'qtl'),
+    effectAllele: field(value, 'effectAllele', 'string', 'qtl'),
+    slope: field(value, 'slope', 'number', 'qtl'),
+    pValue: field(value, 'pValue', 'number', 'qtl'),
+    dataset: field(value, 'dataset', 'string', 'qtl'),
+    slopeSe: optionalNumber(value, 'slopeSe'),
+    position: optionalNumber(value, 'position'),
+  };
+};
+
+const readAccessibility: Reader<CellTypeAccessibility> = value => {
+  if (!isRecord(value)) return malformed('accessibility record should be an object');
+  return {
+    variant: field(value, 'variant', 'string', 'accessibility'),
+    region: field(value, 'region', 'string', 'accessibility'),
+    cellType: field(value, 'cellType', 'string', 'accessibility'),
+    score: field(value, 'score', 'number', 'accessibility'),
+    dataset: field(value, 'dataset', 'string', 'accessibility'),
+  };
+};
+
+const listOf = <T>(read: Reader<T>): Reader<T[]> => value =>
+  Array.isArray(value) ? value.map(read) : malformed('expected a list');
+
+// --- HTTP client ---
+
+/**
+ * Client for the PanKgraph API rooted at `baseUrl` (no trailing slash).
+ * `fetchImpl` lets the mock server stand in for the network (see createMockPankgraphFetch).
+ */
+export const createHttpPankgraphClient = (baseUrl: string, fetchImpl: typeof fetch = fetch): PankgraphClient => {
+  const cache = new Map<string, Promise<unknown>>();
+
+  const request = async (path: string): Promise<unknown> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}${path}`, { headers: { Accept: 'application/json' } });
+    } catch (err) {
+      throw new PankgraphError('PanKgraph is unreachable.', 0, { cause: err });
+    }
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new PankgraphError(isRecord(body) && typeof body.error === 'string' ? body.error : `PanKgraph returned HTTP ${response.status}.`, response.status);
+    }
+    return response.json();
+  };
+
+  /**
+   * Shares one request between callers; a failed request is evicted so the next call retries.
+   * Aborting only detaches the caller — the shared request keeps going for everyone else.
+   */
+  const get = <T>(path: string, read: Reader<T>, { signal }: PankgraphRequestOptions = {}): Promise<T | null> => {
+    let pending = cache.get(path);
+    if (!pending) {
+      pending = request(path).then(body => (body === null ? null : read(body)));
+      cache.set(path, pending);
+      pending.catch(() => cache.delete(path));
+    }
+    if (!signal) return pending as Promise<T | null>;
+    return new Promise<T | null>((resolve, reject) => {
+      const abort = () => reject(new DOMException('The request was aborted.', 'AbortError'));
+      if (signal.aborted) return abort();
+      signal.addEventListener('abort', abort, { once: true });
+      (pending as Promise<T | null>).then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+    });
+  };
+
+  const query = (params: Record<string, string | undefined>) => {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => value && search.set(key, value));
+    return search.toString();
+  };
+
+  return {
+    getGene: (idOrSymbol, options) => get(`/genes/${encodeURIComponent(idOrSymbol)}`, readGene, options),
+    getVariant: (rsid, options) => get(`/variants/${encodeURIComponent(rsid)}`, readVariant, options),
+    getQtlAssociations: async ({ gene, variant }, options) =>
+      (await get(`/qtl?${query({ gene, variant })}`, listOf(readQtl), options)) ?? [],
+    getAccessibility: async (variant, options) =>
+      (await get(`/accessibility?${query({ variant })}`, listOf(readAccessibility), options)) ?? [],
+  };
+};
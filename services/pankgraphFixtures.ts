@@ -0,0 +1,82 @@
+import { CellTypeAccessibility, GeneCard, QtlRecord, VariantRecord } from '../types';
+
+/**
+ * PANKGRAPH FIXTURES
+ * The records served by the mock PanKgraph server (services/pankgraphMockServer.ts), covering the demo
+ * CFTR locus plus a few T1D genes so follow-up questions have something to ground against.
+ */
+
+export const GENE_FIXTURES: GeneCard[] = [
+  {
+    id: 'ENSG00000001626',
+    symbol: 'CFTR',
+    name: 'CF transmembrane conductance regulator',
+    description: 'Chloride and bicarbonate channel of ductal epithelium; exocrine pancreas dysfunction alters islet function.',
+    chromosome: '7',
+    start: 117287120,
+    end: 117715971,
+    biotype: 'protein_coding',
+  },
+  {
+    id: 'ENSG00000254647',
+    symbol: 'INS',
+    name: 'insulin',
+    description: 'Preproinsulin, processed to insulin in beta cells; a major T1D autoantigen.',
+    chromosome: '11',
+    start: 2159779,
+    end: 2161209,
+    biotype: 'protein_coding',
+  },
+  {
+    id: 'ENSG00000134242',
+    symbol: 'PTPN22',
+    name: 'protein tyrosine phosphatase non-receptor type 22',
+    description: 'Lymphoid phosphatase that dampens T-cell receptor signalling.',
+    chromosome: '1',
+    start: 113813811,
+    end: 113871759,
+    biotype: 'protein_coding',
+  },
+  {
+    id: 'ENSG00000134460',
+    symbol: 'IL2RA',
+    name: 'interleukin 2 receptor subunit alpha',
+    description: 'CD25; required for regulatory T-cell maintenance.',
+    chromosome: '10',
+    start: 6010689,
+    end: 6062367,
+    biotype: 'protein_coding',
+  },
+];
+
+export const VARIANT_FIXTURES: VariantRecord[] = [
+  { rsid: 'rs2402203', chromosome: '7', position: 117559590, ref: 'T', alt: 'C', consequence: 'intron_variant', maf: 0.41 },
+  { rsid: 'rs7512462', chromosome: '7', position: 117541284, ref: 'C', alt: 'T', consequence: 'intron_variant', maf: 0.37 },
+  { rsid: 'rs10487372', chromosome: '7', position: 117503117, ref: 'G', alt: 'A', consequence: 'intron_variant', maf: 0.22 },
+  { rsid: 'rs213950', chromosome: '7', position: 117590011, ref: 'A', alt: 'G', consequence: 'missense_variant', maf: 0.44 },
+  { rsid: 'rs4727853', chromosome: '7', position: 117571202, ref: 'T', alt: 'C', consequence: 'intron_variant', maf: 0.39 },
+  { rsid: 'rs689', chromosome: '11', position: 2160994, ref: 'A', alt: 'T', consequence: 'splice_region_variant', maf: 0.29 },
+  { rsid: 'rs2476601', chromosome: '1', position: 113834946, ref: 'G', alt: 'A', consequence: 'missense_variant', maf: 0.09 },
+];
+
+export const QTL_FIXTURES: QtlRecord[] = [
+  { variant: 'rs2402203', gene: 'CFTR', tissue: 'Pancreas', effectAllele: 'C', slope: -2.36, slopeSe: 0.27, pValue: 4.84e-17, position: 117559590, dataset: 'GTEx V8' },
+  { variant: 'rs2402203', gene: 'CFTR', tissue: 'Pancreatic islets', effectAllele: 'C', slope: -1.12, slopeSe: 0.31, pValue: 3.1e-4, position: 117559590, dataset: 'InsPIRE' },
+  { variant: 'rs2402203', gene: 'CFTR', tissue: 'Colon - Transverse', effectAllele: 'C', slope: -0.84, slopeSe: 0.22, pValue: 1.6e-4, position: 117559590, dataset: 'GTEx V8' },
+  { variant: 'rs2402203', gene: 'CFTR', tissue: 'Lung', effectAllele: 'C', slope: -0.21, slopeSe: 0.19, pValue: 0.27, position: 117559590, dataset: 'GTEx V8' },
+  { variant: 'rs7512462', gene: 'CFTR', tissue: 'Pancreas', effectAllele: 'T', slope: -1.41, slopeSe: 0.29, pValue: 1.9e-6, position: 117541284, dataset: 'GTEx V8' },
+  { variant: 'rs10487372', gene: 'CFTR', tissue: 'Pancreas', effectAllele: 'A', slope: 0.62, slopeSe: 0.24, pValue: 9.8e-3, position: 117503117, dataset: 'GTEx V8' },
+  { variant: 'rs213950', gene: 'CFTR', tissue: 'Pancreas', effectAllele: 'G', slope: -0.38, slopeSe: 0.25, pValue: 0.13, position: 117590011, dataset: 'GTEx V8' },
+  { variant: 'rs4727853', gene: 'CFTR', tissue: 'Pancreas', effectAllele: 'C', slope: -1.87, slopeSe: 0.28, pValue: 2.2e-11, position: 117571202, dataset: 'GTEx V8' },
+  { variant: 'rs689', gene: 'INS', tissue: 'Pancreatic islets', effectAllele: 'T', slope: -0.58, slopeSe: 0.14, pValue: 2.7e-5, position: 2160994, dataset: 'InsPIRE' },
+  { variant: 'rs2476601', gene: 'PTPN22', tissue: 'Whole Blood', effectAllele: 'A', slope: 0.19, slopeSe: 0.05, pValue: 1.4e-4, position: 113834946, dataset: 'GTEx V8' },
+];
+
+export const ACCESSIBILITY_FIXTURES: CellTypeAccessibility[] = [
+  { variant: 'rs2402203', region: 'chr7:117559402-117559901', cellType: 'Ductal', score: 0.92, dataset: 'PanKbase snATAC' },
+  { variant: 'rs2402203', region: 'chr7:117559402-117559901', cellType: 'Acinar', score: 0.61, dataset: 'PanKbase snATAC' },
+  { variant: 'rs2402203', region: 'chr7:117559402-117559901', cellType: 'Beta', score: 0.18, dataset: 'PanKbase snATAC' },
+  { variant: 'rs4727853', region: 'chr7:117570988-117571455', cellType: 'Ductal', score: 0.74, dataset: 'PanKbase snATAC' },
+  { variant: 'rs689', region: 'chr11:2160702-2161240', cellType: 'Beta', score: 0.88, dataset: 'PanKbase snATAC' },
+  { variant: 'rs689', region: 'chr11:2160702-2161240', cellType: 'Alpha', score: 0.27, dataset: 'PanKbase snATAC' },
+];
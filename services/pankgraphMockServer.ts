@@ -0,0 +1,67 @@
+import { ACCESSIBILITY_FIXTURES, GENE_FIXTURES, QTL_FIXTURES, VARIANT_FIXTURES } from './pankgraphFixtures';
+
+/**
+ * MOCK PANKGRAPH SERVER
+ * Answers the PanKgraph HTTP API (see services/pankgraphClient.ts) from local fixtures.
+ * The same router backs two transports:
+ * - `createMockPankgraphFetch`: an in-process `fetch`, used when no PANKGRAPH_API_URL is configured;
+ * - the dev-server middleware in vite.config.ts, mounted at `/api/pankgraph`, for exercising the real HTTP path.
+ */
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+const ok = (body: unknown): MockResponse => ({ status: 200, body });
+const notFound = (message: string): MockResponse => ({ status: 404, body: { error: message } });
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Routes one GET request; `pathname` is relative to the API root (e.g. `/genes/CFTR`). */
+export const handlePankgraphRequest = (pathname: string, params: URLSearchParams): MockResponse => {
+  const [, resource, key] = pathname.split('/').map(decodeURIComponent);
+
+  switch (resource) {
+    case 'genes': {
+      const gene = GENE_FIXTURES.find(g => sameText(g.id, key ?? '') || sameText(g.symbol, key ?? ''));
+      return gene ? ok(gene) : notFound(`No gene "${key}".`);
+    }
+    case 'variants': {
+      const variant = VARIANT_FIXTURES.find(v => sameText(v.rsid, key ?? ''));
+      return variant ? ok(variant) : notFound(`No variant "${key}".`);
+    }
+    case 'qtl': {
+      const gene = params.get('gene');
+      const variant = params.get('variant');
+      if (!gene && !variant) return { status: 400, body: { error: 'Pass gene and/or variant.' } };
+      return ok(QTL_FIXTURES.filter(r =>
+        (!gene || sameText(r.gene, gene)) && (!variant || sameText(r.variant, variant))));
+    }
+    case 'accessibility': {
+      const variant = params.get('variant');
+      if (!variant) return { status: 400, body: { error: 'Pass variant.' } };
+      return ok(ACCESSIBILITY_FIXTURES.filter(r => sameText(r.variant, variant)));
+    }
+    default:
+      return notFound(`Unknown resource "${pathname}".`);
+  }
+};
+
+/** A `fetch` that answers from the fixtures after `latency` ms, honouring abort signals. */
+export const createMockPankgraphFetch = (latency = 250): typeof fetch =>
+  (input, init) => new Promise<Response>((resolve, reject) => {
+    const signal = init?.signal;
+    const abort = () => reject(new DOMException('The request was aborted.', 'AbortError'));
+    if (signal?.aborted) return abort();
+
+    const timer = setTimeout(() => {
+      const url = new URL(String(input), 'http://pankgraph.mock');
+      const { status, body } = handlePankgraphRequest(url.pathname, url.searchParams);
+      resolve(new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }));
+    }, latency);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
@@ -0,0 +1,61 @@
+/**
+ * Best-effort parser for a JSON document that is still being streamed.
+ * Open strings, arrays and objects are closed; a dangling key, comma or literal is dropped.
+ * Returns undefined when nothing usable has arrived yet.
+ */
+
+interface ScanResult {
+  closers: string;
+  inString: boolean;
+  /** Index of the last `,` `:` `{` or `[` outside a string, or -1. */
+  lastStructural: number;
+}
+
+const scan = (text: string): ScanResult => {
+  const stack: string[] = [];
+  let inString = false;
+  let escape = false;
+  let lastStructural = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escape) escape = false;
+      else if (ch === '\\') escape = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    switch (ch) {
+      case '"': inString = true; break;
+      case '{': stack.push('}'); lastStructural = i; break;
+      case '[': stack.push(']'); lastStructural = i; break;
+      case '}': case ']': stack.pop(); break;
+      case ',': case ':': lastStructural = i; break;
+    }
+  }
+
+  return { closers: stack.reverse().join(''), inString, lastStructural };
+};
+
+export const parsePartialJson = (text: string): unknown => {
+  let candidate = text.trimEnd();
+
+  while (candidate.length > 0) {
+    const { closers, inString, lastStructural } = scan(candidate);
+    let completed = candidate;
+    if (inString) completed = completed.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '') + '"';
+    try {
+      return JSON.parse(completed + closers);
+    } catch {
+      if (lastStructural < 0) return undefined;
+      const ch = candidate[lastStructural];
+      // Keep an opening bracket (it closes to an empty container); drop a trailing `,` or `:`.
+      const next = (ch === '{' || ch === '[')
+        ? candidate.slice(0, lastStructural + 1)
+        : candidate.slice(0, lastStructural).trimEnd();
+      if (next === candidate) return undefined;
+      candidate = next;
+    }
+  }
+  return undefined;
+};
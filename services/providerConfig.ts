@@ -0,0 +1,57 @@
+import { AnswerProvider } from './answerProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createHttpPankgraphClient, PankgraphClient } from './pankgraphClient';
+import { createMockPankgraphFetch } from './pankgraphMockServer';
+import { createEutilsPubmedSource, createLocalPubmedSource, PubmedSource } from './pubmedSource';
+
+/**
+ * Picks the answer provider from env config (see vite.config.ts):
+ * ANSWER_PROVIDER=gemini|mock. Defaults to gemini when an API key is present, otherwise mock.
+ */
+export const createAnswerProvider = (): AnswerProvider => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const requested = process.env.ANSWER_PROVIDER || (apiKey ? 'gemini' : 'mock');
+
+  switch (requested) {
+    case 'gemini':
+      if (!apiKey) {
+        console.warn('ANSWER_PROVIDER=gemini but GEMINI_API_KEY is not set; falling back to the mock provider.');
+        return createMockProvider();
+      }
+      return createGeminiProvider(apiKey);
+    case 'mock':
+      return createMockProvider();
+    default:
+      console.warn(`Unknown ANSWER_PROVIDER "${requested}"; falling back to the mock provider.`);
+      return createMockProvider();
+  }
+};
+
+/**
+ * PanKgraph data client from env config: PANKGRAPH_API_URL points at a PanKgraph API
+ * (`/api/pankgraph` is the fixture server that `npm run dev` mounts); without it the fixtures are served in-process.
+ */
+export const createPankgraphClient = (): PankgraphClient => {
+  const baseUrl = process.env.PANKGRAPH_API_URL;
+  return baseUrl
+    ? createHttpPankgraphClient(baseUrl.replace(/\/$/, ''))
+    : createHttpPankgraphClient('', createMockPankgraphFetch());
+};
+
+/**
+ * Metadata source for citation verification: PUBMED_SOURCE=local|eutils.
+ * Defaults to the offline cache; `eutils` queries NCBI (NCBI_API_KEY optional).
+ */
+export const createPubmedSource = (): PubmedSource => {
+  const requested = process.env.PUBMED_SOURCE || 'local';
+  switch (requested) {
+    case 'eutils':
+      return createEutilsPubmedSource(process.env.NCBI_API_KEY);
+    case 'local':
+      return createLocalPubmedSource();
+    default:
+      console.warn(`Unknown PUBMED_SOURCE "${requested}"; using the local cache.`);
+      return createLocalPubmedSource();
+  }
+};
@@ -0,0 +1,77 @@
+import { PubmedRecord } from '../types';
+import cache from '../data/pubmed-cache.json';
+
+/**
+ * PUBMED METADATA SOURCES
+ * Citation verification looks PMIDs up through this interface. Two implementations:
+ * - the bundled cache (data/pubmed-cache.json, with abridged author lists), used offline;
+ * - NCBI E-utilities esummary, which answers for any PMID.
+ * `fetchRecords` resolves with the records it found; PMIDs missing from the map do not exist in the source.
+ * Failing to reach the source rejects instead, so "not found" is never reported for a network problem.
+ */
+
+export interface PubmedSource {
+  readonly name: string;
+  fetchRecords(pmids: string[], options?: { signal?: AbortSignal }): Promise<Map<string, PubmedRecord>>;
+}
+
+export const createLocalPubmedSource = (records: PubmedRecord[] = cache.records): PubmedSource => {
+  const byPmid = new Map(records.map(r => [r.pmid, r]));
+  return {
+    name: 'local cache',
+    async fetchRecords(pmids) {
+      return new Map(pmids.flatMap(pmid => (byPmid.has(pmid) ? [[pmid, byPmid.get(pmid)!] as const] : [])));
+    },
+  };
+};
+
+// --- E-utilities ---
+
+const EUTILS_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi';
+
+/** E-utilities accepts a few hundred ids per request; stay well below that. */
+const EUTILS_BATCH = 100;
+
+interface EsummaryDocument {
+  uid?: string;
+  error?: string;
+  title?: string;
+  authors?: Array<{ name?: string }>;
+  fulljournalname?: string;
+  source?: string;
+  pubdate?: string;
+  elocationid?: string;
+}
+
+const toRecord = (pmid: string, doc: EsummaryDocument): PubmedRecord => ({
+  pmid,
+  title: doc.title ?? '',
+  authors: (doc.authors ?? []).map(a => a.name ?? '').filter(Boolean),
+  journal: doc.fulljournalname || doc.source || '',
+  journalAbbrev: doc.source,
+  year: doc.pubdate?.match(/\d{4}/)?.[0],
+  doi: doc.elocationid?.match(/doi:\s*(\S+)/)?.[1],
+});
+
+/** `apiKey` raises NCBI's rate limit from 3 to 10 requests per second. */
+export const createEutilsPubmedSource = (apiKey?: string, fetchImpl: typeof fetch = fetch): PubmedSource => ({
+  name: 'PubMed E-utilities',
+  async fetchRecords(pmids, { signal } = {}) {
+    const found = new Map<string, PubmedRecord>();
+    for (let i = 0; i < pmids.length; i += EUTILS_BATCH) {
+      const batch = pmids.slice(i, i + EUTILS_BATCH);
+      const params = new URLSearchParams({ db: 'pubmed', retmode: 'json', id: batch.join(',') });
+      if (apiKey) params.set('api_key', apiKey);
+
+      const response = await fetchImpl(`${EUTILS_URL}?${params}`, { signal });
+      if (!response.ok) throw new Error(`E-utilities returned HTTP ${response.status}.`);
+      const body = await response.json();
+      const result: Record<string, EsummaryDocument> = body?.result ?? {};
+      batch.forEach(pmid => {
+        const doc = result[pmid];
+        if (doc && !doc.error && doc.title) found.set(pmid, toRecord(pmid, doc));
+      });
+    }
+    return found;
+  },
+});
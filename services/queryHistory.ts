@@ -0,0 +1,39 @@
+/**
+ * RECENT QUERIES
+ * Questions asked in this browser, newest first, shared by all sessions. Kept in localStorage so
+ * they survive reloads; storage failures (private mode, quota) just mean no history.
+ */
+
+const HISTORY_KEY = 'pankbase-query-history';
+export const MAX_HISTORY = 25;
+
+export const loadQueryHistory = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Moves `query` to the front (asking it again does not duplicate it) and returns the new list. */
+export const recordQuery = (query: string): string[] => {
+  const trimmed = query.trim();
+  const history = [trimmed, ...loadQueryHistory().filter(q => q !== trimmed)].slice(0, MAX_HISTORY);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // Not persisted; still returned for this page.
+  }
+  return history;
+};
+
+export const forgetQuery = (query: string): string[] => {
+  const history = loadQueryHistory().filter(q => q !== query);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // Ignored as above.
+  }
+  return history;
+};
@@ -0,0 +1,214 @@
+import { PartialTurnAnswer, TurnAnswer, TurnError } from '../types';
+import { AnswerError, StreamAnswerOptions, toTurnError } from './answerProvider';
+import { AnswerCache, answerCacheKey } from './answerCache';
+import { HistoryEntry } from './conversation';
+
+/**
+ * REQUEST MANAGER
+ * Questions are answered one at a time, in the order they were asked, so a follow-up clicked while
+ * another answer streams waits for it (and sees it as context) instead of interleaving with it.
+ * Each attempt has a timeout; transient failures are retried with exponential backoff; finished
+ * answers go into the answer cache.
+ */
+
+export const DEFAULT_TIMEOUT_MS = 90_000;
+export const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1500;
+
+export interface RequestManagerOptions {
+  /** Runs the whole answer pipeline for one attempt. */
+  answer: (query: string, options: StreamAnswerOptions) => Promise<TurnAnswer>;
+  /** Part of the cache key, so switching providers does not serve another provider's answers. */
+  providerName: string;
+  cache?: AnswerCache;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface SubmitOptions {
+  /** Called when the request starts, so a queued follow-up gets the answer it follows as context. */
+  history?: () => HistoryEntry[];
+  /** Skip the cache and ask again; the new answer replaces the cached one. */
+  refresh?: boolean;
+  /** Passed to the provider; answers in different languages are cached separately. */
+  language?: string;
+  onStart?: () => void;
+  onPartial?: (partial: PartialTurnAnswer) => void;
+  /** A failed attempt is about to be retried; any partial answer from it should be discarded. */
+  onRetry?: (retry: { attempt: number; of: number; delayMs: number; error: TurnError }) => void;
+}
+
+export interface RequestResult {
+  answer: TurnAnswer;
+  /** Set when the answer came from the cache: when it was originally produced. */
+  cachedAt?: number;
+}
+
+/** Rejection of a cancelled request; `started` is false when it was still waiting in the queue. */
+export class RequestCancelledError extends Error {
+  readonly started: boolean;
+
+  constructor(started: boolean) {
+    super(started ? 'Generation stopped.' : 'Removed from the queue.');
+    this.name = 'RequestCancelledError';
+    this.started = started;
+  }
+}
+
+// --- Failure handling ---
+
+const TRANSIENT_MESSAGE = /\b(408|429|500|502|503|504)\b|network|failed to fetch|load failed|timed? ?out|no answer within|overloaded|unavailable|rate limit|ECONNRESET/i;
+
+/** The fields of a thrown value (or of its `cause`) that tell whether it is worth retrying. */
+type ErrorLike = { status?: unknown; message?: unknown; cause?: unknown };
+
+const asErrorLike = (value: unknown): ErrorLike | undefined =>
+  typeof value === 'object' && value !== null ? value : undefined;
+
+/** Whether a retry might succeed: timeouts, network failures, rate limits and server errors, not malformed answers. */
+export const isTransientError = (err: unknown): boolean => {
+  if (err instanceof AnswerError && err.kind === 'invalid-response') return false;
+  let current = asErrorLike(err);
+  for (let depth = 0; current && depth < 5; depth++, current = asErrorLike(current.cause)) {
+    const status = Number(current.status);
+    if (status === 408 || status === 429 || (status >= 500 && status < 600)) return true;
+    if (typeof current.message === 'string' && TRANSIENT_MESSAGE.test(current.message)) return true;
+  }
+  return false;
+};
+
+/** 1.5 s, 3 s, 6 s, ... with ±25% jitter so parallel tabs do not retry in lockstep. */
+const backoffDelay = (retry: number) => RETRY_BASE_DELAY_MS * 2 ** retry * (0.75 + Math.random() * 0.5);
+
+const whenAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  Promise.race([new Promise<void>(resolve => setTimeout(resolve, ms)), whenAborted(signal)]);
+
+/**
+ * One attempt under its own controller: aborted by `signal` (the user) or after `timeoutMs`.
+ * Also settles when a step ignores its signal, so a hung request cannot hold up the queue.
+ */
+const withTimeout = async <T>(run: (signal: AbortSignal) => Promise<T>, signal: AbortSignal, timeoutMs: number): Promise<T> => {
+  const attempt = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    attempt.abort();
+  }, timeoutMs);
+  const forward = () => attempt.abort();
+  signal.addEventListener('abort', forward);
+  try {
+    return await Promise.race([run(attempt.signal), whenAborted(attempt.signal)]);
+  } catch (err) {
+    if (timedOut) throw new AnswerError('provider', `No answer within ${Math.round(timeoutMs / 1000)} s.`, { cause: err });
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', forward);
+  }
+};
+
+// --- Queue ---
+
+interface Job {
+  id: string;
+  run: (controller: AbortController) => Promise<void>;
+  reject: (err: unknown) => void;
+}
+
+export const createRequestManager = ({
+  answer,
+  providerName,
+  cache,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxRetries = DEFAULT_MAX_RETRIES,
+}: RequestManagerOptions) => {
+  const queue: Job[] = [];
+  let running: { id: string; controller: AbortController } | null = null;
+
+  const pump = async () => {
+    if (running) return;
+    let job: Job | undefined;
+    while ((job = queue.shift())) {
+      const controller = new AbortController();
+      running = { id: job.id, controller };
+      await job.run(controller);
+      running = null;
+    }
+  };
+
+  const execute = async (query: string, options: SubmitOptions, controller: AbortController): Promise<RequestResult> => {
+    options.onStart?.();
+    const history = options.history?.() ?? [];
+    const key = answerCacheKey(providerName, query, history, options.language);
+    const hit = options.refresh ? undefined : cache?.get(key);
+    if (hit) return { answer: hit.answer, cachedAt: hit.at };
+
+    for (let retry = 0; ; retry++) {
+      try {
+        const result = await withTimeout(
+          signal => answer(query, { signal, history, language: options.language, onPartial: options.onPartial }),
+          controller.signal,
+          timeoutMs,
+        );
+        cache?.set(key, result);
+        return { answer: result };
+      } catch (err) {
+        if (controller.signal.aborted) throw new RequestCancelledError(true);
+        const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+        if (offline) throw new AnswerError('provider', 'You appear to be offline, and this question has no cached answer yet.', { cause: err });
+        if (retry >= maxRetries || !isTransientError(err)) throw err;
+
+        const delayMs = backoffDelay(retry);
+        options.onRetry?.({ attempt: retry + 2, of: maxRetries + 1, delayMs, error: toTurnError(err) });
+        try {
+          await sleep(delayMs, controller.signal);
+        } catch {
+          throw new RequestCancelledError(true);
+        }
+      }
+    }
+  };
+
+  /** Queues a question under `id`; resolves with its answer, rejects with the failure or a `RequestCancelledError`. */
+  const submit = (id: string, query: string, options: SubmitOptions = {}) =>
+    new Promise<RequestResult>((resolve, reject) => {
+      queue.push({
+        id,
+        reject,
+        run: controller => execute(query, options, controller).then(resolve, reject),
+      });
+      pump();
+    });
+
+  /** Drops a waiting request, or aborts the one in progress. */
+  const cancel = (id: string) => {
+    const index = queue.findIndex(job => job.id === id);
+    if (index >= 0) {
+      const [job] = queue.splice(index, 1);
+      job.reject(new RequestCancelledError(false));
+    } else if (running?.id === id) {
+      running.controller.abort();
+    }
+  };
+
+  const cancelAll = () => {
+    [...queue].reverse().forEach(job => cancel(job.id));
+    running?.controller.abort();
+  };
+
+  return {
+    submit,
+    cancel,
+    cancelAll,
+    /** Ids still waiting, in the order they will run. */
+    queued: () => queue.map(job => job.id),
+  };
+};
+
+export type RequestManager = ReturnType<typeof createRequestManager>;
@@ -0,0 +1,75 @@
+/**
+ * ROUTER
+ * History-API routing under the deploy base path (vite.config.ts `base`, e.g. `/newPage/`).
+ *   /                          → the current investigation
+ *   /session/:id               → a saved session
+ *   /session/:id/turn/:n       → turn n (1-based, in the order the questions were asked) of a session
+ *   /pankgraph, /data, ...     → static pages linked from the header
+ * GitHub Pages has no rewrites, so the build also emits 404.html (a copy of index.html) to boot deep links.
+ */
+
+export type PageId = 'pankgraph' | 'cell-browser' | 'data' | 'resources' | 'about' | 'help' | 'analysis' | 'funding' | 'login';
+
+export const PAGE_IDS: PageId[] = ['pankgraph', 'cell-browser', 'data', 'resources', 'about', 'help', 'analysis', 'funding', 'login'];
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'session'; sessionId: string; turn?: number }
+  | { name: 'page'; page: PageId }
+  | { name: 'not-found'; path: string };
+
+/** Base path without the trailing slash ('' when the app is served from the root). */
+export const BASE_PATH = (process.env.BASE_PATH || '/').replace(/\/$/, '');
+
+/** URL of a file in public/, independent of the current route's depth. */
+export const assetUrl = (path: string) => `${BASE_PATH}/${path.replace(/^\//, '')}`;
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export const parseRoute = (pathname: string): Route => {
+  const local = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname;
+  const parts = local.split('/').filter(Boolean).map(decodeSegment);
+
+  if (parts.length === 0) return { name: 'home' };
+  if (parts[0] === 'session' && parts[1]) {
+    if (parts.length === 2) return { name: 'session', sessionId: parts[1] };
+    const turn = Number(parts[3]);
+    if (parts.length === 4 && parts[2] === 'turn' && Number.isInteger(turn) && turn >= 1) {
+      return { name: 'session', sessionId: parts[1], turn };
+    }
+  }
+  if (parts.length === 1 && (PAGE_IDS as string[]).includes(parts[0])) return { name: 'page', page: parts[0] as PageId };
+  return { name: 'not-found', path: local };
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'home':
+      return `${BASE_PATH}/`;
+    case 'session':
+      return `${BASE_PATH}/session/${encodeURIComponent(route.sessionId)}${route.turn ? `/turn/${route.turn}` : ''}`;
+    case 'page':
+      return `${BASE_PATH}/${route.page}`;
+    case 'not-found':
+      return `${BASE_PATH}${route.path}`;
+  }
+};
+
+/** Fired on `window` after `navigate`, since pushState/replaceState do not emit popstate. */
+export const NAVIGATE_EVENT = 'pankbase:navigate';
+
+export const currentRoute = (): Route => parseRoute(window.location.pathname);
+
+export const navigate = (route: Route, { replace = false }: { replace?: boolean } = {}) => {
+  const path = routePath(route);
+  if (path === window.location.pathname) return;
+  if (replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
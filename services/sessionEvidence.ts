@@ -0,0 +1,141 @@
+import { Citation, EntityLink, TurnData } from '../types';
+import { splitJournal } from '../utils/citation';
+import { pubmedUrl, turnEntityLinks } from './entities';
+import { MessageKey } from '../locales/en';
+
+/**
+ * SESSION EVIDENCE
+ * Everything the turns of a session cite or link to, as one bibliography: references are merged by PMID
+ * (each answer numbers its citations afresh), QTL datasets by name and entity links by URL, and every item
+ * keeps track of the turns and overview claims that use it.
+ */
+
+export type EvidenceSourceType = 'literature' | 'dataset' | 'pankbase' | 'external';
+
+export const EVIDENCE_SOURCE_TYPES: Array<{ type: EvidenceSourceType; label: MessageKey }> = [
+  { type: 'literature', label: 'explorer.literature' },
+  { type: 'dataset', label: 'explorer.datasets' },
+  { type: 'pankbase', label: 'explorer.pankbase' },
+  { type: 'external', label: 'explorer.external' },
+];
+
+/** One turn's use of an evidence item; `citationId` is the reference number within that turn's answer. */
+export interface EvidenceUse {
+  turnId: string;
+  citationId?: number;
+  /** Overview claims (or whole sections) of the turn citing it; 0 for items that are not cited inline. */
+  claims: number;
+}
+
+export interface EvidenceItem {
+  /** `pmid:…`, `dataset:…` or the link URL. */
+  key: string;
+  type: EvidenceSourceType;
+  title: string;
+  detail: string;
+  /** Journal for literature, the database otherwise. Sorted on as "journal". */
+  venue: string;
+  year?: string;
+  href?: string;
+  pmid?: string;
+  uses: EvidenceUse[];
+}
+
+export type EvidenceSort = 'frequency' | 'year' | 'journal';
+
+export const EVIDENCE_SORTS: Array<{ sort: EvidenceSort; label: MessageKey }> = [
+  { sort: 'frequency', label: 'explorer.sortFrequency' },
+  { sort: 'year', label: 'explorer.sortYear' },
+  { sort: 'journal', label: 'explorer.sortJournal' },
+];
+
+export const turnCount = (item: EvidenceItem) => item.uses.length;
+
+export const claimCount = (item: EvidenceItem) => item.uses.reduce((n, use) => n + use.claims, 0);
+
+/** Claims of text sections citing `id`, plus sections citing it as a whole. */
+const citingClaims = (turn: TurnData, id: number) =>
+  turn.aiOverview.reduce(
+    (n, section) =>
+      n +
+      (section.kind === 'text' ? section.body.filter(claim => claim.citationIds.includes(id)).length : 0) +
+      (section.citationIds.includes(id) ? 1 : 0),
+    0,
+  );
+
+/** Verified PubMed metadata wins over what the model wrote. */
+const literatureFields = (citation: Citation) => {
+  const record = citation.verification?.status === 'verified' ? citation.verification.record : undefined;
+  const claimed = splitJournal(citation.journal);
+  return {
+    title: record?.title ?? citation.title,
+    detail: record ? record.authors.join(', ') : citation.authors,
+    venue: record?.journal ?? claimed.journal,
+    year: record?.year ?? claimed.year,
+  };
+};
+
+/** Evidence of every turn with an answer, in the order first used; sort with `sortEvidence`. */
+export const collectEvidence = (turns: TurnData[]): EvidenceItem[] => {
+  const items = new Map<string, EvidenceItem>();
+  const use = (key: string, create: () => Omit<EvidenceItem, 'key' | 'uses'>, entry: EvidenceUse) => {
+    const item = items.get(key) ?? { ...create(), key, uses: [] };
+    if (!item.uses.some(u => u.turnId === entry.turnId)) item.uses.push(entry);
+    items.set(key, item);
+  };
+
+  const answered = turns.filter(turn => !turn.error && turn.status !== 'queued');
+
+  // References first, so PMIDs that are also linked from the text join the reference rather than the links.
+  answered.forEach(turn =>
+    turn.citations.forEach(citation => {
+      const pmid = citation.pmid.trim();
+      if (!pmid) return;
+      use(
+        `pmid:${pmid}`,
+        () => ({ type: 'literature', ...literatureFields(citation), href: pubmedUrl(pmid), pmid }),
+        { turnId: turn.id, citationId: citation.id, claims: citingClaims(turn, citation.id) },
+      );
+    }),
+  );
+
+  answered.forEach(turn => {
+    const datasets = new Map<string, TurnData['qtlRecords']>();
+    turn.qtlRecords.forEach(r => datasets.set(r.dataset, [...(datasets.get(r.dataset) ?? []), r]));
+    datasets.forEach((records, dataset) => {
+      const tissues = [...new Set(records.map(r => r.tissue))];
+      use(
+        `dataset:${dataset}`,
+        () => ({ type: 'dataset', title: dataset, detail: `QTL associations • ${tissues.join(', ')}`, venue: 'QTL dataset' }),
+        { turnId: turn.id, claims: 0 },
+      );
+    });
+
+    const { internal, external } = turnEntityLinks(turn);
+    const addLink = (type: EvidenceSourceType) => (link: EntityLink) => {
+      const pmid = link.kind === 'publication' ? link.entityId.replace(/^PMID:/, '') : undefined;
+      use(
+        pmid ? `pmid:${pmid}` : link.href,
+        () => ({ type: pmid ? 'literature' : type, title: link.title, detail: link.detail, venue: link.source, href: link.href, pmid }),
+        { turnId: turn.id, claims: 0 },
+      );
+    };
+    internal.forEach(addLink('pankbase'));
+    external.forEach(addLink('external'));
+  });
+
+  return [...items.values()];
+};
+
+const byFrequency = (a: EvidenceItem, b: EvidenceItem) => turnCount(b) - turnCount(a) || claimCount(b) - claimCount(a);
+
+/** Items without a year or journal go last; ties fall back to citation frequency. */
+export const sortEvidence = (items: EvidenceItem[], sort: EvidenceSort): EvidenceItem[] =>
+  [...items].sort((a, b) => {
+    if (sort === 'year') return (Number(b.year) || 0) - (Number(a.year) || 0) || byFrequency(a, b);
+    if (sort === 'journal') {
+      const unnamed = Number(a.type !== 'literature') - Number(b.type !== 'literature');
+      return unnamed || a.venue.localeCompare(b.venue, undefined, { sensitivity: 'base' }) || byFrequency(a, b);
+    }
+    return byFrequency(a, b);
+  });
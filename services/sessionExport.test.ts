@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { TurnData } from '../types';
+import { EMPTY_ANSWER } from '../constants';
+import { exportTurns } from './sessionExport';
+
+const TURN: TurnData = {
+  id: 't3',
+  query: 'Is rs689 a QTL?',
+  ...EMPTY_ANSWER,
+  aiOverview: [{ id: 'section-1', kind: 'text', title: 'Summary', body: [{ text: 'Yes.', citationIds: [1] }], citationIds: [] }],
+  citations: [{ id: 1, title: 'A^2 ~ 50% of C:\\data_{x}', authors: 'Smith J, Müller K', journal: 'Diabetes. 2021', pmid: '12345678' }],
+};
+
+describe('exportTurns', () => {
+  it('numbers a single exported turn by its place in the thread', () => {
+    const { content } = exportTurns([TURN], TURN.query, 'markdown', 3);
+
+    expect(content).toContain('## Q3. Is rs689 a QTL?');
+    expect(content).toContain('Yes.[^q3-1]');
+    expect(content).toContain('[^q3-1]: Smith J, Müller K.');
+  });
+
+  it('numbers a whole thread from Q1', () => {
+    expect(exportTurns([TURN, { ...TURN, id: 't4' }], 'Session', 'markdown').content.match(/^## Q\d/gm)).toEqual(['## Q1', '## Q2']);
+  });
+
+  it('escapes characters BibTeX treats as commands', () => {
+    const { content } = exportTurns([TURN], TURN.query, 'bibtex');
+
+    expect(content).toContain('title = {A\\textasciicircum{}2 \\textasciitilde{} 50\\% of C:\\textbackslash{}data\\_\\{x\\}}');
+  });
+});
@@ -0,0 +1,191 @@
+import { Citation, Session, TurnData } from '../types';
+import { splitAuthors, splitJournal } from '../utils/citation';
+import { sectionAnnotations } from './annotations';
+import { pubmedUrl } from './entities';
+import { isEmptySection, sectionMarkdown } from './overviewSections';
+import { migrateSession, SESSION_SCHEMA_VERSION } from './sessionStore';
+
+/**
+ * SESSION EXPORT / IMPORT
+ * Markdown for notebooks (with the reader's ratings and notes), lossless JSON for sharing (re-importable),
+ * BibTeX and RIS for reference managers.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'bibtex' | 'ris';
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string; mime: string }> = [
+  { format: 'markdown', label: 'Markdown', extension: 'md', mime: 'text/markdown' },
+  { format: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+  { format: 'bibtex', label: 'BibTeX', extension: 'bib', mime: 'application/x-bibtex' },
+  { format: 'ris', label: 'RIS', extension: 'ris', mime: 'application/x-research-info-systems' },
+];
+
+const EXPORT_KIND = 'pankbase-session';
+
+interface SessionExportFile {
+  kind: typeof EXPORT_KIND;
+  version: number;
+  title?: string;
+  exportedAt: string;
+  turns: TurnData[];
+}
+
+// --- Citation metadata helpers ---
+
+/** References across turns, deduplicated by PMID (first occurrence wins). */
+const uniqueCitations = (turns: TurnData[]): Citation[] => {
+  const seen = new Map<string, Citation>();
+  turns.forEach(turn => turn.citations.forEach(c => {
+    if (!seen.has(c.pmid)) seen.set(c.pmid, c);
+  }));
+  return Array.from(seen.values());
+};
+
+// --- Markdown ---
+
+const turnToMarkdown = (turn: TurnData, index: number): string => {
+  const footnote = (id: number) => `[^q${index + 1}-${id}]`;
+  const lines = [`## Q${index + 1}. ${turn.query}`, ''];
+
+  if (turn.error) {
+    lines.push(`> Answer unavailable: ${turn.error.message}`, '');
+    return lines.join('\n');
+  }
+
+  turn.aiOverview.forEach(section => {
+    if (isEmptySection(section)) return;
+    lines.push(`### ${section.title}`, '');
+    lines.push(...sectionMarkdown(section, ids => ids.map(footnote).join('')), '');
+
+    const feedback = turn.feedback?.[section.id];
+    if (feedback) {
+      lines.push(`> ${feedback.rating === 'up' ? 'Rated good' : 'Flagged'}${feedback.reason ? `: ${feedback.reason}` : ''}`, '');
+    }
+    const notes = sectionAnnotations(turn, section.id);
+    if (notes.length > 0) {
+      lines.push(...notes.map(a => `- Note on “${a.quote}”: ${[a.note, ...a.tags.map(t => `#${t}`)].filter(Boolean).join(' ')}`), '');
+    }
+  });
+
+  if (turn.followUpQuestions.length > 0) {
+    lines.push('### Follow-up questions', '', ...turn.followUpQuestions.map(q => `- ${q}`), '');
+  }
+
+  turn.citations.forEach(c => {
+    lines.push(`${footnote(c.id)}: ${c.authors}. ${c.title} ${c.journal}. PMID: [${c.pmid}](${pubmedUrl(c.pmid)})`);
+  });
+  if (turn.citations.length > 0) lines.push('');
+
+  return lines.join('\n');
+};
+
+const toMarkdown = (turns: TurnData[], title: string, firstNumber: number) =>
+  [`# ${title}`, '', ...turns.map((turn, i) => turnToMarkdown(turn, firstNumber - 1 + i))].join('\n');
+
+// --- BibTeX / RIS ---
+
+const BIBTEX_SPECIALS: { [char: string]: string } = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+const escapeBibtex = (value: string) =>
+  value.replace(/[\\~^{}&%$#_]/g, char => BIBTEX_SPECIALS[char] ?? `\\${char}`);
+
+const toBibtex = (turns: TurnData[]) =>
+  uniqueCitations(turns).map(c => {
+    const { journal, year } = splitJournal(c.journal);
+    const { names, truncated } = splitAuthors(c.authors);
+    const fields: Array<[string, string | undefined]> = [
+      ['title', c.title],
+      ['author', [...names, ...(truncated ? ['others'] : [])].join(' and ')],
+      ['journal', journal],
+      ['year', year],
+      ['pmid', c.pmid],
+      ['url', pubmedUrl(c.pmid)],
+    ];
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([key, value]) => `  ${key} = {${key === 'url' ? value : escapeBibtex(value!)}}`)
+      .join(',\n');
+    return `@article{pmid${c.pmid},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+
+const toRis = (turns: TurnData[]) =>
+  uniqueCitations(turns).map(c => {
+    const { journal, year } = splitJournal(c.journal);
+    const { names } = splitAuthors(c.authors);
+    return [
+      'TY  - JOUR',
+      `ID  - ${c.pmid}`,
+      `TI  - ${c.title}`,
+      ...names.map(name => `AU  - ${name}`),
+      `JO  - ${journal}`,
+      ...(year ? [`PY  - ${year}`] : []),
+      `AN  - PMID:${c.pmid}`,
+      `UR  - ${pubmedUrl(c.pmid)}`,
+      'ER  - ',
+    ].join('\n');
+  }).join('\n\n') + '\n';
+
+// --- JSON ---
+
+const toJson = (turns: TurnData[], title: string) => {
+  const file: SessionExportFile = {
+    kind: EXPORT_KIND,
+    version: SESSION_SCHEMA_VERSION,
+    title,
+    exportedAt: new Date().toISOString(),
+    turns,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'pankbase-session';
+
+/** `firstNumber` is the question number of `turns[0]` in its thread, so a single exported turn keeps its Qn. */
+export const exportTurns = (turns: TurnData[], title: string, format: ExportFormat, firstNumber = 1) => {
+  const meta = EXPORT_FORMATS.find(f => f.format === format)!;
+  const content = format === 'markdown' ? toMarkdown(turns, title, firstNumber)
+    : format === 'json' ? toJson(turns, title)
+    : format === 'bibtex' ? toBibtex(turns)
+    : toRis(turns);
+  return { filename: `${slugify(title)}.${meta.extension}`, content, mime: meta.mime };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads an exported JSON file back into a new session (fresh id, migrated and validated).
+ * Also accepts a bare `TurnData[]` array, treated as the current schema version.
+ */
+export const importSession = (text: string): Session => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const file: Record<string, unknown> | null = Array.isArray(parsed)
+    ? { version: SESSION_SCHEMA_VERSION, turns: parsed }
+    : isRecord(parsed) ? parsed : null;
+  if (!file || !Array.isArray(file.turns)) {
+    throw new Error('The file is not a PanKbase session export.');
+  }
+  const now = Date.now();
+  return migrateSession({
+    version: Number(file.version) || 1,
+    session: {
+      id: `session-${now}`,
+      title: typeof file.title === 'string' ? file.title : undefined,
+      createdAt: now,
+      updatedAt: now,
+      turns: file.turns,
+      view: {},
+      scrollY: 0,
+    },
+  });
+};
@@ -0,0 +1,241 @@
+import { Annotation, SectionFeedback, Session, SessionSummary, TurnData, TurnError, TurnViewState } from '../types';
+import { validateTurnAnswer } from './answerProvider';
+import { fromLegacyOverview } from './overviewSections';
+
+/**
+ * SESSION STORE
+ * Sessions are saved in IndexedDB, or in localStorage when IndexedDB is unavailable (private mode, old browsers).
+ * Every record carries a schema version; `migrateSession` upgrades old records step by step on load,
+ * so changes to `TurnData` never strand previously saved investigations.
+ */
+
+export const SESSION_SCHEMA_VERSION = 3;
+
+export interface StoredSession {
+  version: number;
+  session: unknown;
+}
+
+/**
+ * MIGRATIONS[n] upgrades a session from version n to n + 1.
+ * Add an entry here (and bump SESSION_SCHEMA_VERSION) whenever the persisted shape changes.
+ */
+const MIGRATIONS: { [fromVersion: number]: (session: Record<string, unknown>) => Record<string, unknown> } = {
+  // v2 introduced branching: v1 sessions were a single linear thread.
+  1: session => {
+    const turns = storedTurns(session);
+    return { ...session, turns: turns.map((turn, i) => (i === 0 ? turn : { ...turn, parentId: turns[i - 1].id })) };
+  },
+  // v3 replaced the fixed gene/qtl/relation overview with an ordered list of typed sections.
+  2: session => ({
+    ...session,
+    turns: storedTurns(session).map(turn => ({ ...turn, aiOverview: fromLegacyOverview(turn.aiOverview) })),
+  }),
+};
+
+export interface SessionStore {
+  readonly backend: 'indexeddb' | 'localstorage';
+  list(): Promise<SessionSummary[]>;
+  load(id: string): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// --- Versioning ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** The turns of a stored session, before they are validated; anything but a list of objects is malformed. */
+const storedTurns = (session: Record<string, unknown>): Record<string, unknown>[] => {
+  if (!Array.isArray(session.turns) || !session.turns.every(isRecord)) throw new Error('Stored session is malformed.');
+  return session.turns;
+};
+
+export const migrateSession = (stored: StoredSession): Session => {
+  let { version, session } = stored;
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(`Session was saved by a newer version of the app (schema v${version}).`);
+  }
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from session schema v${version}.`);
+    if (!isRecord(session)) throw new Error('Stored session is malformed.');
+    session = migrate(session);
+    version++;
+  }
+  return checkSession(session);
+};
+
+const isTurnError = (value: unknown): value is TurnError =>
+  isRecord(value) && (value.kind === 'provider' || value.kind === 'invalid-response') && typeof value.message === 'string';
+
+const isFeedback = (value: unknown): value is SectionFeedback =>
+  isRecord(value) && (value.rating === 'up' || value.rating === 'down') && typeof value.at === 'number'
+  && (value.reason === undefined || typeof value.reason === 'string');
+
+const isAnnotation = (value: unknown): value is Annotation =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.section === 'string' && typeof value.quote === 'string'
+  && typeof value.note === 'string' && ['claim', 'start', 'end', 'createdAt'].every(key => typeof value[key] === 'number')
+  && Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string');
+
+/** A stored turn: the answer is re-validated, the reader's feedback and notes keep only well-formed entries. */
+const checkTurn = (turn: Record<string, unknown>): TurnData => {
+  if (typeof turn.id !== 'string' || typeof turn.query !== 'string') throw new Error('Stored turn is malformed.');
+  const feedback = isRecord(turn.feedback)
+    ? Object.fromEntries(Object.entries(turn.feedback).filter((entry): entry is [string, SectionFeedback] => isFeedback(entry[1])))
+    : undefined;
+  return {
+    id: turn.id,
+    ...(typeof turn.parentId === 'string' && { parentId: turn.parentId }),
+    query: turn.query,
+    ...validateTurnAnswer(turn),
+    // A turn saved mid-stream or still queued cannot resume; keep what arrived.
+    ...((turn.status === 'streaming' || turn.status === 'queued' || turn.status === 'stopped') && { status: 'stopped' as const }),
+    ...(typeof turn.cachedAt === 'number' && { cachedAt: turn.cachedAt }),
+    ...(isTurnError(turn.error) && { error: turn.error }),
+    ...(feedback && { feedback }),
+    ...(Array.isArray(turn.annotations) && { annotations: turn.annotations.filter(isAnnotation) }),
+  };
+};
+
+const checkView = (value: unknown): Session['view'] =>
+  Object.fromEntries(
+    Object.entries(isRecord(value) ? value : {}).flatMap(([turnId, state]): Array<[string, TurnViewState]> =>
+      isRecord(state)
+        ? [[turnId, {
+          ...(typeof state.visualTab === 'string' && { visualTab: state.visualTab }),
+          ...(typeof state.evidenceTab === 'string' && { evidenceTab: state.evidenceTab }),
+          ...(typeof state.pinned === 'boolean' && { pinned: state.pinned }),
+        }]]
+        : []),
+  );
+
+/** Re-validates every turn, so a corrupted record fails loudly instead of crashing the renderer. */
+const checkSession = (value: unknown): Session => {
+  if (!isRecord(value) || typeof value.id !== 'string') {
+    throw new Error('Stored session is malformed.');
+  }
+  const turns = storedTurns(value).map(checkTurn);
+  return {
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title : undefined,
+    createdAt: Number(value.createdAt) || Date.now(),
+    updatedAt: Number(value.updatedAt) || Date.now(),
+    turns,
+    view: checkView(value.view),
+    scrollY: Number(value.scrollY) || 0,
+    activeLeafId: turns.find(t => t.id === value.activeLeafId)?.id,
+  };
+};
+
+export const sessionTitle = (session: Pick<Session, 'title' | 'turns'>): string =>
+  session.title || session.turns[0]?.query || 'Untitled investigation';
+
+const summarize = (session: Session): SessionSummary => ({
+  id: session.id,
+  title: sessionTitle(session),
+  updatedAt: session.updatedAt,
+  turnCount: session.turns.length,
+});
+
+const toStored = (session: Session): StoredSession => ({ version: SESSION_SCHEMA_VERSION, session });
+
+/** Loads every readable record; unreadable ones are reported and skipped rather than hiding the rest. */
+const readAll = (records: StoredSession[]): Session[] =>
+  records.flatMap(record => {
+    try {
+      return [migrateSession(record)];
+    } catch (err) {
+      console.warn('Skipping unreadable session:', err);
+      return [];
+    }
+  });
+
+// --- IndexedDB backend ---
+
+const DB_NAME = 'pankbase-knowledge';
+const STORE_NAME = 'sessions';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'session.id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStore = (db: IDBDatabase): SessionStore => {
+  const tx = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  const all = async () => readAll(await promisify(tx('readonly').getAll() as IDBRequest<StoredSession[]>));
+
+  return {
+    backend: 'indexeddb',
+    async list() {
+      return (await all()).map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async load(id) {
+      const record = await promisify(tx('readonly').get(id) as IDBRequest<StoredSession | undefined>);
+      return record ? readAll([record])[0] ?? null : null;
+    },
+    async save(session) {
+      await promisify(tx('readwrite').put(toStored(session)));
+    },
+    async remove(id) {
+      await promisify(tx('readwrite').delete(id));
+    },
+  };
+};
+
+// --- localStorage backend ---
+
+const LOCAL_PREFIX = 'pankbase-session:';
+
+const createLocalStorageStore = (): SessionStore => {
+  const keys = () => Object.keys(localStorage).filter(k => k.startsWith(LOCAL_PREFIX));
+  const read = (key: string): StoredSession | null => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    backend: 'localstorage',
+    async list() {
+      const records = keys().map(read).filter((r): r is StoredSession => r !== null);
+      return readAll(records).map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async load(id) {
+      const record = read(LOCAL_PREFIX + id);
+      return record ? readAll([record])[0] ?? null : null;
+    },
+    async save(session) {
+      localStorage.setItem(LOCAL_PREFIX + session.id, JSON.stringify(toStored(session)));
+    },
+    async remove(id) {
+      localStorage.removeItem(LOCAL_PREFIX + id);
+    },
+  };
+};
+
+export const createSessionStore = async (): Promise<SessionStore> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return createIndexedDbStore(await openDatabase());
+    } catch (err) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', err);
+    }
+  }
+  return createLocalStorageStore();
+};
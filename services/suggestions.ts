@@ -0,0 +1,121 @@
+import index from '../data/suggestion-index.json';
+
+/**
+ * QUERY SUGGESTIONS
+ * Typeahead over a bundled index (data/suggestion-index.json) of gene symbols, rsIDs, tissues and diseases,
+ * and question templates with `{slot}` placeholders. Picking a template puts its text in the search box;
+ * each placeholder is then filled in place, with suggestions restricted to the slot's kind.
+ */
+
+export type SuggestionKind = 'gene' | 'variant' | 'tissue' | 'disease';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  label: string;
+  detail: string;
+  /** Text that replaces the word (or placeholder) being completed. */
+  insert: string;
+}
+
+const ENTRIES: Suggestion[] = [
+  ...index.genes.map(g => ({ kind: 'gene' as const, label: g.symbol, detail: g.name, insert: g.symbol })),
+  ...index.variants.map(v => ({ kind: 'variant' as const, label: v.rsid, detail: `Variant near ${v.gene}`, insert: v.rsid })),
+  ...index.tissues.map(t => ({ kind: 'tissue' as const, label: t.name, detail: t.detail, insert: t.name })),
+  // The MONDO id travels with the name so the answer and the entity links resolve the same disease.
+  ...index.diseases.map(d => ({ kind: 'disease' as const, label: d.name, detail: d.id, insert: `${d.name} (${d.id})` })),
+];
+
+/** Typing fewer characters than this (outside a placeholder) suggests nothing. */
+const MIN_PREFIX = 2;
+export const MAX_SUGGESTIONS = 8;
+const MIN_DETAIL_QUERY = 3;
+
+/**
+ * Index entries for `text`, best first: exact, then prefix, then word-prefix (e.g. "diab" → "type 1 diabetes"),
+ * then substring matches, then matches in the description. An empty `text` lists the first entries of `kind`.
+ */
+export const suggestEntities = (text: string, kind?: SuggestionKind, limit = MAX_SUGGESTIONS): Suggestion[] => {
+  const query = text.trim().toLowerCase();
+  const pool = kind ? ENTRIES.filter(e => e.kind === kind) : ENTRIES;
+  if (!query) return kind ? pool.slice(0, limit) : [];
+  if (!kind && query.length < MIN_PREFIX) return [];
+
+  const rank = (entry: Suggestion) => {
+    const label = entry.label.toLowerCase();
+    if (label === query) return 0;
+    if (label.startsWith(query)) return 1;
+    if (label.split(/[\s-]+/).some(word => word.startsWith(query))) return 2;
+    if (label.includes(query)) return 3;
+    // Descriptions ("insulin", "Variant near CFTR") only once the query is specific enough to mean them.
+    if (query.length >= MIN_DETAIL_QUERY && entry.detail.toLowerCase().includes(query)) return 4;
+    return -1;
+  };
+  return pool
+    .map(entry => ({ entry, score: rank(entry) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.entry.label.length - b.entry.label.length)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+// --- Editing the query text ---
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/** The word ending at the caret (letters, digits, `_` and `-`), or null when the caret follows a space. */
+export const wordAt = (text: string, caret: number): (TextRange & { word: string }) | null => {
+  const before = text.slice(0, caret).match(/[\w-]+$/);
+  if (!before) return null;
+  const after = text.slice(caret).match(/^[\w-]*/)?.[0] ?? '';
+  const start = caret - before[0].length;
+  return { start, end: caret + after.length, word: before[0] + after };
+};
+
+/** `text` with `range` replaced; also returns where the caret goes (after the insertion). */
+export const replaceRange = (text: string, range: TextRange, insert: string) => ({
+  text: text.slice(0, range.start) + insert + text.slice(range.end),
+  caret: range.start + insert.length,
+});
+
+// --- Templates ---
+
+export interface QueryTemplate {
+  id: string;
+  text: string;
+}
+
+export const QUERY_TEMPLATES: QueryTemplate[] = [
+  { id: 'variant-expression', text: 'How does SNP {rsid} influence expression of {gene} in {tissue}?' },
+  { id: 'gene-disease', text: 'What is the role of {gene} in {disease}?' },
+  { id: 'gene-qtls', text: 'Which variants near {gene} are QTLs in {tissue}?' },
+  { id: 'variant-disease', text: 'Is {rsid} associated with {disease}, and through which gene?' },
+  { id: 'cell-type', text: 'Which cell types in {tissue} show open chromatin at {rsid}?' },
+];
+
+const SLOT_KINDS: Record<string, SuggestionKind> = { rsid: 'variant', gene: 'gene', tissue: 'tissue', disease: 'disease' };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export interface Placeholder extends TextRange {
+  slot: string;
+  kind?: SuggestionKind;
+}
+
+export const placeholders = (text: string): Placeholder[] =>
+  [...text.matchAll(PLACEHOLDER)].map(match => {
+    const start = match.index ?? 0;
+    return { start, end: start + match[0].length, slot: match[1], kind: SLOT_KINDS[match[1]] };
+  });
+
+/** The placeholder containing the caret (or the selection it is part of). */
+export const placeholderAt = (text: string, caret: number) =>
+  placeholders(text).find(p => caret >= p.start && caret <= p.end) ?? null;
+
+/** The first unfilled placeholder after `from`, wrapping around to the start. */
+export const nextPlaceholder = (text: string, from = 0) => {
+  const all = placeholders(text);
+  return all.find(p => p.start >= from) ?? all[0] ?? null;
+};
@@ -0,0 +1,137 @@
+import { Citation, OverviewSection, QtlRecord, TurnData } from '../types';
+import { sectionText } from './overviewSections';
+
+/**
+ * TURN COMPARISON
+ * Lines two answers up for side-by-side reading: a word diff per AI Overview section,
+ * citations matched by PMID, and QTL records matched by variant, gene, tissue and dataset.
+ */
+
+export type DiffOp = 'same' | 'removed' | 'added';
+
+/** A run of words; `removed` runs exist only in the first text, `added` only in the second. */
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/** Above this many word pairs the LCS table gets slow; the texts are then shown as wholly different. */
+const MAX_DIFF_CELLS = 250_000;
+
+const tokenize = (text: string) => text.match(/\S+\s*/g) ?? [];
+/** Words compare case-insensitively and ignoring trailing punctuation, so "CFTR," matches "CFTR". */
+const comparable = (token: string) => token.trim().toLowerCase().replace(/[.,;:!?()"]+$/g, '');
+
+const pushSegment = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) last.text += text;
+  else segments.push({ op, text });
+};
+
+/** Word-level diff of `a` → `b` (longest common subsequence), whitespace kept with the word before it. */
+export const diffWords = (a: string, b: string): DiffSegment[] => {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  if (left.length * right.length > MAX_DIFF_CELLS) {
+    return [...(a ? [{ op: 'removed' as const, text: a }] : []), ...(b ? [{ op: 'added' as const, text: b }] : [])];
+  }
+
+  const keyA = left.map(comparable);
+  const keyB = right.map(comparable);
+  // lcs[i][j] = length of the common subsequence of left[i..] and right[j..].
+  const lcs = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = keyA[i] === keyB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && keyA[i] === keyB[j]) {
+      pushSegment(segments, 'same', left[i]);
+      i++;
+      j++;
+    } else if (j < right.length && (i === left.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      pushSegment(segments, 'added', right[j++]);
+    } else {
+      pushSegment(segments, 'removed', left[i++]);
+    }
+  }
+  return segments;
+};
+
+/** Share of the words that the two texts have in common (1 = same wording). */
+export const similarity = (segments: DiffSegment[]) => {
+  const count = (op: DiffOp) => segments.filter(s => s.op === op).reduce((n, s) => n + s.text.split(/\s+/).filter(Boolean).length, 0);
+  const same = count('same');
+  const total = same * 2 + count('removed') + count('added');
+  return total === 0 ? 1 : (same * 2) / total;
+};
+
+export interface SectionMatch {
+  key: string;
+  title: string;
+  a?: OverviewSection;
+  b?: OverviewSection;
+}
+
+const sectionKey = (section: OverviewSection) => section.title.trim().toLowerCase();
+
+/**
+ * Sections paired by title (ids are not comparable across answers, e.g. `gene` in migrated sessions):
+ * A's in order, then those only B has.
+ */
+export const matchSections = (a: TurnData, b: TurnData): SectionMatch[] => {
+  const rows = new Map<string, SectionMatch>();
+  a.aiOverview.forEach(s => rows.set(sectionKey(s), { key: sectionKey(s), title: s.title, a: s }));
+  b.aiOverview.forEach(s => rows.set(sectionKey(s), { key: sectionKey(s), title: s.title, ...rows.get(sectionKey(s)), b: s }));
+  return [...rows.values()];
+};
+
+export const overviewText = (section?: OverviewSection) => (section ? sectionText(section) : '');
+
+// --- Evidence ---
+
+export interface CitationMatch {
+  pmid: string;
+  a?: Citation;
+  b?: Citation;
+}
+
+/** Every PMID cited by either turn: shared ones first, then those only in A, then only in B. */
+export const matchCitations = (a: TurnData, b: TurnData): CitationMatch[] => {
+  const byPmid = new Map<string, CitationMatch>();
+  a.citations.forEach(c => byPmid.set(c.pmid, { pmid: c.pmid, a: c }));
+  b.citations.forEach(c => byPmid.set(c.pmid, { ...byPmid.get(c.pmid), pmid: c.pmid, b: c }));
+  const rank = (m: CitationMatch) => (m.a && m.b ? 0 : m.a ? 1 : 2);
+  return [...byPmid.values()].sort((x, y) => rank(x) - rank(y));
+};
+
+export interface QtlMatch {
+  key: string;
+  variant: string;
+  gene: string;
+  tissue: string;
+  dataset: string;
+  a?: QtlRecord;
+  b?: QtlRecord;
+}
+
+const qtlKey = (r: QtlRecord) => `${r.variant}|${r.gene}|${r.tissue}|${r.dataset}`;
+
+/** QTL records of both turns on shared rows (same variant, gene, tissue and dataset), strongest first. */
+export const matchQtlRecords = (a: TurnData, b: TurnData): QtlMatch[] => {
+  const rows = new Map<string, QtlMatch>();
+  const add = (record: QtlRecord, side: 'a' | 'b') => {
+    const key = qtlKey(record);
+    const { variant, gene, tissue, dataset } = record;
+    rows.set(key, { key, variant, gene, tissue, dataset, ...rows.get(key), [side]: record });
+  };
+  a.qtlRecords.forEach(r => add(r, 'a'));
+  b.qtlRecords.forEach(r => add(r, 'b'));
+  const best = (m: QtlMatch) => Math.min(m.a?.pValue ?? 1, m.b?.pValue ?? 1);
+  return [...rows.values()].sort((x, y) => best(x) - best(y));
+};
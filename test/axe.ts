@@ -0,0 +1,10 @@
+import axe from 'axe-core';
+
+/**
+ * Accessibility violations axe finds in `container`, as "rule: target" lines so a failure names the element.
+ * Colour contrast is left out: jsdom does not lay out or paint, so axe cannot measure it.
+ */
+export const axeViolations = async (container: Element): Promise<string[]> => {
+  const { violations } = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+  return violations.flatMap(v => v.nodes.map(node => `${v.id}: ${node.target.join(' ')}`));
+};
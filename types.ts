@@ -0,0 +1,279 @@
+// --- Types ---
+
+export interface Citation {
+  id: number;
+  title: string;
+  authors: string;
+  journal: string;
+  pmid: string;
+  /** Result of checking the claimed metadata against PubMed; absent until the check has run. */
+  verification?: CitationVerification;
+}
+
+/** Canonical bibliographic record of a PubMed id. */
+export interface PubmedRecord {
+  pmid: string;
+  title: string;
+  authors: string[];
+  journal: string;
+  /** ISO abbreviation, e.g. `Nat Genet`. */
+  journalAbbrev?: string;
+  year?: string;
+  doi?: string;
+}
+
+export type CitationField = 'title' | 'authors' | 'journal' | 'year';
+
+export interface CitationVerification {
+  /** `unavailable` when the metadata source could not be reached; the citation is neither confirmed nor refuted. */
+  status: 'verified' | 'mismatched' | 'not-found' | 'unavailable';
+  /** Name of the metadata source that was consulted, e.g. `local cache` or `PubMed E-utilities`. */
+  source: string;
+  record?: PubmedRecord;
+  /** Claimed fields that disagree with `record`. */
+  mismatches: CitationField[];
+  checkedAt: number;
+}
+
+/** One sentence or claim of a text section, bound to the citations that support it. */
+export interface OverviewClaim {
+  text: string;
+  citationIds: number[];
+}
+
+export interface OverviewFact {
+  label: string;
+  value: string;
+}
+
+export interface OverviewTable {
+  columns: string[];
+  rows: string[][];
+}
+
+interface OverviewSectionBase {
+  /** Stable within the turn; ratings and notes refer to sections by id. */
+  id: string;
+  title: string;
+  /** Citations backing the section as a whole (text claims also carry their own). */
+  citationIds: number[];
+}
+
+export interface TextSection extends OverviewSectionBase {
+  kind: 'text';
+  body: OverviewClaim[];
+}
+
+export interface FactsSection extends OverviewSectionBase {
+  kind: 'facts';
+  body: OverviewFact[];
+}
+
+export interface TableSection extends OverviewSectionBase {
+  kind: 'table';
+  body: OverviewTable;
+}
+
+/** One block of the AI Overview; which sections an answer has depends on the question. */
+export type OverviewSection = TextSection | FactsSection | TableSection;
+
+export type OverviewSectionKind = OverviewSection['kind'];
+
+/** The sections of an answer, in display order. */
+export type AIOverview = OverviewSection[];
+
+export type GraphNodeKind = 'gene' | 'variant' | 'tissue' | 'disease' | 'publication';
+
+export type GraphEdgeKind = 'eQTL' | 'effector-gene' | 'cited-by' | 'expressed-in' | 'associated-with';
+
+export interface GraphNode {
+  /** Canonical identifier, e.g. `ENSG0000001626`, `rs2402203`, `MONDO_0005147`, `PMID:34127860`. */
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+}
+
+/** Entities mentioned in a turn and the typed relations between them. */
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/** One variant-gene association from a QTL dataset. */
+export interface QtlRecord {
+  variant: string;
+  gene: string;
+  tissue: string;
+  effectAllele: string;
+  slope: number;
+  pValue: number;
+  /** Source dataset, e.g. `GTEx V8`. */
+  dataset: string;
+  /** Standard error of the slope, when reported; drawn as a 95% interval. */
+  slopeSe?: number;
+  /** GRCh38 position of the variant, when known; used as the x axis of the locus plot. */
+  position?: number;
+}
+
+export interface TurnError {
+  kind: 'provider' | 'invalid-response';
+  message: string;
+}
+
+export interface TurnData {
+  id: string;
+  /** The turn this one follows up on; absent for the first question of a session. Forms the branch tree. */
+  parentId?: string;
+  query: string;
+  aiOverview: AIOverview;
+  citations: Citation[];
+  knowledgeGraph: KnowledgeGraph;
+  qtlRecords: QtlRecord[];
+  followUpQuestions: string[];
+  /**
+   * `queued` while waiting for earlier questions, `streaming` while chunks are still arriving,
+   * `stopped` if the user aborted; absent once complete.
+   */
+  status?: 'queued' | 'streaming' | 'stopped';
+  /** Set when the answer was served from the answer cache: when it was originally produced. */
+  cachedAt?: number;
+  /** Set when the answer pipeline failed; the card renders an error state instead of content. */
+  error?: TurnError;
+  /** The reader's rating of each overview section, by section id. */
+  feedback?: { [sectionId: string]: SectionFeedback };
+  /** Notes attached to passages of the overview, drawn as highlights. */
+  annotations?: Annotation[];
+}
+
+export interface SectionFeedback {
+  rating: 'up' | 'down';
+  reason?: string;
+  at: number;
+}
+
+/** A note on a passage of one claim of a text section; `start`/`end` are character offsets into the claim text. */
+export interface Annotation {
+  id: string;
+  /** Section id. */
+  section: string;
+  claim: number;
+  start: number;
+  end: number;
+  /** The passage as it read when annotated. */
+  quote: string;
+  note: string;
+  tags: string[];
+  createdAt: number;
+}
+
+/** The part of a turn produced by an answer provider (everything but the identity and question). */
+export type TurnAnswer = Pick<TurnData, 'aiOverview' | 'citations' | 'knowledgeGraph' | 'qtlRecords' | 'followUpQuestions'>;
+
+/** An answer that is still streaming in: any section may be missing or incomplete. */
+export interface PartialTurnAnswer {
+  /** The sections so far; the last one may still be growing. */
+  aiOverview?: AIOverview;
+  citations?: Citation[];
+  knowledgeGraph?: KnowledgeGraph;
+  qtlRecords?: QtlRecord[];
+  followUpQuestions?: string[];
+}
+
+/** UI state of one turn card that is worth restoring with its session. */
+export interface TurnViewState {
+  visualTab?: string;
+  evidenceTab?: string;
+  /** Kept at the top of the turn directory. */
+  pinned?: boolean;
+}
+
+export interface Session {
+  id: string;
+  /** Set when the user renames the session; otherwise the first question is shown. */
+  title?: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: TurnData[];
+  view: { [turnId: string]: TurnViewState };
+  scrollY: number;
+  /** Last turn of the branch being viewed; defaults to the most recent turn. */
+  activeLeafId?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  updatedAt: number;
+  turnCount: number;
+}
+
+export type EntityKind = 'variant' | 'ensembl-gene' | 'gene-symbol' | 'disease' | 'publication';
+
+/** An identifier recognised in free text (a question or an overview claim). */
+export interface EntityMention {
+  kind: EntityKind;
+  /** The text as written, e.g. `ENSG0000001626` or `MONDO:0005147`. */
+  text: string;
+  /** Canonical form used for links and de-duplication, e.g. `ENSG00000001626`, `MONDO_0005147`, `PMID:34127860`. */
+  id: string;
+  start: number;
+  end: number;
+  /** Set when the text does not match the identifier's format; the chip is flagged and `id` is a best-effort repair. */
+  issue?: string;
+}
+
+export interface EntityLink {
+  /** Canonical entity id the link is for. */
+  entityId: string;
+  kind: EntityKind;
+  title: string;
+  detail: string;
+  href: string;
+  source: 'PanKbase' | 'dbSNP' | 'Ensembl' | 'Open Targets' | 'PubMed';
+}
+
+// --- PanKgraph records (see services/pankgraphClient.ts) ---
+
+export interface GeneCard {
+  /** Ensembl gene id, e.g. `ENSG00000001626`. */
+  id: string;
+  symbol: string;
+  name: string;
+  description: string;
+  chromosome: string;
+  /** GRCh38 coordinates. */
+  start: number;
+  end: number;
+  biotype: string;
+}
+
+export interface VariantRecord {
+  rsid: string;
+  chromosome: string;
+  /** GRCh38 position. */
+  position: number;
+  ref: string;
+  alt: string;
+  /** Most severe consequence, e.g. `intron_variant`. */
+  consequence: string;
+  /** Minor allele frequency (gnomAD, all populations), when known. */
+  maf?: number;
+}
+
+/** Chromatin accessibility of a region in one islet cell type, from single-nucleus ATAC-seq. */
+export interface CellTypeAccessibility {
+  /** The variant whose position falls in the region. */
+  variant: string;
+  /** Peak coordinates, e.g. `chr7:117559402-117559901`. */
+  region: string;
+  cellType: string;
+  /** Normalized accessibility, 0-1. */
+  score: number;
+  dataset: string;
+}
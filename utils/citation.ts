@@ -0,0 +1,12 @@
+/** `"NATURE GENETICS. 2021"` → `{ journal: "NATURE GENETICS", year: "2021" }`. */
+export const splitJournal = (journal: string) => {
+  const match = journal.match(/^(.*?)[.,]?\s*((?:19|20)\d{2})\s*$/);
+  return match ? { journal: match[1].trim(), year: match[2] } : { journal: journal.trim(), year: undefined };
+};
+
+/** `"Robertson CC, ..., Rich SS"` → `{ names: ["Robertson CC", "Rich SS"], truncated: true }`. */
+export const splitAuthors = (authors: string) => {
+  const parts = authors.split(',').map(a => a.trim()).filter(Boolean);
+  const names = parts.filter(a => !/^(\.\.\.|…|et al\.?)$/i.test(a));
+  return { names, truncated: names.length < parts.length };
+};
@@ -0,0 +1,47 @@
+/** Saves a blob as a file through a temporary object URL. */
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, type = 'text/plain') =>
+  downloadBlob(filename, new Blob([text], { type: `${type};charset=utf-8` }));
+
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const downloadSvg = (filename: string, svg: SVGSVGElement) =>
+  downloadText(filename, serializeSvg(svg), 'image/svg+xml');
+
+/** Rasterizes an SVG (using its viewBox size) at `scale`x and saves it as PNG. */
+export const downloadPng = (filename: string, svg: SVGSVGElement, scale = 2): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const { width, height } = svg.viewBox.baseVal;
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas 2D context is unavailable.'));
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) return reject(new Error('PNG encoding failed.'));
+        downloadBlob(filename, blob);
+        resolve();
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error('The chart could not be rasterized.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(serializeSvg(svg))}`;
+  });
@@ -0,0 +1,20 @@
+/**
+ * Number formatting for QTL statistics. `locale` is a BCP 47 tag (see services/i18n.ts `numberLocale`);
+ * exports and other machine-read text leave it out and get en-US.
+ */
+
+const numberFormat = (locale: string, options: Intl.NumberFormatOptions) => new Intl.NumberFormat(locale, options);
+
+/** p-values below 0.001 in scientific notation (4.84e-17), larger ones to two significant digits. */
+export const formatPValue = (p: number, locale: string = 'en-US'): string => {
+  if (p === 0) return numberFormat(locale, {}).format(0);
+  if (p < 1e-3) {
+    const [mantissa, exponent] = p.toExponential(2).split('e');
+    return `${numberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Number(mantissa))}e${exponent}`;
+  }
+  return numberFormat(locale, { minimumSignificantDigits: 2, maximumSignificantDigits: 2 }).format(p);
+};
+
+/** Slopes / effect sizes with an explicit sign. */
+export const formatSlope = (slope: number, locale: string = 'en-US'): string =>
+  numberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2, signDisplay: 'exceptZero' }).format(slope);
@@ -0,0 +1,3 @@
+/** True while focus is in a text field, where single-key shortcuts must be left to the field. */
+export const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
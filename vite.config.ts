@@ -1,6 +1,38 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { handlePankgraphRequest } from './services/pankgraphMockServer';
+
+/** Serves the PanKgraph fixtures over HTTP at /api/pankgraph while `npm run dev` is running. */
+const pankgraphMockServer = (): Plugin => ({
+  name: 'pankgraph-mock-server',
+  configureServer(server) {
+    server.middlewares.use('/api/pankgraph', (req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const { status, body } = handlePankgraphRequest(url.pathname, url.searchParams);
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    });
+  },
+});
+
+/**
+ * GitHub Pages serves 404.html for any path it has no file for; making it a copy of index.html
+ * lets deep links such as /newPage/session/:id/turn/:n boot the app, which then reads the URL.
+ */
+const spaFallback = (): Plugin => ({
+  name: 'spa-fallback',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const index = bundle['index.html'];
+    if (index?.type === 'asset') this.emitFile({ type: 'asset', fileName: '404.html', source: index.source });
+  },
+});
+
+const BASE_PATH = '/newPage/';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,16 +41,29 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      base: '/newPage/',
-      define: {
+      plugins: [react(), pankgraphMockServer(), spaFallback()],
+      base: BASE_PATH,
+      // Vitest copies process.env defines into the real process.env, where undefined becomes "undefined";
+      // tests read the environment they run in instead.
+      define: mode === 'test' ? {} : {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ANSWER_PROVIDER': JSON.stringify(env.ANSWER_PROVIDER),
+        'process.env.PANKGRAPH_API_URL': JSON.stringify(env.PANKGRAPH_API_URL),
+        'process.env.PUBMED_SOURCE': JSON.stringify(env.PUBMED_SOURCE),
+        'process.env.NCBI_API_KEY': JSON.stringify(env.NCBI_API_KEY),
+        'process.env.BASE_PATH': JSON.stringify(BASE_PATH),
+        // Dev-only diagnostics, e.g. missing translations.
+        'process.env.DEV': JSON.stringify(mode === 'development')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
       }
     };
 });